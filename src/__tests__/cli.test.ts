@@ -3,9 +3,13 @@
  * Note: Full end-to-end tests require running the CLI process
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
 import * as path from 'node:path';
 
 const execAsync = promisify(exec);
@@ -19,6 +23,7 @@ describe('CLI', () => {
             expect(stdout).toContain('Ordis');
             expect(stdout).toContain('USAGE:');
             expect(stdout).toContain('ordis extract');
+            expect(stdout).toContain('ordis batch');
             expect(stdout).toContain('--schema');
             expect(stdout).toContain('--input');
             expect(stdout).toContain('--base');
@@ -109,4 +114,286 @@ describe('CLI', () => {
             }
         });
     });
+
+    describe('batch command', () => {
+        it('should error when --input is missing', async () => {
+            try {
+                await execAsync(`node ${CLI_PATH} batch --schema test.json --base http://localhost --model test`);
+                expect.fail('Should have thrown an error');
+            } catch (error: any) {
+                expect(error.code).toBe(1);
+                expect(error.stderr).toContain('--input is required');
+            }
+        });
+
+        it('should error when no files match', async () => {
+            try {
+                await execAsync(`node ${CLI_PATH} batch --schema examples/invoice.schema.json --input "examples/*.nomatch" --base http://localhost --model test`);
+                expect.fail('Should have thrown an error');
+            } catch (error: any) {
+                expect(error.code).toBe(1);
+                expect(error.stderr).toContain('No input files matched');
+            }
+        });
+
+        it('should reject an invalid concurrency', async () => {
+            try {
+                await execAsync(`node ${CLI_PATH} batch --concurrency 0`);
+                expect.fail('Should have thrown an error');
+            } catch (error: any) {
+                expect(error.code).toBe(1);
+                expect(error.stderr).toContain('Invalid concurrency');
+            }
+        });
+    });
+
+    describe('stdin and --output', () => {
+        const SCHEMA_PATH = path.join(process.cwd(), 'examples/invoice.schema.json');
+        let server: http.Server;
+        let baseURL: string;
+        let tmpDir: string;
+        let lastPrompt = '';
+        let lastModel = '';
+        let requestCount = 0;
+        const originalCacheHome = process.env.XDG_CACHE_HOME;
+
+        beforeAll(async () => {
+            tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-cli-'));
+            // Keep the result cache of the CLI processes out of the user's home
+            process.env.XDG_CACHE_HOME = path.join(tmpDir, 'cache');
+            server = http.createServer((req, res) => {
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', () => {
+                    const request = JSON.parse(body);
+                    requestCount++;
+                    lastPrompt = request.messages[1].content;
+                    lastModel = request.model;
+                    res.setHeader('Content-Type', 'application/json');
+                    res.end(JSON.stringify({
+                        choices: [{
+                            message: {
+                                role: 'assistant',
+                                content: JSON.stringify({
+                                    data: { invoice_id: 'INV-42', amount: 100, currency: 'USD' },
+                                    confidence: 95,
+                                    confidenceByField: { invoice_id: 95, amount: 95, currency: 95 },
+                                }),
+                            },
+                            finish_reason: 'stop',
+                        }],
+                        usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+                    }));
+                });
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+        });
+
+        afterAll(async () => {
+            if (originalCacheHome === undefined) {
+                delete process.env.XDG_CACHE_HOME;
+            } else {
+                process.env.XDG_CACHE_HOME = originalCacheHome;
+            }
+            await new Promise(resolve => server.close(resolve));
+            await fs.rm(tmpDir, { recursive: true, force: true });
+        });
+
+        it('should read piped stdin when --input is omitted', async () => {
+            const { stdout } = await execAsync(
+                `printf 'Invoice INV-42 total 100 USD' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --base ${baseURL} --model test`
+            );
+
+            expect(JSON.parse(stdout).data.invoice_id).toBe('INV-42');
+            expect(lastPrompt).toContain('Invoice INV-42 total 100 USD');
+        });
+
+        it('should read stdin with --input -', async () => {
+            const { stdout } = await execAsync(
+                `printf 'Invoice from dash' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --input - --base ${baseURL} --model test`
+            );
+
+            expect(JSON.parse(stdout).success).toBe(true);
+            expect(lastPrompt).toContain('Invoice from dash');
+        });
+
+        it('should write the result to --output', async () => {
+            const outputPath = path.join(tmpDir, 'nested', 'result.json');
+            const { stdout } = await execAsync(
+                `printf 'Invoice INV-42' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --base ${baseURL} --model test --output ${outputPath}`
+            );
+
+            expect(stdout).toBe('');
+            const written = JSON.parse(await fs.readFile(outputPath, 'utf-8'));
+            expect(written.success).toBe(true);
+            expect(written.data).toEqual({ invoice_id: 'INV-42', amount: 100, currency: 'USD' });
+        });
+
+        it('should split oversized inputs into chunks with --chunk', async () => {
+            const inputPath = path.join(tmpDir, 'long.txt');
+            await fs.writeFile(inputPath, 'Invoice INV-42 total 100 USD, payable within thirty days.\n\n'.repeat(150));
+            const before = requestCount;
+
+            // The stub reports no confidence for the optional date, which would
+            // pull the merged confidence below the threshold
+            const schemaPath = path.join(tmpDir, 'chunk.schema.json');
+            const { date: _date, ...fields } = JSON.parse(await fs.readFile(SCHEMA_PATH, 'utf-8')).fields;
+            await fs.writeFile(schemaPath, JSON.stringify({ fields }));
+
+            const { stdout } = await execAsync(
+                `node ${CLI_PATH} extract --schema ${schemaPath} --input ${inputPath} --base ${baseURL} --model test ` +
+                `--max-context-tokens 2000 --chunk --no-cache`
+            );
+
+            const result = JSON.parse(stdout);
+            expect(result.success).toBe(true);
+            expect(result.metadata.chunks).toBeGreaterThan(1);
+            expect(requestCount - before).toBe(result.metadata.chunks);
+        });
+
+        it('should read settings from ordis.config.json and ORDIS_* env vars', async () => {
+            const projectDir = path.join(tmpDir, 'project');
+            await fs.mkdir(path.join(projectDir, 'sub'), { recursive: true });
+            await fs.writeFile(
+                path.join(projectDir, 'ordis.config.json'),
+                JSON.stringify({ baseURL: baseURL, model: 'file-model' })
+            );
+
+            await execAsync(
+                `printf 'Invoice' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH}`,
+                { cwd: path.join(projectDir, 'sub') }
+            );
+            expect(lastModel).toBe('file-model');
+
+            await execAsync(
+                `printf 'Invoice' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH}`,
+                { cwd: projectDir, env: { ...process.env, ORDIS_MODEL: 'env-model' } }
+            );
+            expect(lastModel).toBe('env-model');
+
+            await execAsync(
+                `printf 'Invoice' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --model cli-model`,
+                { cwd: projectDir, env: { ...process.env, ORDIS_MODEL: 'env-model' } }
+            );
+            expect(lastModel).toBe('cli-model');
+        });
+
+        it('should error on an invalid config file', async () => {
+            const configPath = path.join(tmpDir, 'bad.config.json');
+            await fs.writeFile(configPath, JSON.stringify({ timeout: 'soon' }));
+
+            try {
+                await execAsync(`printf 'Invoice' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --config ${configPath}`);
+                expect.fail('Should have thrown an error');
+            } catch (error: any) {
+                expect(error.code).toBe(1);
+                expect(error.stderr).toContain('"timeout" must be a non-negative number');
+            }
+        });
+
+        it('should keep input extensions in --output-dir result names', async () => {
+            const inputDir = path.join(tmpDir, 'mixed');
+            const outputDir = path.join(tmpDir, 'mixed-results');
+            await fs.mkdir(inputDir, { recursive: true });
+            await fs.writeFile(path.join(inputDir, 'a.txt'), 'Invoice INV-1');
+            await fs.writeFile(path.join(inputDir, 'a.md'), 'Invoice INV-2');
+
+            await execAsync(
+                `node ${CLI_PATH} batch --schema ${SCHEMA_PATH} --input ${inputDir} --base ${baseURL} --model test --no-cache --output-dir ${outputDir}`
+            );
+
+            expect((await fs.readdir(outputDir)).sort()).toEqual(['a.md.json', 'a.txt.json']);
+        });
+
+        it('should record a failed result write as that file\'s failure and still summarize', async () => {
+            const inputDir = path.join(tmpDir, 'unwritable');
+            const outputDir = path.join(tmpDir, 'unwritable-results');
+            const jsonlPath = path.join(tmpDir, 'unwritable.jsonl');
+            await fs.mkdir(inputDir, { recursive: true });
+            await fs.writeFile(path.join(inputDir, 'a.txt'), 'Invoice INV-1');
+            await fs.writeFile(path.join(inputDir, 'b.txt'), 'Invoice INV-2');
+            // A directory where the result file for a.txt would go
+            await fs.mkdir(path.join(outputDir, 'a.txt.json'), { recursive: true });
+
+            const error = await execAsync(
+                `node ${CLI_PATH} batch --schema ${SCHEMA_PATH} --input ${inputDir} --base ${baseURL} --model test --no-cache ` +
+                `--output-dir ${outputDir} --jsonl ${jsonlPath}`
+            ).then(() => expect.fail('Should have exited non-zero'), error => error);
+
+            expect(error.code).toBe(1);
+            expect(error.stderr).toContain('Cannot write the result for a.txt');
+            expect(error.stderr).toContain('Succeeded: 1');
+            expect(error.stderr).toContain('Failed: 1');
+            expect(JSON.parse(await fs.readFile(path.join(outputDir, 'b.txt.json'), 'utf-8')).success).toBe(true);
+        });
+
+        it('should total token usage and cost in the batch summary with --pricing', async () => {
+            const inputDir = path.join(tmpDir, 'priced');
+            await fs.mkdir(inputDir, { recursive: true });
+            await fs.writeFile(path.join(inputDir, 'a.txt'), 'Invoice INV-1');
+            await fs.writeFile(path.join(inputDir, 'b.txt'), 'Invoice INV-2');
+            const pricingPath = path.join(tmpDir, 'pricing.json');
+            await fs.writeFile(pricingPath, JSON.stringify({ test: { input: 1000, output: 2000 } }));
+
+            const { stdout, stderr } = await execAsync(
+                `node ${CLI_PATH} batch --schema ${SCHEMA_PATH} --input ${inputDir} --base ${baseURL} --model test --no-cache --pricing ${pricingPath}`
+            );
+
+            const lines = stdout.trim().split('\n').map(line => JSON.parse(line));
+            expect(lines[0].metadata.usage).toMatchObject({ requests: 1, promptTokens: 50, completionTokens: 10, cost: 0.07 });
+            expect(stderr).toContain('Tokens: 100 prompt + 20 completion reported');
+            expect(stderr).toContain('Cost: $0.1400');
+        });
+
+        it('should reuse cached results unless --no-cache or --refresh is given', async () => {
+            const command = `printf 'Invoice to cache' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --base ${baseURL} --model test`;
+            const before = requestCount;
+
+            const first = JSON.parse((await execAsync(command)).stdout);
+            const second = JSON.parse((await execAsync(command)).stdout);
+
+            expect(first.metadata.cached).toBe(false);
+            expect(second.metadata.cached).toBe(true);
+            expect(second.data).toEqual(first.data);
+            expect(requestCount - before).toBe(1);
+
+            await execAsync(`${command} --refresh`);
+            const uncached = JSON.parse((await execAsync(`${command} --no-cache`)).stdout);
+
+            expect(uncached.metadata).not.toHaveProperty('cached');
+            expect(requestCount - before).toBe(3);
+        });
+
+        it('should record a cassette and replay it without calling the provider', async () => {
+            const cassettePath = path.join(tmpDir, 'invoice.cassette.json');
+            const command = `printf 'Invoice to record' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --base ${baseURL} --model test`;
+            const before = requestCount;
+
+            const recorded = JSON.parse((await execAsync(`${command} --record ${cassettePath}`)).stdout);
+            const replayed = JSON.parse((await execAsync(`${command} --replay ${cassettePath}`)).stdout);
+
+            expect(replayed.data).toEqual(recorded.data);
+            expect(requestCount - before).toBe(1);
+
+            try {
+                await execAsync(`printf 'Unrecorded invoice' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --base ${baseURL} --model test --replay ${cassettePath}`);
+                expect.fail('Should have thrown an error');
+            } catch (error: any) {
+                expect(error.code).toBe(1);
+                expect(error.stderr).toContain('No recorded response in cassette');
+            }
+            expect(requestCount - before).toBe(1);
+        });
+
+        it('should error on empty stdin', async () => {
+            try {
+                await execAsync(`printf '' | node ${CLI_PATH} extract --schema ${SCHEMA_PATH} --base ${baseURL} --model test`);
+                expect.fail('Should have thrown an error');
+            } catch (error: any) {
+                expect(error.code).toBe(1);
+                expect(error.stderr).toContain('No input received on stdin');
+            }
+        });
+    });
 });
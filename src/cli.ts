@@ -7,23 +7,85 @@
 
 import process from 'node:process';
 import * as fs from 'node:fs/promises';
+import { fstatSync } from 'node:fs';
 import * as path from 'node:path';
 import { loadSchema } from './schemas/loader.js';
 import { extract } from './core/pipeline.js';
-import type { LLMConfig } from './llm/types.js';
-import { formatError, formatValidationErrors } from './core/error-formatter.js';
+import { FileCacheStore } from './core/cache.js';
+import { addUsage, createUsage, parsePriceTable } from './core/usage.js';
+import type { CacheConfig, ExtractionUsage, PipelineResult, PriceTable, TruncationStrategy } from './core/types.js';
+import type { ExtractionMode, LLMConfig, ProviderName, TokenizerVocabulary } from './llm/types.js';
+import { listProviders } from './llm/providers/registry.js';
+import { TOKENIZER_VOCABULARIES } from './llm/tokenizer.js';
+import { formatError } from './core/error-formatter.js';
+import { expandInputPattern, type MatchedFile } from './utils/glob.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import {
+    findConfigFile,
+    loadConfigFile,
+    readEnvConfig,
+    resolveLLMConfig,
+    type OrdisConfig,
+} from './utils/config.js';
 import packageJson from '../package.json' with { type: 'json' };
 
 interface CliArgs {
     command?: string;
+    /** Extra positional arguments (e.g., shell-expanded batch inputs) */
+    files?: string[];
     schema?: string;
     input?: string;
+    output?: string;
+    outputDir?: string;
+    jsonl?: string;
+    concurrency?: number;
     base?: string;
     model?: string;
     apiKey?: string;
+    config?: string;
+    timeout?: number;
+    temperature?: number;
+    retries?: number;
+    maxContextTokens?: number;
+    truncation?: TruncationStrategy;
+    /** Split inputs that exceed the token budget into chunks */
+    chunk?: boolean;
+    tokenizer?: TokenizerVocabulary;
+    /** Vocabulary file for --tokenizer */
+    tokenizerFile?: string;
+    /** Price table file for cost reporting */
+    pricing?: string;
     debug?: boolean;
     jsonMode?: boolean;
-    provider?: 'openai' | 'ollama';
+    structuredOutput?: boolean;
+    extractionMode?: ExtractionMode;
+    provider?: ProviderName;
+    noCache?: boolean;
+    refresh?: boolean;
+    /** Cache entry lifetime in seconds */
+    cacheTtl?: number;
+    cacheDir?: string;
+    /** Cassette file to record LLM traffic to */
+    record?: string;
+    /** Cassette file to replay LLM traffic from */
+    replay?: string;
+}
+
+/**
+ * Values accepted by --truncate
+ */
+const TRUNCATION_STRATEGIES: readonly TruncationStrategy[] = ['head', 'tail', 'head_tail', 'relevant'];
+
+/**
+ * Parses a numeric flag value, exiting with an error if it is invalid
+ */
+function parseNumberFlag(flag: string, value: string, integer: boolean): number {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0 || (integer && !Number.isInteger(number))) {
+        console.error(`Error: Invalid value for ${flag} "${value}". Must be a non-negative ${integer ? 'integer' : 'number'}`);
+        process.exit(1);
+    }
+    return number;
 }
 
 function parseArgs(args: string[]): CliArgs {
@@ -52,12 +114,64 @@ function parseArgs(args: string[]): CliArgs {
             continue;
         }
 
+        if (arg === '--structured-output') {
+            parsed.structuredOutput = true;
+            continue;
+        }
+
+        if (arg === '--no-cache') {
+            parsed.noCache = true;
+            continue;
+        }
+
+        if (arg === '--refresh') {
+            parsed.refresh = true;
+            continue;
+        }
+
+        if (arg === '--chunk') {
+            parsed.chunk = true;
+            continue;
+        }
+
         if (arg === '--provider' && args[i + 1]) {
             const provider = args[++i];
-            if (provider === 'openai' || provider === 'ollama') {
+            const providers = listProviders();
+            if (providers.includes(provider)) {
                 parsed.provider = provider;
             } else {
-                console.error(`Error: Invalid provider "${provider}". Must be "openai" or "ollama"`);
+                console.error(`Error: Invalid provider "${provider}". Must be one of: ${providers.join(', ')}`);
+                process.exit(1);
+            }
+            continue;
+        }
+
+        if (arg === '--truncate' && args[i + 1]) {
+            const strategy = args[++i];
+            if (!TRUNCATION_STRATEGIES.includes(strategy as TruncationStrategy)) {
+                console.error(`Error: Invalid truncation strategy "${strategy}". Must be one of: ${TRUNCATION_STRATEGIES.join(', ')}`);
+                process.exit(1);
+            }
+            parsed.truncation = strategy as TruncationStrategy;
+            continue;
+        }
+
+        if (arg === '--tokenizer' && args[i + 1]) {
+            const vocabulary = args[++i];
+            if (!TOKENIZER_VOCABULARIES.includes(vocabulary as TokenizerVocabulary)) {
+                console.error(`Error: Invalid tokenizer "${vocabulary}". Must be one of: ${TOKENIZER_VOCABULARIES.join(', ')}`);
+                process.exit(1);
+            }
+            parsed.tokenizer = vocabulary as TokenizerVocabulary;
+            continue;
+        }
+
+        if (arg === '--extraction-mode' && args[i + 1]) {
+            const mode = args[++i];
+            if (mode === 'prompt' || mode === 'tool') {
+                parsed.extractionMode = mode;
+            } else {
+                console.error(`Error: Invalid extraction mode "${mode}". Must be "prompt" or "tool"`);
                 process.exit(1);
             }
             continue;
@@ -73,11 +187,60 @@ function parseArgs(args: string[]): CliArgs {
             parsed.model = args[++i];
         } else if (arg === '--api-key' && args[i + 1]) {
             parsed.apiKey = args[++i];
+        } else if (arg === '--config' && args[i + 1]) {
+            parsed.config = args[++i];
+        } else if (arg === '--timeout' && args[i + 1]) {
+            parsed.timeout = parseNumberFlag(arg, args[++i], true);
+        } else if (arg === '--temperature' && args[i + 1]) {
+            parsed.temperature = parseNumberFlag(arg, args[++i], false);
+        } else if (arg === '--retries' && args[i + 1]) {
+            parsed.retries = parseNumberFlag(arg, args[++i], true);
+        } else if (arg === '--max-context-tokens' && args[i + 1]) {
+            parsed.maxContextTokens = parseNumberFlag(arg, args[++i], true);
+        } else if (arg === '--tokenizer-file' && args[i + 1]) {
+            parsed.tokenizerFile = args[++i];
+        } else if (arg === '--pricing' && args[i + 1]) {
+            parsed.pricing = args[++i];
+        } else if (arg === '--cache-ttl' && args[i + 1]) {
+            parsed.cacheTtl = parseNumberFlag(arg, args[++i], false);
+        } else if (arg === '--cache-dir' && args[i + 1]) {
+            parsed.cacheDir = args[++i];
+        } else if (arg === '--record' && args[i + 1]) {
+            parsed.record = args[++i];
+        } else if (arg === '--replay' && args[i + 1]) {
+            parsed.replay = args[++i];
+        } else if (arg === '--output' && args[i + 1]) {
+            parsed.output = args[++i];
+        } else if (arg === '--output-dir' && args[i + 1]) {
+            parsed.outputDir = args[++i];
+        } else if (arg === '--jsonl' && args[i + 1]) {
+            parsed.jsonl = args[++i];
+        } else if (arg === '--concurrency' && args[i + 1]) {
+            const concurrency = Number(args[++i]);
+            if (!Number.isInteger(concurrency) || concurrency < 1) {
+                console.error(`Error: Invalid concurrency "${args[i]}". Must be a positive integer`);
+                process.exit(1);
+            }
+            parsed.concurrency = concurrency;
         } else if (!arg.startsWith('--')) {
-            parsed.command = arg;
+            if (!parsed.command) {
+                parsed.command = arg;
+            } else {
+                parsed.files = [...(parsed.files ?? []), arg];
+            }
         }
     }
 
+    if (Boolean(parsed.tokenizer) !== Boolean(parsed.tokenizerFile)) {
+        console.error('Error: --tokenizer and --tokenizer-file must be used together');
+        process.exit(1);
+    }
+
+    if (parsed.record && parsed.replay) {
+        console.error('Error: --record and --replay cannot be used together');
+        process.exit(1);
+    }
+
     return parsed;
 }
 
@@ -87,19 +250,70 @@ Ordis - Schema-first LLM extraction tool
 
 USAGE:
   ordis extract [OPTIONS]
+  ordis batch [OPTIONS]
 
 OPTIONS:
   --schema <path>   Path to schema definition file (JSON)
-  --input <path>    Path to input text file
+  --input <path>    Path to input text file, or '-' for stdin (batch: directory or glob pattern)
+  --output <path>   Write the result JSON to a file instead of stdout
   --base <url>      Base URL for OpenAI-compatible API
   --model <name>    Model name to use for extraction
   --api-key <key>   API key for the LLM provider (optional)
   --json-mode       Enable JSON mode for reliable JSON responses
-  --provider <type> Provider type: 'openai' or 'ollama' (auto-detected if not set)
+  --structured-output
+                    Enforce a JSON Schema generated from the schema (OpenAI-compatible and Ollama)
+  --extraction-mode <mode>
+                    'prompt' (JSON in the reply, default) or 'tool' (forced tool call)
+  --provider <type> Provider type: 'openai', 'ollama', 'anthropic' or 'mock' (auto-detected if not set)
+  --timeout <ms>    Request timeout in milliseconds (default: 120000)
+  --temperature <n> Sampling temperature (default: 0)
+  --retries <n>     Maximum retries for failed requests (default: 3)
+  --max-context-tokens <n>
+                    Model context window in tokens (default: 32768)
+  --truncate <strategy>
+                    Trim inputs that exceed the token budget instead of failing:
+                    head, tail, head_tail or relevant (paragraphs mentioning schema fields)
+  --chunk           Split inputs that exceed the token budget into chunks, extract each
+                    and merge the results
+  --tokenizer <name> Count tokens with a BPE vocabulary: cl100k, o200k, llama3 or qwen2
+                    (default: ~4 characters per token)
+  --tokenizer-file <path>
+                    Vocabulary file for --tokenizer (tiktoken ranks file or tokenizer.json)
+  --pricing <path>  Price table JSON ({ "<model>": { "input": n, "output": n } }, per million tokens)
+                    used to report the cost of each extraction
+  --config <path>   Config file to use instead of the nearest ordis.config.json
+  --no-cache        Always call the model; do not read or write cached results
+  --refresh         Call the model and replace the cached result
+  --cache-ttl <s>   Ignore cached results older than this many seconds
+  --cache-dir <dir> Cache directory (default: $XDG_CACHE_HOME/ordis or ~/.cache/ordis)
+  --record <path>   Save every LLM request and response to a cassette file (bypasses cached results)
+  --replay <path>   Answer LLM requests from a cassette file instead of calling the provider;
+                    unmatched requests fail (disables the result cache)
   --debug           Enable verbose debug output
   --version, -v     Show version number
   --help, -h        Show this help message
 
+CACHING:
+  Successful extractions are cached by input, schema, prompt, model and model
+  settings, so re-running on the same document does not call the model again.
+
+CONFIGURATION:
+  Settings are read from ordis.config.json (searched from the current directory
+  upward) and ORDIS_* environment variables. Precedence: flags > env > file.
+
+  ORDIS_BASE_URL, ORDIS_MODEL, ORDIS_API_KEY, ORDIS_PROVIDER, ORDIS_JSON_MODE,
+  ORDIS_STRUCTURED_OUTPUT, ORDIS_EXTRACTION_MODE, ORDIS_TIMEOUT, ORDIS_TEMPERATURE,
+  ORDIS_RETRIES, ORDIS_MAX_CONTEXT_TOKENS
+
+  ordis.config.json accepts: baseURL, model, apiKey, provider, jsonMode,
+  structuredOutput, extractionMode, timeout, temperature, retries,
+  maxContextTokens, ollamaOptions
+
+BATCH OPTIONS:
+  --output-dir <dir>    Write one <file>.json result per input file (e.g. a.txt.json)
+  --jsonl <path>        Write results as JSON Lines ('-' for stdout, the default)
+  --concurrency <n>     Number of files extracted in parallel (default: 4)
+
 EXAMPLES:
   # Extract invoice data using local Ollama
   ordis extract \\
@@ -111,6 +325,22 @@ EXAMPLES:
   # Extract with debug output
   ordis extract --schema schema.json --input data.txt --debug
 
+  # Read from a pipe and save the result
+  curl -s https://example.com/invoice.txt | ordis extract \\
+    --schema examples/invoice.schema.json \\
+    --output invoice.json \\
+    --base http://localhost:11434/v1 \\
+    --model llama3.1:8b
+
+  # Extract every receipt in a directory, 8 at a time
+  ordis batch \\
+    --schema receipt.schema.json \\
+    --input "receipts/**/*.txt" \\
+    --output-dir results/ \\
+    --concurrency 8 \\
+    --base http://localhost:11434/v1 \\
+    --model qwen2.5:7b
+
 For more information, visit: https://github.com/ordis-dev/ordis
 `);
 }
@@ -127,23 +357,19 @@ async function runExtraction(args: CliArgs): Promise<void> {
         process.exit(1);
     }
 
-    if (!args.input) {
-        console.error('Error: --input is required');
-        console.error('Usage: ordis extract --schema <path> --input <path> --base <url> --model <name>');
-        process.exit(1);
+    // Fall back to stdin when input is piped in
+    if (!args.input && isStdinPiped()) {
+        args.input = '-';
     }
 
-    if (!args.base) {
-        console.error('Error: --base is required');
+    if (!args.input) {
+        console.error('Error: --input is required (or pipe input via stdin)');
         console.error('Usage: ordis extract --schema <path> --input <path> --base <url> --model <name>');
         process.exit(1);
     }
 
-    if (!args.model) {
-        console.error('Error: --model is required');
-        console.error('Usage: ordis extract --schema <path> --input <path> --base <url> --model <name>');
-        process.exit(1);
-    }
+    const llmConfig = await loadLLMConfig(args, 'Usage: ordis extract --schema <path> --input <path> --base <url> --model <name>');
+    const pricing = await loadPricing(args);
 
     try {
         // Step 1: Load schema
@@ -162,28 +388,25 @@ async function runExtraction(args: CliArgs): Promise<void> {
             });
         }
 
-        // Step 2: Read input file
+        // Step 2: Read input file (or stdin)
         if (args.debug) {
-            console.log(`[DEBUG] Reading input from: ${args.input}`);
+            console.log(`[DEBUG] Reading input from: ${args.input === '-' ? 'stdin' : args.input}`);
         }
 
-        const inputPath = path.resolve(args.input);
-        const inputText = await fs.readFile(inputPath, 'utf-8');
+        const inputText = args.input === '-'
+            ? await readStdin()
+            : await fs.readFile(path.resolve(args.input), 'utf-8');
+
+        if (args.input === '-' && inputText.trim() === '') {
+            console.error('Error: No input received on stdin');
+            process.exit(1);
+        }
 
         if (args.debug) {
             console.log(`[DEBUG] Input loaded: ${inputText.length} characters`);
         }
 
-        // Step 3: Create LLM config
-        const llmConfig: LLMConfig = {
-            baseURL: args.base,
-            model: args.model,
-            ...(args.apiKey && { apiKey: args.apiKey }),
-            debug: args.debug,
-            ...(args.jsonMode && { jsonMode: true }),
-            ...(args.provider && { provider: args.provider }),
-        };
-
+        // Step 3: Show LLM config
         if (args.debug) {
             console.log('[DEBUG] LLM config:', {
                 baseURL: llmConfig.baseURL,
@@ -200,6 +423,10 @@ async function runExtraction(args: CliArgs): Promise<void> {
             input: inputText,
             schema,
             llmConfig,
+            cache: buildCacheConfig(args),
+            truncation: args.truncation,
+            chunking: args.chunk,
+            pricing,
             debug: args.debug,
         });
 
@@ -216,44 +443,11 @@ async function runExtraction(args: CliArgs): Promise<void> {
 
         if (result.success) {
             // Output successful extraction as JSON
-            const output = {
-                success: true,
-                data: result.data,
-                confidence: result.confidence,
-                confidenceByField: result.confidenceByField,
-                meetsThreshold: result.meetsThreshold,
-                metadata: result.metadata,
-            };
-
-            console.log(JSON.stringify(output, null, 2));
+            await writeOutput(buildSuccessOutput(result), true, args);
             process.exit(0);
         } else {
             // Output failure with formatted errors
-            const formattedErrors = result.errors.map((err: any) => {
-                // If we have the original error in details, format that
-                const errorToFormat = err.details?.error || err;
-                const formatted = formatError(errorToFormat, {
-                    model: args.model,
-                    baseURL: args.base,
-                });
-                
-                return {
-                    message: formatted,
-                    code: err.code,
-                    field: err.field,
-                };
-            });
-
-            const output = {
-                success: false,
-                errors: formattedErrors,
-                data: result.data, // May be partial
-                confidence: result.confidence,
-                meetsThreshold: result.meetsThreshold,
-                metadata: result.metadata,
-            };
-
-            console.error(JSON.stringify(output, null, 2));
+            await writeOutput(buildFailureOutput(result, llmConfig), false, args);
             process.exit(1);
         }
     } catch (error) {
@@ -262,18 +456,406 @@ async function runExtraction(args: CliArgs): Promise<void> {
             console.error('[DEBUG] Stack trace:', error.stack);
         }
 
-        const formattedMessage = formatError(error);
-        const errorOutput = {
-            success: false,
-            errors: [
-                {
-                    message: formattedMessage,
-                    code: (error as any).code || 'UNKNOWN_ERROR',
-                },
-            ],
+        await writeOutput(buildErrorOutput(error), false, args).catch(() => {
+            console.error(JSON.stringify(buildErrorOutput(error), null, 2));
+        });
+        process.exit(1);
+    }
+}
+
+/**
+ * Checks whether stdin is a pipe or redirected file (as opposed to a terminal)
+ */
+function isStdinPiped(): boolean {
+    try {
+        const stat = fstatSync(0);
+        return stat.isFIFO() || stat.isFile();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Reads all of stdin as UTF-8 text
+ */
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Writes result JSON to --output if given, otherwise to stdout (success) or stderr (failure)
+ *
+ * Failures written to a file are also reported on stderr so they are not silent.
+ */
+async function writeOutput(output: Record<string, unknown>, success: boolean, args: CliArgs): Promise<void> {
+    const json = JSON.stringify(output, null, 2);
+
+    if (args.output) {
+        const outputPath = path.resolve(args.output);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, json + '\n', 'utf-8');
+
+        if (args.debug) {
+            console.log(`[DEBUG] Result written to: ${outputPath}`);
+        }
+    }
+
+    if (!success) {
+        console.error(json);
+    } else if (!args.output) {
+        console.log(json);
+    }
+}
+
+/**
+ * Resolves the LLM config from flags, ORDIS_* environment variables and
+ * ordis.config.json (in that order of precedence)
+ *
+ * Exits with an error if the config is invalid or baseURL/model are missing.
+ */
+async function loadLLMConfig(args: CliArgs, usage: string): Promise<LLMConfig> {
+    let fileConfig: OrdisConfig = {};
+    let envConfig: OrdisConfig;
+
+    try {
+        const configPath = args.config ? path.resolve(args.config) : await findConfigFile();
+        if (configPath) {
+            if (args.debug) {
+                console.error(`[DEBUG] Loading config from: ${configPath}`);
+            }
+            fileConfig = await loadConfigFile(configPath);
+        }
+        envConfig = readEnvConfig();
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        process.exit(1);
+    }
+
+    const cliConfig: OrdisConfig = {
+        baseURL: args.base,
+        model: args.model,
+        apiKey: args.apiKey,
+        provider: args.provider,
+        ...(args.jsonMode && { jsonMode: true }),
+        ...(args.structuredOutput && { structuredOutput: true }),
+        extractionMode: args.extractionMode,
+        timeout: args.timeout,
+        temperature: args.temperature,
+        retries: args.retries,
+        maxContextTokens: args.maxContextTokens,
+    };
+
+    const config = resolveLLMConfig(fileConfig, envConfig, cliConfig);
+
+    if (!config.baseURL) {
+        console.error('Error: --base is required (or set ORDIS_BASE_URL, or "baseURL" in ordis.config.json)');
+        console.error(usage);
+        process.exit(1);
+    }
+
+    if (!config.model) {
+        console.error('Error: --model is required (or set ORDIS_MODEL, or "model" in ordis.config.json)');
+        console.error(usage);
+        process.exit(1);
+    }
+
+    const cassette = args.record
+        ? { path: path.resolve(args.record), mode: 'record' as const }
+        : args.replay
+            ? { path: path.resolve(args.replay), mode: 'replay' as const }
+            : undefined;
+
+    return {
+        ...config,
+        baseURL: config.baseURL,
+        model: config.model,
+        debug: args.debug,
+        ...(cassette && { cassette }),
+        ...(args.tokenizer && args.tokenizerFile && {
+            tokenizer: { vocabulary: args.tokenizer, path: path.resolve(args.tokenizerFile) },
+        }),
+    };
+}
+
+/**
+ * Loads the --pricing price table, if given
+ *
+ * Exits with an error if the file cannot be read or is invalid.
+ */
+async function loadPricing(args: CliArgs): Promise<PriceTable | undefined> {
+    if (!args.pricing) {
+        return undefined;
+    }
+
+    const pricingPath = path.resolve(args.pricing);
+    try {
+        return parsePriceTable(JSON.parse(await fs.readFile(pricingPath, 'utf-8')), pricingPath);
+    } catch (error) {
+        console.error(`Error: Failed to load price table: ${(error as Error).message}`);
+        process.exit(1);
+    }
+}
+
+/**
+ * Formats batch token usage (and cost, when priced) as summary lines
+ *
+ * Reported tokens are those the provider returned; estimated tokens are
+ * counted locally, for comparison with the estimator.
+ */
+function formatUsageSummary(usage: ExtractionUsage, priced: boolean): string[] {
+    const lines = [
+        `  Requests: ${usage.requests} (${usage.retries} retr${usage.retries === 1 ? 'y' : 'ies'})`,
+        `  Tokens: ${usage.promptTokens} prompt + ${usage.completionTokens} completion reported, ` +
+            `${usage.estimatedPromptTokens} prompt + ${usage.estimatedCompletionTokens} completion estimated`,
+    ];
+    if (usage.unreportedRequests > 0) {
+        lines.push(`  Requests without reported usage: ${usage.unreportedRequests}`);
+    }
+    if (priced) {
+        const missing = usage.unreportedRequests > 0 ? 'usage not reported for every request' : 'model not in price table';
+        lines.push(`  Cost: ${usage.cost !== undefined ? '$' + usage.cost.toFixed(4) : `n/a (${missing})`}`);
+    }
+    return lines;
+}
+
+/**
+ * Builds result cache settings from --no-cache, --refresh, --cache-ttl and --cache-dir
+ *
+ * Recording always calls the model (so every request reaches the cassette),
+ * and replaying never uses the cache (so the cassette alone decides the result).
+ */
+function buildCacheConfig(args: CliArgs): CacheConfig | false {
+    if (args.noCache || args.replay) {
+        return false;
+    }
+
+    return {
+        store: new FileCacheStore(args.cacheDir ? path.resolve(args.cacheDir) : undefined),
+        ttl: args.cacheTtl !== undefined ? args.cacheTtl * 1000 : undefined,
+        refresh: args.refresh || args.record !== undefined,
+    };
+}
+
+/**
+ * Builds JSON output for a successful extraction
+ */
+function buildSuccessOutput(result: PipelineResult): Record<string, unknown> {
+    return {
+        success: true,
+        data: result.data,
+        confidence: result.confidence,
+        confidenceByField: result.confidenceByField,
+        meetsThreshold: result.meetsThreshold,
+        metadata: result.metadata,
+    };
+}
+
+/**
+ * Builds JSON output for a failed extraction, with user-friendly error messages
+ */
+function buildFailureOutput(result: PipelineResult, llmConfig: LLMConfig): Record<string, unknown> {
+    const formattedErrors = result.errors.map((err: any) => {
+        // If we have the original error in details, format that
+        const errorToFormat = err.details?.error || err;
+        const formatted = formatError(errorToFormat, {
+            model: llmConfig.model,
+            baseURL: llmConfig.baseURL,
+        });
+
+        return {
+            message: formatted,
+            code: err.code,
+            field: err.field,
         };
+    });
+
+    return {
+        success: false,
+        errors: formattedErrors,
+        data: result.data, // May be partial
+        confidence: result.confidence,
+        meetsThreshold: result.meetsThreshold,
+        metadata: result.metadata,
+    };
+}
+
+/**
+ * Builds JSON output for an unexpected error
+ */
+function buildErrorOutput(error: unknown): Record<string, unknown> {
+    return {
+        success: false,
+        errors: [
+            {
+                message: formatError(error),
+                code: (error as any).code || 'UNKNOWN_ERROR',
+            },
+        ],
+    };
+}
+
+/**
+ * Result of one file of a batch, for the summary
+ */
+interface BatchOutcome {
+    success: boolean;
+    confidence?: number;
+    usage?: ExtractionUsage;
+}
+
+async function runBatch(args: CliArgs): Promise<void> {
+    const usage = 'Usage: ordis batch --schema <path> --input <dir|glob> --base <url> --model <name>';
+    const patterns = [args.input, ...(args.files ?? [])].filter((p): p is string => Boolean(p));
+
+    // Validate required arguments
+    if (!args.schema) {
+        console.error('Error: --schema is required');
+        console.error(usage);
+        process.exit(1);
+    }
+
+    if (patterns.length === 0) {
+        console.error('Error: --input is required (directory or glob pattern)');
+        console.error(usage);
+        process.exit(1);
+    }
+
+    const llmConfig = await loadLLMConfig(args, usage);
+    const pricing = await loadPricing(args);
+
+    try {
+        // Load schema once for all files
+        const schema = await loadSchema(path.resolve(args.schema));
+
+        // Resolve input files (deduplicated across patterns)
+        const seen = new Set<string>();
+        const files: MatchedFile[] = [];
+        for (const pattern of patterns) {
+            for (const file of await expandInputPattern(pattern)) {
+                if (!seen.has(file.path)) {
+                    seen.add(file.path);
+                    files.push(file);
+                }
+            }
+        }
+
+        if (files.length === 0) {
+            console.error(`Error: No input files matched: ${patterns.join(', ')}`);
+            process.exit(1);
+        }
+
+        const concurrency = args.concurrency ?? 4;
+
+        if (args.debug) {
+            console.error(`[DEBUG] Batch: ${files.length} files, concurrency ${concurrency}`);
+        }
+
+        // Prepare outputs
+        if (args.outputDir) {
+            await fs.mkdir(path.resolve(args.outputDir), { recursive: true });
+        }
+        const jsonlPath = args.jsonl ?? (args.outputDir ? undefined : '-');
+        const jsonlFile = jsonlPath && jsonlPath !== '-'
+            ? await fs.open(path.resolve(jsonlPath), 'w')
+            : undefined;
+
+        const cache = buildCacheConfig(args);
+        const startTime = Date.now();
+        let completed = 0;
+
+        const processFile = async (file: MatchedFile): Promise<BatchOutcome> => {
+            let output: Record<string, unknown>;
+            let usage: ExtractionUsage | undefined;
+            try {
+                const inputText = await fs.readFile(file.path, 'utf-8');
+                const result = await extract({
+                    input: inputText,
+                    schema,
+                    llmConfig,
+                    cache,
+                    truncation: args.truncation,
+                    chunking: args.chunk,
+                    pricing,
+                    debug: args.debug,
+                });
+                usage = result.metadata.usage;
+                output = result.success ? buildSuccessOutput(result) : buildFailureOutput(result, llmConfig);
+            } catch (error) {
+                output = buildErrorOutput(error);
+            }
+
+            // Write result for this file; a failed write fails this file only
+            try {
+                if (args.outputDir) {
+                    // Keep the input extension so a.txt and a.md do not share a result file
+                    const outputPath = path.join(path.resolve(args.outputDir), file.relativePath + '.json');
+                    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+                    await fs.writeFile(outputPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
+                }
+                if (jsonlPath) {
+                    const line = JSON.stringify({ input: file.relativePath, ...output }) + '\n';
+                    if (jsonlFile) {
+                        await jsonlFile.write(line);
+                    } else {
+                        process.stdout.write(line);
+                    }
+                }
+            } catch (error) {
+                console.error(`Error: Cannot write the result for ${file.relativePath}: ${(error as Error).message}`);
+                output = buildErrorOutput(error);
+            }
+
+            completed++;
+            const confidence = typeof output.confidence === 'number' ? ` (confidence ${output.confidence}%)` : '';
+            console.error(`[${completed}/${files.length}] ${output.success ? '✓' : '✗'} ${file.relativePath}${confidence}`);
+
+            return {
+                success: output.success === true,
+                confidence: typeof output.confidence === 'number' ? output.confidence : undefined,
+                usage,
+            };
+        };
+
+        let outcomes: BatchOutcome[];
+        try {
+            outcomes = await mapWithConcurrency(files, concurrency, processFile);
+        } finally {
+            await jsonlFile?.close();
+        }
+
+        // Print summary
+        const succeeded = outcomes.filter(o => o.success);
+        const confidences = succeeded
+            .map(o => o.confidence)
+            .filter((c): c is number => c !== undefined);
+        const averageConfidence = confidences.length > 0
+            ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+            : undefined;
+        const usage = outcomes
+            .map(o => o.usage)
+            .filter((u): u is ExtractionUsage => u !== undefined)
+            .reduce(addUsage, createUsage());
+
+        console.error([
+            '',
+            `Batch complete: ${files.length} file${files.length === 1 ? '' : 's'} in ${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+            `  Succeeded: ${succeeded.length}`,
+            `  Failed: ${files.length - succeeded.length}`,
+            `  Average confidence: ${averageConfidence !== undefined ? averageConfidence.toFixed(1) + '%' : 'n/a'}`,
+            ...formatUsageSummary(usage, pricing !== undefined),
+        ].join('\n'));
+
+        process.exit(succeeded.length === files.length ? 0 : 1);
+    } catch (error) {
+        if (args.debug && error instanceof Error) {
+            console.error('[DEBUG] Stack trace:', error.stack);
+        }
 
-        console.error(JSON.stringify(errorOutput, null, 2));
+        console.error(JSON.stringify(buildErrorOutput(error), null, 2));
         process.exit(1);
     }
 }
@@ -282,7 +864,7 @@ async function main(): Promise<void> {
     const args = parseArgs(process.argv);
 
     if (!args.command) {
-        console.error('Error: No command specified. Use "ordis extract" or "ordis --help"');
+        console.error('Error: No command specified. Use "ordis extract", "ordis batch" or "ordis --help"');
         process.exit(1);
     }
 
@@ -297,6 +879,8 @@ async function main(): Promise<void> {
         }
 
         await runExtraction(args);
+    } else if (args.command === 'batch') {
+        await runBatch(args);
     } else {
         console.error(`Error: Unknown command "${args.command}". Use "ordis --help" for usage.`);
         process.exit(1);
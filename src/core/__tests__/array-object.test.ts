@@ -59,19 +59,51 @@ describe('Array and Object Type Support', () => {
             expect(() => validateSchema(schema)).toThrow(/must have an 'items' property/);
         });
 
-        it('should reject array with non-object items', () => {
+        it('should validate arrays of primitives and nested arrays', () => {
             const schema = {
                 fields: {
-                    items: {
+                    tags: {
                         type: 'array',
-                        items: {
-                            type: 'string',
-                        },
+                        items: { type: 'string', enum: ['urgent', 'billing'] },
+                    },
+                    scores: {
+                        type: 'array',
+                        items: { type: 'number', min: 0, max: 10 },
+                    },
+                    matrix: {
+                        type: 'array',
+                        items: { type: 'array', items: { type: 'integer' } },
+                    },
+                },
+            };
+
+            expect(() => validateSchema(schema)).not.toThrow();
+        });
+
+        it('should validate item definitions like fields', () => {
+            const schema = {
+                fields: {
+                    scores: {
+                        type: 'array',
+                        items: { type: 'number', min: 10, max: 1 },
+                    },
+                },
+            };
+
+            expect(() => validateSchema(schema)).toThrow(/'scores.items' min value \(10\) cannot be greater than max value/);
+        });
+
+        it('should reject array items without a type', () => {
+            const schema = {
+                fields: {
+                    matrix: {
+                        type: 'array',
+                        items: { type: 'array', items: { enum: ['a'] } },
                     },
                 },
             };
 
-            expect(() => validateSchema(schema)).toThrow(/items type must be 'object'/);
+            expect(() => validateSchema(schema)).toThrow(/'matrix.items.items' is missing required 'type'/);
         });
 
         it('should reject object without properties', () => {
@@ -338,6 +370,88 @@ describe('Array and Object Type Support', () => {
         });
     });
 
+    describe('Primitive and Nested Array Items', () => {
+        const schema: Schema = {
+            fields: {
+                tags: {
+                    type: 'array',
+                    items: { type: 'string', enum: ['urgent', 'billing'] },
+                },
+                scores: {
+                    type: 'array',
+                    items: { type: 'number', min: 0, max: 10 },
+                    optional: true,
+                },
+                matrix: {
+                    type: 'array',
+                    items: { type: 'array', items: { type: 'integer' } },
+                    optional: true,
+                },
+            },
+        };
+
+        it('should accept valid primitive items', () => {
+            const result = validateExtractedData({
+                tags: ['urgent', 'billing'],
+                scores: [0, 7.5, 10],
+                matrix: [[1, 2], [3]],
+            }, schema);
+
+            expect(result.valid).toBe(true);
+        });
+
+        it('should check item constraints with indexed paths', () => {
+            const result = validateExtractedData({
+                tags: ['urgent', 'spam'],
+                scores: [3, 12],
+                matrix: [[1, 'x']],
+            }, schema);
+
+            expect(result.valid).toBe(false);
+            expect(result.errors.map(error => [error.field, error.code])).toEqual([
+                ['tags[1]', 'FIELD_INVALID'],
+                ['scores[1]', 'FIELD_INVALID'],
+                ['matrix[0][1]', 'TYPE_MISMATCH'],
+            ]);
+        });
+
+        it('should coerce primitive items', () => {
+            const result = validateExtractedData({
+                tags: ['URGENT'],
+                scores: ['7.5'],
+                matrix: [['1', 2]],
+            }, schema);
+
+            expect(result.valid).toBe(true);
+            expect(result.coercedData).toEqual({ tags: ['urgent'], scores: [7.5], matrix: [[1, 2]] });
+            expect(result.warnings?.map(warning => warning.field)).toEqual(['tags[0]', 'scores[0]', 'matrix[0][0]']);
+        });
+
+        it('should only accept null items when the items are optional', () => {
+            const required = validateExtractedData({ tags: ['urgent', null] }, schema);
+            expect(required.errors[0]).toMatchObject({ field: 'tags[1]', code: 'TYPE_MISMATCH' });
+
+            const optional = validateExtractedData({
+                tags: [],
+                scores: [1, null],
+            }, {
+                fields: {
+                    tags: schema.fields.tags,
+                    scores: { type: 'array', items: { type: 'number', optional: true } },
+                },
+            });
+            expect(optional.valid).toBe(true);
+        });
+
+        it('should describe primitive and nested items in the prompt', () => {
+            const prompt = buildSystemPrompt(schema);
+
+            expect(prompt).toContain('items (string) - allowed values: urgent, billing');
+            expect(prompt).toContain('items (number) - range: 0 to 10');
+            expect(prompt).toContain('items (array):\n    items (integer)');
+        });
+    });
+
     describe('Prompt Generation', () => {
         it('should generate prompt for array of objects', () => {
             const schema: Schema = {
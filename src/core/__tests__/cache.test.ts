@@ -0,0 +1,132 @@
+/**
+ * Tests for result caching
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { computeCacheKey, isExpired, getDefaultCacheDir, FileCacheStore } from '../cache.js';
+import type { CacheKeyParts } from '../cache.js';
+import type { CacheEntry } from '../types.js';
+
+const parts: CacheKeyParts = {
+    input: 'Invoice INV-42',
+    schema: { fields: { id: { type: 'string' }, amount: { type: 'number' } } },
+    prompt: 'Extract the fields',
+    llmConfig: { baseURL: 'http://localhost:11434/v1', model: 'llama3', temperature: 0 },
+};
+
+const entry: CacheEntry = {
+    extraction: { data: { id: 'INV-42' }, confidence: 90, confidenceByField: { id: 90 } },
+    createdAt: 1000,
+};
+
+describe('computeCacheKey', () => {
+    it('should ignore key order in schemas and configs', () => {
+        const reordered: CacheKeyParts = {
+            ...parts,
+            schema: { fields: { amount: { type: 'number' }, id: { type: 'string' } } },
+            llmConfig: { temperature: 0, model: 'llama3', baseURL: 'http://localhost:11434/v1' },
+        };
+
+        expect(computeCacheKey(reordered)).toBe(computeCacheKey(parts));
+        expect(computeCacheKey(parts)).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should change with anything that affects the model output', () => {
+        const key = computeCacheKey(parts);
+
+        expect(computeCacheKey({ ...parts, input: 'Invoice INV-43' })).not.toBe(key);
+        expect(computeCacheKey({ ...parts, prompt: 'Extract carefully' })).not.toBe(key);
+        expect(computeCacheKey({ ...parts, llmConfig: { ...parts.llmConfig, model: 'qwen2.5' } })).not.toBe(key);
+        expect(computeCacheKey({ ...parts, llmConfig: { ...parts.llmConfig, temperature: 0.7 } })).not.toBe(key);
+        expect(computeCacheKey({ ...parts, llmConfig: { ...parts.llmConfig, extractionMode: 'tool' } })).not.toBe(key);
+        expect(computeCacheKey({ ...parts, options: { grounding: true } })).not.toBe(key);
+        expect(computeCacheKey({ ...parts, llmConfig: { ...parts.llmConfig, mock: { confidence: 50 } } })).not.toBe(key);
+        expect(computeCacheKey({
+            ...parts,
+            llmConfig: { ...parts.llmConfig, tokenizer: { vocabulary: 'cl100k', path: 'cl100k_base.tiktoken' } },
+        })).not.toBe(key);
+    });
+
+    it('should ignore credentials, timeouts and retries', () => {
+        const key = computeCacheKey(parts);
+
+        expect(computeCacheKey({
+            ...parts,
+            llmConfig: {
+                ...parts.llmConfig,
+                apiKey: 'secret',
+                timeout: 5000,
+                retries: { maxRetries: 1, initialDelay: 0, maxDelay: 0, backoffFactor: 1 },
+                debug: true,
+            },
+        })).toBe(key);
+    });
+});
+
+describe('isExpired', () => {
+    it('should compare entry age with the TTL', () => {
+        expect(isExpired(entry, undefined, 1_000_000)).toBe(false);
+        expect(isExpired(entry, 500, 1400)).toBe(false);
+        expect(isExpired(entry, 500, 1600)).toBe(true);
+    });
+});
+
+describe('getDefaultCacheDir', () => {
+    const original = process.env.XDG_CACHE_HOME;
+
+    afterEach(() => {
+        if (original === undefined) {
+            delete process.env.XDG_CACHE_HOME;
+        } else {
+            process.env.XDG_CACHE_HOME = original;
+        }
+    });
+
+    it('should use XDG_CACHE_HOME, then ~/.cache', () => {
+        process.env.XDG_CACHE_HOME = '/tmp/xdg';
+        expect(getDefaultCacheDir()).toBe(path.join('/tmp/xdg', 'ordis'));
+
+        delete process.env.XDG_CACHE_HOME;
+        expect(getDefaultCacheDir()).toBe(path.join(os.homedir(), '.cache', 'ordis'));
+    });
+});
+
+describe('FileCacheStore', () => {
+    const key = 'ab'.repeat(32);
+    let dir: string;
+    let store: FileCacheStore;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-cache-'));
+        store = new FileCacheStore(dir);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should store, read and delete entries', async () => {
+        expect(await store.get(key)).toBeUndefined();
+
+        await store.set(key, entry);
+        expect(await store.get(key)).toEqual(entry);
+        expect(await fs.readdir(path.join(dir, 'ab'))).toEqual([`${key}.json`]);
+
+        await store.delete(key);
+        expect(await store.get(key)).toBeUndefined();
+    });
+
+    it('should treat unreadable entries as misses', async () => {
+        await fs.mkdir(path.join(dir, 'ab'), { recursive: true });
+        await fs.writeFile(path.join(dir, 'ab', `${key}.json`), '{"extraction": {"da');
+
+        expect(await store.get(key)).toBeUndefined();
+    });
+
+    it('should reject keys that are not hex digests', async () => {
+        await expect(store.get('../escape')).rejects.toThrow('Invalid cache key');
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for input chunking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitIntoChunks } from '../chunker.js';
+import { estimateTokens } from '../../llm/token-counter.js';
+
+describe('splitIntoChunks', () => {
+    it('should return a single chunk when the input fits', () => {
+        const text = 'Short input text';
+        const chunks = splitIntoChunks(text, { maxTokens: 100 });
+
+        expect(chunks).toHaveLength(1);
+        expect(chunks[0]).toEqual({ text, start: 0, end: text.length });
+    });
+
+    it('should split on paragraph boundaries', () => {
+        const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} `.repeat(10).trim());
+        const text = paragraphs.join('\n\n');
+
+        const chunks = splitIntoChunks(text, { maxTokens: 80 });
+
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(80);
+            expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+        }
+        // Every paragraph appears whole in some chunk
+        for (const paragraph of paragraphs) {
+            expect(chunks.some(c => c.text.includes(paragraph))).toBe(true);
+        }
+    });
+
+    it('should cover the whole input without gaps', () => {
+        const text = Array.from({ length: 50 }, (_, i) => `Line ${i}: some content here.`).join('\n');
+
+        const chunks = splitIntoChunks(text, { maxTokens: 40, overlapTokens: 10 });
+
+        expect(chunks[0].start).toBe(0);
+        expect(chunks[chunks.length - 1].end).toBe(text.length);
+        for (let i = 1; i < chunks.length; i++) {
+            expect(chunks[i].start).toBeLessThanOrEqual(chunks[i - 1].end);
+            expect(chunks[i].start).toBeGreaterThan(chunks[i - 1].start);
+        }
+    });
+
+    it('should overlap consecutive chunks', () => {
+        const text = Array.from({ length: 40 }, (_, i) => `Sentence number ${i}.`).join('\n');
+
+        const chunks = splitIntoChunks(text, { maxTokens: 50, overlapTokens: 15 });
+
+        expect(chunks.length).toBeGreaterThan(1);
+        for (let i = 1; i < chunks.length; i++) {
+            expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+        }
+    });
+
+    it('should hard-split text without natural boundaries', () => {
+        const text = 'x'.repeat(1000);
+
+        const chunks = splitIntoChunks(text, { maxTokens: 50 });
+
+        expect(chunks.length).toBeGreaterThanOrEqual(5);
+        expect(chunks.map(c => c.text).join('')).toBe(text);
+        for (const chunk of chunks) {
+            expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(50);
+        }
+    });
+
+    it('should use a custom token counter', () => {
+        const countWords = (s: string) => s.split(/\s+/).filter(Boolean).length;
+        const text = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+
+        const chunks = splitIntoChunks(text, { maxTokens: 10, countTokens: countWords });
+
+        for (const chunk of chunks) {
+            expect(countWords(chunk.text)).toBeLessThanOrEqual(10);
+        }
+        expect(chunks.length).toBeGreaterThanOrEqual(3);
+    });
+});
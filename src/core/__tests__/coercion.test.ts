@@ -626,7 +626,7 @@ describe('Type Coercion', () => {
 
                 const result = coerceExtractedData(data, fields);
 
-                expect(result.data.timestamp).toBe('2024-01-15');
+                expect(result.data.timestamp).toBe('2024-01-15T00:00:00Z');
                 expect(result.warnings).toHaveLength(1);
             });
 
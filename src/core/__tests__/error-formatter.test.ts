@@ -103,6 +103,19 @@ describe('error-formatter', () => {
             expect(formatted).toContain('pending');
         });
 
+        it('formats length and item count errors with suggestions', () => {
+            const formatted = formatValidationError({
+                field: 'line_items',
+                message: "Field 'line_items' must have at least 1 item, got 0",
+                code: PipelineErrorCodes.TOO_FEW_ITEMS,
+                expected: 1,
+                actual: 0,
+            });
+
+            expect(formatted).toContain('must have at least 1 item, got 0');
+            expect(formatted).toContain('minItems/maxItems/uniqueItems');
+        });
+
         it('formats error without field name', () => {
             const error: ValidationError = {
                 message: 'Overall validation failed',
@@ -0,0 +1,61 @@
+/**
+ * Tests for source grounding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { locateQuote, resolveEvidence } from '../grounding.js';
+import type { Schema } from '../../schemas/types.js';
+
+describe('locateQuote', () => {
+    const input = 'Invoice  #INV-42\nIssued to “ACME Corp” — due 2024-12-15.';
+
+    it('should find exact quotes', () => {
+        expect(locateQuote(input, 'INV-42')).toEqual({ start: 10, end: 16 });
+        expect(locateQuote(input, '  INV-42 ')).toEqual({ start: 10, end: 16 });
+    });
+
+    it('should ignore case, whitespace and typographic differences', () => {
+        const location = locateQuote(input, 'invoice #inv-42 issued to "acme corp" - due');
+        expect(location).not.toBeNull();
+        expect(input.slice(location!.start, location!.end)).toBe('Invoice  #INV-42\nIssued to “ACME Corp” — due');
+    });
+
+    it('should return null for quotes not in the input', () => {
+        expect(locateQuote(input, 'INV-43')).toBeNull();
+        expect(locateQuote(input, '   ')).toBeNull();
+    });
+});
+
+describe('resolveEvidence', () => {
+    const schema: Schema = {
+        fields: {
+            invoice_id: { type: 'string' },
+            customer: { type: 'string' },
+            total: { type: 'number', optional: true },
+            notes: { type: 'string', optional: true },
+        },
+    };
+    const input = 'Invoice INV-42 for ACME Corp';
+
+    it('should resolve quotes and flag the ones that are missing or not found', () => {
+        const evidence = resolveEvidence(
+            input,
+            schema,
+            { invoice_id: 'INV-42', customer: 'ACME Corp', total: 100, notes: null },
+            { invoice_id: 'Invoice INV-42', customer: 'Globex', notes: null }
+        );
+
+        expect(evidence).toEqual({
+            invoice_id: { quote: 'Invoice INV-42', start: 0, end: 14, found: true },
+            customer: { quote: 'Globex', start: null, end: null, found: false },
+            total: { quote: null, start: null, end: null, found: false },
+        });
+    });
+
+    it('should report found: false for every value when the model gave no evidence', () => {
+        const evidence = resolveEvidence(input, schema, { invoice_id: 'INV-42', customer: null });
+
+        expect(Object.keys(evidence)).toEqual(['invoice_id']);
+        expect(evidence.invoice_id.found).toBe(false);
+    });
+});
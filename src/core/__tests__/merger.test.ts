@@ -0,0 +1,135 @@
+/**
+ * Tests for chunk result merging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeChunkResults } from '../merger.js';
+import type { Schema } from '../../schemas/types.js';
+
+describe('mergeChunkResults', () => {
+    const schema: Schema = {
+        fields: {
+            name: { type: 'string' },
+            total: { type: 'number', optional: true },
+            items: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        sku: { type: 'string' },
+                    },
+                },
+            },
+        },
+    };
+
+    it('should return a single result unchanged', () => {
+        const result = {
+            data: { name: 'A', total: 1, items: [] },
+            confidence: 90,
+            confidenceByField: { name: 90, total: 90, items: 90 },
+        };
+
+        expect(mergeChunkResults([result], schema)).toBe(result);
+    });
+
+    it('should pick the highest-confidence scalar value', () => {
+        const merged = mergeChunkResults([
+            { data: { name: 'Acme', total: null, items: [] }, confidence: 60, confidenceByField: { name: 60, total: 0, items: 50 } },
+            { data: { name: 'Acme Corp', total: 120, items: [] }, confidence: 90, confidenceByField: { name: 95, total: 88, items: 50 } },
+        ], schema);
+
+        expect(merged.data.name).toBe('Acme Corp');
+        expect(merged.confidenceByField.name).toBe(95);
+        expect(merged.data.total).toBe(120);
+        expect(merged.confidenceByField.total).toBe(88);
+    });
+
+    it('should prefer non-null values over higher-confidence nulls', () => {
+        const merged = mergeChunkResults([
+            { data: { name: null, items: [] }, confidence: 99, confidenceByField: { name: 99 } },
+            { data: { name: 'Found', items: [] }, confidence: 40, confidenceByField: { name: 40 } },
+        ], schema);
+
+        expect(merged.data.name).toBe('Found');
+    });
+
+    it('should keep the earliest value on confidence ties', () => {
+        const merged = mergeChunkResults([
+            { data: { name: 'First', items: [] }, confidence: 80, confidenceByField: { name: 80 } },
+            { data: { name: 'Second', items: [] }, confidence: 80, confidenceByField: { name: 80 } },
+        ], schema);
+
+        expect(merged.data.name).toBe('First');
+    });
+
+    it('should concatenate and deduplicate arrays', () => {
+        const merged = mergeChunkResults([
+            { data: { name: 'A', items: [{ sku: '1' }, { sku: '2' }] }, confidence: 80, confidenceByField: { items: 70 } },
+            { data: { name: 'A', items: [{ sku: '2' }, { sku: '3' }] }, confidence: 80, confidenceByField: { items: 85 } },
+        ], schema);
+
+        expect(merged.data.items).toEqual([{ sku: '1' }, { sku: '2' }, { sku: '3' }]);
+        expect(merged.confidenceByField.items).toBe(85);
+    });
+
+    it('should concatenate oneOf/anyOf fields whose values are arrays', () => {
+        const unionSchema: Schema = {
+            fields: {
+                emails: { oneOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string' }] },
+                contact: { anyOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string' }] },
+            },
+        };
+
+        const merged = mergeChunkResults([
+            { data: { emails: ['a@x.io'], contact: ['Ada'] }, confidence: 80, confidenceByField: { emails: 70, contact: 90 } },
+            { data: { emails: ['b@x.io', 'a@x.io'], contact: 'Grace' }, confidence: 80, confidenceByField: { emails: 85, contact: 60 } },
+        ], unionSchema);
+
+        expect(merged.data.emails).toEqual(['a@x.io', 'b@x.io']);
+        expect(merged.confidenceByField.emails).toBe(85);
+        // Mixed array and string values: the highest-confidence value wins
+        expect(merged.data.contact).toEqual(['Ada']);
+    });
+
+    it('should treat objects with reordered keys as duplicates', () => {
+        const merged = mergeChunkResults([
+            { data: { items: [{ sku: '1', qty: 2 }] }, confidence: 80, confidenceByField: {} },
+            { data: { items: [{ qty: 2, sku: '1' }] }, confidence: 80, confidenceByField: {} },
+        ], schema);
+
+        expect(merged.data.items).toHaveLength(1);
+    });
+
+    it('should compute overall confidence from merged fields', () => {
+        const merged = mergeChunkResults([
+            { data: { name: 'A', total: 10, items: [{ sku: '1' }] }, confidence: 50, confidenceByField: { name: 90, total: 60, items: 60 } },
+            { data: { name: null, total: null, items: [] }, confidence: 10, confidenceByField: { name: 0, total: 0, items: 0 } },
+        ], schema);
+
+        expect(merged.confidence).toBe(70);
+    });
+
+    it('should keep the evidence of the chunk each value came from', () => {
+        const merged = mergeChunkResults([
+            {
+                data: { name: 'A', total: null, items: [{ sku: '1' }] },
+                confidence: 50,
+                confidenceByField: { name: 60, total: 0, items: 70 },
+                evidence: { name: 'name A', total: null, items: 'sku 1' },
+            },
+            {
+                data: { name: 'B', total: 5, items: [{ sku: '2' }] },
+                confidence: 80,
+                confidenceByField: { name: 90, total: 80, items: 60 },
+                evidence: { name: 'name B', total: 'total 5', items: 'sku 2' },
+            },
+        ], schema);
+
+        expect(merged.evidence).toEqual({ name: 'name B', total: 'total 5', items: 'sku 1' });
+        expect(mergeChunkResults([
+            { data: { name: 'A' }, confidence: 50, confidenceByField: { name: 50 } },
+            { data: { name: 'B' }, confidence: 60, confidenceByField: { name: 60 } },
+        ], schema)).not.toHaveProperty('evidence');
+    });
+});
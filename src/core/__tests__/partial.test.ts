@@ -0,0 +1,41 @@
+/**
+ * Tests for partial extraction snapshots
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { getCompletedFields, createPartialTracker } from '../partial.js';
+
+describe('getCompletedFields', () => {
+    it('should return fields that can no longer change', () => {
+        expect(getCompletedFields('{"data": {"name": "Ada", "city": "Lon')).toEqual({ name: 'Ada' });
+        expect(getCompletedFields('{"data": {"name": "Ada", "tags": ["a"]')).toEqual({ name: 'Ada', tags: ['a'] });
+        expect(getCompletedFields('{"data": {"name": "Ada"}, "confidence": 9')).toEqual({ name: 'Ada' });
+    });
+
+    it('should leave out nested objects that are still open', () => {
+        expect(getCompletedFields('{"data": {"a": 1, "address": {"city": "Berlin"')).toEqual({ a: 1 });
+    });
+
+    it('should return undefined before data starts', () => {
+        expect(getCompletedFields('')).toBeUndefined();
+        expect(getCompletedFields('{"confidence": 90, "da')).toBeUndefined();
+    });
+});
+
+describe('createPartialTracker', () => {
+    it('should report each field once, when it completes', () => {
+        const onPartial = vi.fn();
+        const track = createPartialTracker('llm_extract', onPartial);
+
+        track('{"data": {"name": "A');
+        track('{"data": {"name": "Ada", ');
+        track('{"data": {"name": "Ada", "age": 3');
+        track('{"data": {"name": "Ada", "age": 36}');
+        track('{"data": {"name": "Ada", "age": 36}, "confidence": 90}');
+
+        expect(onPartial.mock.calls).toEqual([
+            [{ step: 'llm_extract', data: { name: 'Ada' }, fields: ['name'] }],
+            [{ step: 'llm_extract', data: { name: 'Ada', age: 36 }, fields: ['age'] }],
+        ]);
+    });
+});
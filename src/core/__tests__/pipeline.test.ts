@@ -2,8 +2,10 @@
  * Tests for extraction pipeline
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { ExtractionPipeline, extract } from '../pipeline.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExtractionPipeline, extract, extractStream } from '../pipeline.js';
+import { MemoryCacheStore } from '../cache.js';
+import type { PartialExtraction } from '../types.js';
 import type { Schema } from '../../schemas/types.js';
 import type { LLMConfig } from '../../llm/types.js';
 
@@ -376,6 +378,111 @@ describe('Extraction Pipeline', () => {
         });
     });
 
+    describe('usage', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+            },
+            confidence: { threshold: 80, failOnLowConfidence: true },
+        };
+
+        const mockResponse = (confidence: number, usage?: { prompt_tokens: number; completion_tokens: number }) => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({ data: { name: 'Ada' }, confidence, confidenceByField: { name: confidence } }),
+                        },
+                    }],
+                    ...(usage && { usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens } }),
+                }),
+            });
+        };
+
+        it('should report estimated and actual tokens with the cost from the price table', async () => {
+            mockResponse(90, { prompt_tokens: 1000, completion_tokens: 200 });
+
+            const result = await extract({
+                input: 'Ada Lovelace',
+                schema,
+                llmConfig: { baseURL: 'https://api.openai.com/v1', model: 'gpt-4o' },
+                pricing: { 'gpt-4o': { input: 2.5, output: 10 } },
+                cache: false,
+            });
+
+            expect(result.metadata.usage).toMatchObject({
+                requests: 1,
+                retries: 0,
+                promptTokens: 1000,
+                completionTokens: 200,
+                unreportedRequests: 0,
+            });
+            expect(result.metadata.usage?.estimatedPromptTokens).toBeGreaterThan(0);
+            expect(result.metadata.usage?.cost).toBeCloseTo(0.0045);
+        });
+
+        it('should leave out the cost when the model has no price', async () => {
+            mockResponse(90);
+
+            const result = await extract({
+                input: 'Ada Lovelace',
+                schema,
+                llmConfig: { baseURL: 'http://localhost:11434/v1', model: 'llama3' },
+                pricing: { 'gpt-4o': { input: 2.5, output: 10 } },
+                cache: false,
+            });
+
+            expect(result.metadata.usage).toMatchObject({ requests: 1, promptTokens: 0, unreportedRequests: 1 });
+            expect(result.metadata.usage?.cost).toBeUndefined();
+        });
+
+        it('should leave out the cost when a request reported no usage', async () => {
+            mockResponse(50);
+            mockResponse(95, { prompt_tokens: 300, completion_tokens: 20 });
+
+            const result = await extract({
+                input: 'Ada Lovelace',
+                schema,
+                llmConfig: [
+                    { baseURL: 'http://localhost:11434/v1', model: 'llama3' },
+                    { baseURL: 'https://api.openai.com/v1', model: 'gpt-4o' },
+                ],
+                pricing: {
+                    llama3: { input: 0, output: 0 },
+                    'gpt-4o': { input: 2.5, output: 10 },
+                },
+                cache: false,
+            });
+
+            expect(result.metadata.usage).toMatchObject({ requests: 2, promptTokens: 300, unreportedRequests: 1 });
+            expect(result.metadata.usage?.cost).toBeUndefined();
+        });
+
+        it('should add up usage across fallback models', async () => {
+            mockResponse(50, { prompt_tokens: 100, completion_tokens: 10 });
+            mockResponse(95, { prompt_tokens: 300, completion_tokens: 20 });
+
+            const result = await extract({
+                input: 'Ada Lovelace',
+                schema,
+                llmConfig: [
+                    { baseURL: 'http://localhost:11434/v1', model: 'llama3' },
+                    { baseURL: 'https://api.openai.com/v1', model: 'gpt-4o' },
+                ],
+                pricing: {
+                    llama3: { input: 0, output: 0 },
+                    'gpt-4o': { input: 2.5, output: 10 },
+                },
+                cache: false,
+            });
+
+            expect(result.metadata.model).toBe('gpt-4o');
+            expect(result.metadata.usage).toMatchObject({ requests: 2, promptTokens: 400, completionTokens: 30 });
+            expect(result.metadata.usage?.cost).toBeCloseTo(0.00095);
+        });
+    });
+
     describe('maxContextTokens parameter', () => {
         it('should accept maxContextTokens as top-level parameter', async () => {
             // Mock successful LLM response
@@ -494,4 +601,751 @@ describe('Extraction Pipeline', () => {
             expect(result.success).toBe(true);
         });
     });
+
+    describe('chunking', () => {
+        afterEach(() => {
+            mockFetch.mockReset();
+        });
+
+        const schema: Schema = {
+            fields: {
+                company: { type: 'string' },
+                parties: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string' },
+                        },
+                    },
+                },
+            },
+        };
+
+        const mockChunkResponse = (data: Record<string, unknown>, confidence: number) => ({
+            ok: true,
+            json: async () => ({
+                choices: [{
+                    message: {
+                        content: JSON.stringify({
+                            data,
+                            confidence,
+                            confidenceByField: { company: confidence, parties: confidence },
+                        }),
+                    },
+                }],
+            }),
+        });
+
+        it('should split oversized input and merge chunk results', async () => {
+            mockFetch.mockResolvedValueOnce(mockChunkResponse({ company: 'Acme', parties: [{ name: 'Alice' }] }, 70));
+            mockFetch.mockResolvedValueOnce(mockChunkResponse({ company: 'Acme Corp', parties: [{ name: 'Alice' }, { name: 'Bob' }] }, 90));
+            mockFetch.mockResolvedValue(mockChunkResponse({ company: null, parties: [] }, 10));
+
+            const input = Array.from({ length: 40 }, (_, i) => `Clause ${i}: ${'lorem ipsum '.repeat(10)}`).join('\n\n');
+
+            const result = await extract({
+                input,
+                schema,
+                llmConfig: { baseURL: 'http://localhost:11434/v1', model: 'llama3' },
+                chunking: { maxChunkTokens: 400, overlapTokens: 50 },
+                debug: true,
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.data?.company).toBe('Acme Corp');
+            expect(result.data?.parties).toEqual([{ name: 'Alice' }, { name: 'Bob' }]);
+            expect(result.metadata.chunks).toBeGreaterThan(1);
+            expect(mockFetch).toHaveBeenCalledTimes(result.metadata.chunks!);
+            expect(result.steps?.map(s => s.step)).toContain('merge_chunks');
+        });
+
+        it('should run a single pass when input fits', async () => {
+            mockFetch.mockResolvedValueOnce(mockChunkResponse({ company: 'Acme', parties: [] }, 90));
+
+            const result = await extract({
+                input: 'Acme Corp agreement',
+                schema,
+                llmConfig: { baseURL: 'http://localhost:11434/v1', model: 'llama3' },
+                chunking: true,
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata.chunks).toBeUndefined();
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should chunk inputs that exceed the model context', async () => {
+            mockFetch.mockResolvedValue(mockChunkResponse({ company: 'Acme', parties: [] }, 90));
+
+            const input = Array.from({ length: 200 }, (_, i) => `Paragraph ${i}. ${'text '.repeat(20)}`).join('\n\n');
+
+            const result = await extract({
+                input,
+                schema,
+                llmConfig: { baseURL: 'http://localhost:11434/v1', model: 'llama3', maxContextTokens: 4096 },
+                chunking: true,
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata.chunks).toBeGreaterThan(1);
+        });
+
+        it('should size default chunks below the budget warning threshold', async () => {
+            mockFetch.mockResolvedValue(mockChunkResponse({ company: 'Acme', parties: [] }, 90));
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            const input = Array.from({ length: 200 }, (_, i) => `Paragraph ${i}. ${'text '.repeat(20)}`).join('\n\n');
+
+            try {
+                const result = await extract({
+                    input,
+                    schema,
+                    llmConfig: { baseURL: 'http://localhost:11434/v1', model: 'llama3', maxContextTokens: 4096 },
+                    chunking: true,
+                    voting: { samples: 2 },
+                });
+
+                expect(result.metadata.chunks).toBeGreaterThan(1);
+                expect(warn).not.toHaveBeenCalled();
+            } finally {
+                warn.mockRestore();
+            }
+        });
+
+        it('should report which chunk failed', async () => {
+            mockFetch.mockResolvedValueOnce(mockChunkResponse({ company: 'Acme', parties: [] }, 90));
+            mockFetch.mockResolvedValue({
+                ok: true,
+                json: async () => ({ choices: [{ message: { content: 'not json' } }] }),
+            });
+
+            const input = Array.from({ length: 40 }, (_, i) => `Clause ${i}: ${'lorem ipsum '.repeat(10)}`).join('\n\n');
+
+            const result = await extract({
+                input,
+                schema,
+                llmConfig: { baseURL: 'http://localhost:11434/v1', model: 'llama3' },
+                chunking: { maxChunkTokens: 400 },
+            });
+
+            expect(result.success).toBe(false);
+            expect(result.errors[0].message).toContain('chunk 2 of');
+            expect(result.errors[0].details?.chunk).toBe(2);
+        });
+    });
+
+    describe('truncation', () => {
+        afterEach(() => {
+            mockFetch.mockReset();
+        });
+
+        const schema: Schema = {
+            fields: {
+                invoice_id: { type: 'string', description: 'Invoice number' },
+            },
+        };
+
+        const mockInvoiceResponse = () => ({
+            ok: true,
+            json: async () => ({
+                choices: [{
+                    message: {
+                        content: JSON.stringify({
+                            data: { invoice_id: 'INV-42' },
+                            confidence: 90,
+                            confidenceByField: { invoice_id: 90 },
+                        }),
+                    },
+                }],
+            }),
+        });
+
+        const llmConfig: LLMConfig = {
+            baseURL: 'http://localhost:11434/v1',
+            model: 'llama3',
+            tokenBudget: { system: 1000, input: 300, output: 500 },
+        };
+
+        const input = [
+            ...Array.from({ length: 20 }, (_, i) => `Navigation link ${i}. ${'menu '.repeat(20)}`),
+            'Invoice number: INV-42',
+            ...Array.from({ length: 20 }, (_, i) => `Footer ${i}. ${'copyright '.repeat(10)}`),
+        ].join('\n\n');
+
+        it('should fail when the input exceeds its budget without truncation', async () => {
+            const result = await extract({ input, schema, llmConfig });
+
+            expect(result.success).toBe(false);
+            expect(result.errors[0].details?.error).toMatchObject({
+                code: 'TOKEN_LIMIT_EXCEEDED',
+                message: expect.stringContaining('over budget'),
+            });
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should keep relevant paragraphs and report what was dropped', async () => {
+            mockFetch.mockResolvedValueOnce(mockInvoiceResponse());
+
+            const result = await extract({ input, schema, llmConfig, truncation: 'relevant', debug: true });
+
+            expect(result.success).toBe(true);
+            const sent = JSON.parse(mockFetch.mock.calls[0][1].body).messages[1].content as string;
+            expect(sent).toContain('Invoice number: INV-42');
+            expect(sent.length).toBeLessThan(input.length);
+
+            const truncation = result.metadata.truncation!;
+            expect(truncation.strategy).toBe('relevant');
+            expect(truncation.keptTokens).toBeLessThanOrEqual(300);
+            expect(truncation.originalTokens).toBeGreaterThan(300);
+            expect(truncation.dropped.length).toBeGreaterThan(0);
+            expect(result.steps?.map(s => s.step)).toContain('truncate_input');
+        });
+
+        it('should leave inputs that fit untouched', async () => {
+            mockFetch.mockResolvedValueOnce(mockInvoiceResponse());
+
+            const result = await extract({ input: 'Invoice number: INV-42', schema, llmConfig, truncation: 'head' });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata.truncation).toBeUndefined();
+        });
+    });
+
+    describe('repair', () => {
+        afterEach(() => {
+            mockFetch.mockReset();
+        });
+
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+                status: { type: 'string', enum: ['active', 'inactive'] },
+            },
+        };
+
+        const llmConfig: LLMConfig = {
+            baseURL: 'http://localhost:11434/v1',
+            model: 'llama3',
+        };
+
+        const mockContent = (content: string) => ({
+            ok: true,
+            json: async () => ({ choices: [{ message: { content } }] }),
+        });
+
+        const envelope = (data: Record<string, unknown>) => JSON.stringify({
+            data,
+            confidence: 90,
+            confidenceByField: { name: 90, status: 90 },
+        });
+
+        it('should re-ask the model to fix validation errors', async () => {
+            mockFetch.mockResolvedValueOnce(mockContent(envelope({ name: 'Alice', status: 'pending' })));
+            mockFetch.mockResolvedValueOnce(mockContent(envelope({ name: 'Alice', status: 'active' })));
+
+            const result = await extract({ input: 'Alice is active', schema, llmConfig, repair: true });
+
+            expect(result.success).toBe(true);
+            expect(result.data).toEqual({ name: 'Alice', status: 'active' });
+            expect(result.metadata.repairAttempts).toBe(1);
+
+            const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+            expect(body.messages).toHaveLength(4);
+            expect(body.messages[2].role).toBe('assistant');
+            expect(body.messages[2].content).toContain('pending');
+            expect(body.messages[3].role).toBe('user');
+            expect(body.messages[3].content).toContain('status');
+        });
+
+        it('should re-ask the model to fix unparseable responses', async () => {
+            mockFetch.mockResolvedValueOnce(mockContent('Sure! The name is Alice.'));
+            mockFetch.mockResolvedValueOnce(mockContent(envelope({ name: 'Alice', status: 'active' })));
+
+            const result = await extract({ input: 'Alice is active', schema, llmConfig, repair: { maxAttempts: 1 } });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata.repairAttempts).toBe(1);
+
+            const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+            expect(body.messages[2].content).toContain('Sure! The name is Alice.');
+            expect(body.messages[3].content).toContain('Failed to parse LLM response');
+        });
+
+        it('should stop after maxAttempts', async () => {
+            mockFetch.mockResolvedValue(mockContent(envelope({ name: 'Alice', status: 'pending' })));
+
+            const result = await extract({ input: 'Alice', schema, llmConfig, repair: { maxAttempts: 2 }, debug: true });
+
+            expect(result.success).toBe(false);
+            expect(result.errors[0].field).toBe('status');
+            expect(result.metadata.repairAttempts).toBe(2);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            expect(result.steps?.map(s => s.step)).toContain('llm_extract:repair_2');
+        });
+
+        it('should share the attempt budget between parse and validation repairs', async () => {
+            mockFetch.mockResolvedValueOnce(mockContent('not json'));
+            mockFetch.mockResolvedValue(mockContent(envelope({ name: 'Alice', status: 'pending' })));
+
+            const result = await extract({ input: 'Alice', schema, llmConfig, repair: { maxAttempts: 2 } });
+
+            expect(result.success).toBe(false);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not repair when disabled', async () => {
+            mockFetch.mockResolvedValueOnce(mockContent(envelope({ name: 'Alice', status: 'pending' })));
+
+            const result = await extract({ input: 'Alice', schema, llmConfig });
+
+            expect(result.success).toBe(false);
+            expect(result.metadata.repairAttempts).toBeUndefined();
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('streaming', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+                age: { type: 'number' },
+            },
+        };
+        const content = JSON.stringify({
+            data: { name: 'Ada', age: '36' },
+            confidence: 90,
+            confidenceByField: { name: 95, age: 85 },
+        });
+
+        /**
+         * Mocks an OpenAI-compatible SSE response delivering the content in small pieces
+         */
+        function mockStream(): void {
+            const encoder = new TextEncoder();
+            const body = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    for (let i = 0; i < content.length; i += 5) {
+                        const delta = { content: content.slice(i, i + 5) };
+                        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`));
+                    }
+                    controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+                    controller.close();
+                },
+            });
+            mockFetch.mockResolvedValueOnce(new Response(body));
+        }
+
+        const llmConfig: LLMConfig = { baseURL: 'https://api.openai.com/v1', model: 'gpt-4o-mini' };
+
+        it('should report snapshots as top-level fields complete', async () => {
+            mockStream();
+            const partials: PartialExtraction[] = [];
+
+            const result = await extract({
+                input: 'Ada, 36',
+                schema,
+                llmConfig,
+                onPartial: partial => partials.push(partial),
+            });
+
+            expect(partials).toEqual([
+                { step: 'llm_extract', data: { name: 'Ada' }, fields: ['name'] },
+                { step: 'llm_extract', data: { name: 'Ada', age: '36' }, fields: ['age'] },
+            ]);
+            // Snapshots carry raw values; the result is coerced and validated
+            expect(result.success).toBe(true);
+            expect(result.data).toEqual({ name: 'Ada', age: 36 });
+        });
+
+        it('should yield partial events and the final result from extractStream', async () => {
+            mockStream();
+            const events = [];
+
+            for await (const event of extractStream({ input: 'Ada, 36', schema, llmConfig })) {
+                events.push(event);
+            }
+
+            expect(events.map(event => event.type)).toEqual(['partial', 'partial', 'result']);
+            const last = events[events.length - 1];
+            expect(last.type === 'result' && last.result.success).toBe(true);
+        });
+
+        it('should yield only the result when the request fails', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 401,
+                statusText: 'Unauthorized',
+                json: async () => ({ error: { message: 'Invalid API key' } }),
+            });
+
+            const events = [];
+            for await (const event of new ExtractionPipeline().extractStream({ input: 'x', schema, llmConfig })) {
+                events.push(event);
+            }
+
+            expect(events).toHaveLength(1);
+            expect(events[0].type === 'result' && events[0].result.success).toBe(false);
+        });
+
+        it('should throw from extractStream when extraction throws', async () => {
+            const pipeline = new ExtractionPipeline();
+            vi.spyOn(pipeline, 'extract').mockRejectedValueOnce(new Error('Cache store unavailable'));
+
+            const consume = async () => {
+                for await (const _event of pipeline.extractStream({ input: 'x', schema, llmConfig })) {
+                    // No events expected
+                }
+            };
+
+            await expect(consume()).rejects.toThrow('Cache store unavailable');
+        });
+    });
+
+    describe('grounding', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+                age: { type: 'number' },
+            },
+        };
+        const llmConfig: LLMConfig = { baseURL: 'http://localhost:11434/v1', model: 'llama3' };
+
+        it('should ask for evidence and resolve it against the preprocessed input', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({
+                                data: { name: 'Ada Lovelace', age: 36 },
+                                confidence: 90,
+                                confidenceByField: { name: 95, age: 85 },
+                                evidence: { name: 'Name: Ada Lovelace', age: 'aged 37' },
+                            }),
+                        },
+                    }],
+                }),
+            });
+
+            const result = await extract({
+                input: '<p>Name: Ada Lovelace, aged 36</p>',
+                schema,
+                llmConfig,
+                preprocessing: { stripHtml: true },
+                grounding: true,
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.evidence).toEqual({
+                name: { quote: 'Name: Ada Lovelace', start: 0, end: 18, found: true },
+                age: { quote: 'aged 37', start: null, end: null, found: false },
+            });
+
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(body.messages[0].content).toContain('"evidence"');
+        });
+
+        it('should not report evidence unless grounding is enabled', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({
+                                data: { name: 'Ada', age: 36 },
+                                confidence: 90,
+                                confidenceByField: { name: 95, age: 85 },
+                            }),
+                        },
+                    }],
+                }),
+            });
+
+            const result = await extract({ input: 'Ada, 36', schema, llmConfig });
+
+            expect(result.evidence).toBeUndefined();
+            expect(JSON.parse(mockFetch.mock.calls[0][1].body).messages[0].content).not.toContain('evidence');
+        });
+    });
+
+    describe('voting', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+                age: { type: 'number' },
+            },
+            confidence: { threshold: 80, failOnLowConfidence: true },
+        };
+        const llmConfig: LLMConfig = {
+            baseURL: 'http://localhost:11434/v1',
+            model: 'llama3',
+            retries: { maxRetries: 0, initialDelay: 0, maxDelay: 0, backoffFactor: 1 },
+        };
+
+        const mockSample = (data: Record<string, unknown>) => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({ data, confidence: 99, confidenceByField: { name: 99, age: 99 } }),
+                        },
+                    }],
+                }),
+            });
+        };
+
+        it('should run several samples and replace confidence with agreement', async () => {
+            mockSample({ name: 'Ada', age: 36 });
+            mockSample({ name: 'Ada', age: 35 });
+            mockSample({ name: 'Ada', age: 36 });
+
+            const result = await extract({
+                input: 'Ada, 36',
+                schema,
+                llmConfig,
+                voting: { samples: 3, temperature: 0.7 },
+            });
+
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            expect(JSON.parse(mockFetch.mock.calls[0][1].body).temperature).toBe(0.7);
+            expect(result.data).toEqual({ name: 'Ada', age: 36 });
+            expect(result.confidenceByField).toEqual({ name: 100, age: 67 });
+            expect(result.confidence).toBe(84);
+            expect(result.votes?.age.values).toEqual([{ value: 36, count: 2 }, { value: 35, count: 1 }]);
+            expect(result.metadata.samples).toBe(3);
+        });
+
+        it('should apply the confidence threshold to agreement', async () => {
+            mockSample({ name: 'Ada', age: 36 });
+            mockSample({ name: 'Ava', age: 35 });
+            mockSample({ name: 'Eve', age: 34 });
+
+            const result = await extract({ input: 'Ada, 36', schema, llmConfig, voting: true });
+
+            expect(result.success).toBe(false);
+            expect(result.confidence).toBe(33);
+            expect(result.errors[0].code).toBe('CONFIDENCE_ERROR');
+        });
+
+        it('should vote on the samples that succeeded', async () => {
+            mockSample({ name: 'Ada', age: 36 });
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 500,
+                statusText: 'Internal Server Error',
+                json: async () => ({ error: { message: 'boom' } }),
+            });
+            mockSample({ name: 'Ada', age: 36 });
+
+            const result = await extract({ input: 'Ada, 36', schema, llmConfig, voting: true });
+
+            expect(result.success).toBe(true);
+            expect(result.confidence).toBe(100);
+            expect(result.metadata.samples).toBe(2);
+        });
+    });
+
+    describe('fallback chain', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+                age: { type: 'number' },
+            },
+            confidence: { threshold: 80, failOnLowConfidence: true },
+        };
+        const retries = { maxRetries: 0, initialDelay: 0, maxDelay: 0, backoffFactor: 1 };
+        const chain: LLMConfig[] = [
+            { baseURL: 'http://localhost:11434/v1', model: 'llama3', retries },
+            { baseURL: 'https://api.openai.com/v1', model: 'gpt-4o', retries },
+        ];
+
+        const mockResponse = (data: Record<string, unknown>, confidence: number) => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({ data, confidence, confidenceByField: { name: confidence, age: confidence } }),
+                        },
+                    }],
+                }),
+            });
+        };
+
+        const mockServerError = () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 500,
+                statusText: 'Internal Server Error',
+                json: async () => ({ error: { message: 'boom' } }),
+            });
+        };
+
+        it('should escalate to the next model on LLM errors', async () => {
+            mockServerError();
+            mockResponse({ name: 'Ada', age: 36 }, 95);
+
+            const pipeline = new ExtractionPipeline(true);
+            const result = await pipeline.extract({ input: 'Ada, 36', schema, llmConfig: chain });
+
+            expect(result.success).toBe(true);
+            expect(mockFetch.mock.calls[1][0]).toBe('https://api.openai.com/v1/chat/completions');
+            expect(result.metadata.model).toBe('gpt-4o');
+            expect(result.metadata.attempts).toEqual([
+                { model: 'llama3', success: false, reason: 'llm_error' },
+                { model: 'gpt-4o', success: true },
+            ]);
+            expect(result.steps?.filter(step => step.step.startsWith('fallback:')).map(step => step.step))
+                .toEqual(['fallback:llama3', 'fallback:gpt-4o']);
+        });
+
+        it('should escalate on low confidence and validation failures', async () => {
+            mockResponse({ name: 'Ada', age: 36 }, 50);
+            mockResponse({ name: 'Ada', age: 36 }, 90);
+
+            const lowConfidence = await extract({ input: 'Ada, 36', schema, llmConfig: chain });
+
+            expect(lowConfidence.confidence).toBe(90);
+            expect(lowConfidence.metadata.attempts?.[0].reason).toBe('low_confidence');
+
+            mockResponse({ name: 'Ada', age: 'unknown' }, 95);
+            mockResponse({ name: 'Ada', age: 36 }, 95);
+
+            const invalid = await extract({ input: 'Ada, 36', schema, llmConfig: chain });
+
+            expect(invalid.success).toBe(true);
+            expect(invalid.metadata.attempts?.[0].reason).toBe('validation');
+        });
+
+        it('should return the last model result when every model fails', async () => {
+            mockServerError();
+            mockServerError();
+
+            const result = await extract({ input: 'Ada, 36', schema, llmConfig: chain });
+
+            expect(result.success).toBe(false);
+            expect(result.errors[0].code).toBe('LLM_ERROR');
+            expect(result.metadata.model).toBe('gpt-4o');
+            expect(result.metadata.attempts).toEqual([
+                { model: 'llama3', success: false, reason: 'llm_error' },
+                { model: 'gpt-4o', success: false, reason: 'llm_error' },
+            ]);
+        });
+
+        it('should not escalate on authentication errors', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 401,
+                statusText: 'Unauthorized',
+                json: async () => ({ error: { message: 'bad key' } }),
+            });
+
+            const result = await extract({ input: 'Ada, 36', schema, llmConfig: chain });
+
+            expect(result.success).toBe(false);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(result.metadata.attempts).toEqual([{ model: 'llama3', success: false }]);
+        });
+    });
+
+    describe('caching', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+                age: { type: 'number' },
+            },
+        };
+        const llmConfig: LLMConfig = { baseURL: 'http://localhost:11434/v1', model: 'llama3' };
+
+        const mockResponse = (data: Record<string, unknown>) => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({ data, confidence: 90, confidenceByField: { name: 90, age: 90 } }),
+                        },
+                    }],
+                }),
+            });
+        };
+
+        it('should reuse the extraction for an identical request', async () => {
+            const store = new MemoryCacheStore();
+            mockResponse({ name: 'Ada', age: '36' });
+
+            const first = await extract({ input: 'Ada, 36', schema, llmConfig, cache: { store } });
+            const second = await extract({ input: 'Ada, 36', schema, llmConfig, cache: { store }, debug: true });
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(first.metadata.cached).toBe(false);
+            expect(second.metadata.cached).toBe(true);
+            expect(first.metadata.usage?.requests).toBe(1);
+            expect(second.metadata.usage?.requests).toBe(0);
+            expect(second.data).toEqual({ name: 'Ada', age: 36 });
+            expect(second.warnings).toEqual(first.warnings);
+            expect(second.steps?.map(step => step.step)).toEqual(['cache_lookup', 'validate_data', 'check_confidence']);
+        });
+
+        it('should call the model again for a different input or model', async () => {
+            const store = new MemoryCacheStore();
+            mockResponse({ name: 'Ada', age: 36 });
+            mockResponse({ name: 'Bob', age: 40 });
+            mockResponse({ name: 'Ada', age: 36 });
+
+            await extract({ input: 'Ada, 36', schema, llmConfig, cache: { store } });
+            await extract({ input: 'Bob, 40', schema, llmConfig, cache: { store } });
+            await extract({ input: 'Ada, 36', schema, llmConfig: { ...llmConfig, model: 'qwen2.5' }, cache: { store } });
+
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            expect(store.size).toBe(3);
+        });
+
+        it('should replace the entry on refresh and skip expired entries', async () => {
+            const store = new MemoryCacheStore();
+            mockResponse({ name: 'Ada', age: 36 });
+            mockResponse({ name: 'Ada', age: 37 });
+            mockResponse({ name: 'Ada', age: 38 });
+
+            await extract({ input: 'Ada', schema, llmConfig, cache: { store } });
+            const refreshed = await extract({ input: 'Ada', schema, llmConfig, cache: { store, refresh: true } });
+            const cached = await extract({ input: 'Ada', schema, llmConfig, cache: { store } });
+
+            expect(refreshed.data?.age).toBe(37);
+            expect(cached.data?.age).toBe(37);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(Date.now() + 10_000);
+            const expired = await extract({ input: 'Ada', schema, llmConfig, cache: { store, ttl: 5_000 } });
+            vi.useRealTimers();
+
+            expect(expired.metadata.cached).toBe(false);
+            expect(expired.data?.age).toBe(38);
+        });
+
+        it('should not cache extractions that fail validation', async () => {
+            const store = new MemoryCacheStore();
+            mockResponse({ name: 'Ada', age: 'unknown' });
+
+            const result = await extract({ input: 'Ada', schema, llmConfig, cache: { store } });
+
+            expect(result.success).toBe(false);
+            expect(store.size).toBe(0);
+        });
+
+        it('should extract normally when the store fails', async () => {
+            const store = new MemoryCacheStore();
+            store.get = async () => { throw new Error('disk full'); };
+            store.set = async () => { throw new Error('disk full'); };
+            mockResponse({ name: 'Ada', age: 36 });
+
+            const result = await extract({ input: 'Ada', schema, llmConfig, cache: { store } });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata.cached).toBe(false);
+        });
+    });
 });
@@ -0,0 +1,105 @@
+/**
+ * Tests for input truncation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { truncateText, TRUNCATION_MARKER } from '../truncation.js';
+import { estimateTokens } from '../../llm/token-counter.js';
+import type { Schema } from '../../schemas/types.js';
+
+const words = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('truncateText', () => {
+    it('should return text that fits unchanged', () => {
+        const result = truncateText('short text', { strategy: 'head', maxTokens: 100 });
+
+        expect(result.text).toBe('short text');
+        expect(result.dropped).toEqual([]);
+    });
+
+    it('should keep the beginning with head, cut at a word boundary', () => {
+        const text = words('start', 50);
+        const result = truncateText(text, { strategy: 'head', maxTokens: 20 });
+
+        expect(text.startsWith(result.text)).toBe(true);
+        expect(estimateTokens(result.text)).toBeLessThanOrEqual(20);
+        expect(result.text.endsWith(' ')).toBe(true);
+        expect(result.dropped).toEqual([{ start: result.text.length, end: text.length }]);
+    });
+
+    it('should keep the end with tail', () => {
+        const text = words('end', 50);
+        const result = truncateText(text, { strategy: 'tail', maxTokens: 20 });
+
+        expect(text.endsWith(result.text)).toBe(true);
+        expect(estimateTokens(result.text)).toBeLessThanOrEqual(20);
+        expect(result.kept).toEqual([{ start: text.length - result.text.length, end: text.length }]);
+        expect(result.dropped[0].start).toBe(0);
+    });
+
+    it('should keep both ends with head_tail and mark the gap', () => {
+        const text = `${words('head', 40)} ${words('middle', 40)} ${words('tail', 40)}`;
+        const result = truncateText(text, { strategy: 'head_tail', maxTokens: 60 });
+
+        expect(result.text.startsWith('head0 ')).toBe(true);
+        expect(result.text.endsWith('tail39')).toBe(true);
+        expect(result.text).toContain(TRUNCATION_MARKER);
+        expect(result.text).not.toContain('middle20');
+        expect(estimateTokens(result.text)).toBeLessThanOrEqual(60);
+        expect(result.dropped).toHaveLength(1);
+    });
+
+    it('should keep paragraphs mentioning schema fields with relevant', () => {
+        const schema: Schema = {
+            fields: {
+                invoice_id: { type: 'string' },
+                total: { type: 'number', description: 'Amount due including taxes' },
+            },
+        };
+        const paragraphs = [
+            `Welcome to our site. ${'Browse products. '.repeat(10)}`,
+            'Invoice ID: INV-42',
+            `Related articles. ${'Read more. '.repeat(10)}`,
+            'Amount due: $120.00',
+            `Newsletter signup. ${'Subscribe today. '.repeat(10)}`,
+        ];
+        const text = paragraphs.join('\n\n');
+
+        const result = truncateText(text, { strategy: 'relevant', maxTokens: 60, schema });
+
+        expect(result.text).toContain('Invoice ID: INV-42');
+        expect(result.text).toContain('Amount due: $120.00');
+        expect(result.text.indexOf('INV-42')).toBeLessThan(result.text.indexOf('$120.00'));
+        expect(result.text).not.toContain('Newsletter');
+        expect(estimateTokens(result.text)).toBeLessThanOrEqual(60);
+    });
+
+    it('should join adjacent kept paragraphs without a marker', () => {
+        const schema: Schema = {
+            fields: {
+                invoice_number: { type: 'number' },
+                amount_due: { type: 'number' },
+            },
+        };
+        const text = [
+            'Invoice number 42.',
+            'Amount due 100.',
+            `Unrelated footer. ${'Lorem ipsum. '.repeat(20)}`,
+        ].join('\n\n');
+
+        const result = truncateText(text, { strategy: 'relevant', maxTokens: 20, schema });
+
+        expect(result.text).toBe('Invoice number 42.\n\nAmount due 100.');
+        expect(result.kept).toEqual([{ start: 0, end: 35 }]);
+        expect(result.dropped).toEqual([{ start: 35, end: text.length }]);
+    });
+
+    it('should fall back to head when no paragraph fits', () => {
+        const text = words('word', 100);
+        const result = truncateText(text, { strategy: 'relevant', maxTokens: 10, schema: { fields: {} } });
+
+        expect(text.startsWith(result.text)).toBe(true);
+        expect(result.text.length).toBeGreaterThan(0);
+    });
+});
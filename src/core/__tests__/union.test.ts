@@ -0,0 +1,172 @@
+/**
+ * Tests for oneOf/anyOf field support
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateSchema } from '../../schemas/validator.js';
+import { loadSchemaFromObject } from '../../schemas/loader.js';
+import { validateExtractedData } from '../validator.js';
+import { coerceExtractedData } from '../coercion.js';
+import { buildSystemPrompt } from '../../llm/prompt-builder.js';
+import type { Schema } from '../../schemas/types.js';
+
+const person = {
+    type: 'object',
+    description: 'A natural person',
+    properties: {
+        first_name: { type: 'string' },
+        last_name: { type: 'string' },
+    },
+} as const;
+
+const company = {
+    type: 'object',
+    description: 'A registered company',
+    properties: {
+        name: { type: 'string' },
+        registration_number: { type: 'string', optional: true },
+    },
+} as const;
+
+const schema: Schema = {
+    fields: {
+        payment_terms: {
+            description: 'Payment terms',
+            oneOf: [
+                { type: 'integer', description: 'Net days', min: 0 },
+                { type: 'string', description: 'Free-text terms' },
+            ],
+        },
+        buyer: { anyOf: [person, company] },
+    },
+};
+
+describe('oneOf/anyOf fields', () => {
+    describe('Schema Validation', () => {
+        it('should accept fields with alternatives instead of a type', () => {
+            expect(() => validateSchema(schema)).not.toThrow();
+        });
+
+        it('should validate each alternative', () => {
+            expect(() => validateSchema({
+                fields: { terms: { oneOf: [{ type: 'integer', min: 5, max: 1 }, { type: 'string' }] } },
+            })).toThrow(/'terms.oneOf\[0\]' min value \(5\) cannot be greater than max value/);
+        });
+
+        it('should reject a type next to alternatives', () => {
+            expect(() => validateSchema({
+                fields: { terms: { type: 'string', oneOf: [{ type: 'integer' }, { type: 'string' }] } },
+            })).toThrow(/cannot have both 'type' and 'oneOf'/);
+        });
+
+        it('should require at least two alternatives', () => {
+            expect(() => validateSchema({
+                fields: { terms: { anyOf: [{ type: 'string' }] } },
+            })).toThrow(/anyOf must be an array of at least two field definitions/);
+        });
+
+        it('should resolve $ref alternatives', () => {
+            const loaded = loadSchemaFromObject({
+                definitions: { person, company },
+                fields: {
+                    buyer: { oneOf: [{ $ref: '#/definitions/person' }, { $ref: '#/definitions/company' }] },
+                },
+            });
+
+            expect(loaded.fields.buyer.oneOf).toEqual([person, company]);
+        });
+    });
+
+    describe('Coercion', () => {
+        it('should keep values that already match an alternative', () => {
+            const { data, warnings } = coerceExtractedData(
+                { payment_terms: 'Net 30 EOM', buyer: { name: 'Acme Ltd' } },
+                schema.fields
+            );
+
+            expect(data.payment_terms).toBe('Net 30 EOM');
+            expect(data.buyer).toEqual({ name: 'Acme Ltd' });
+            expect(warnings).toEqual([]);
+        });
+
+        it('should coerce with the best-matching alternative', () => {
+            const { data, warnings } = coerceExtractedData(
+                { days: 30, flag: 'yes' },
+                {
+                    days: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+                    flag: { anyOf: [{ type: 'string', enum: ['unknown'] }, { type: 'boolean' }] },
+                }
+            );
+
+            expect(data.days).toBe(30);
+            expect(data.flag).toBe(true);
+            expect(warnings.map(warning => warning.field)).toEqual(['flag']);
+        });
+
+        it('should coerce properties of the matching object alternative', () => {
+            const { data, warnings } = coerceExtractedData(
+                { buyer: { name: 'Acme Ltd', registration_number: 12345 } },
+                schema.fields
+            );
+
+            expect(data.buyer).toEqual({ name: 'Acme Ltd', registration_number: '12345' });
+            expect(warnings[0].field).toBe('buyer.registration_number');
+        });
+    });
+
+    describe('Data Validation', () => {
+        it('should accept a value matching any alternative', () => {
+            expect(validateExtractedData({ payment_terms: 30, buyer: { first_name: 'Ada', last_name: 'Lovelace' } }, schema).valid)
+                .toBe(true);
+            expect(validateExtractedData({ payment_terms: 'Due on receipt', buyer: { name: 'Acme Ltd' } }, schema).valid)
+                .toBe(true);
+        });
+
+        it('should report the closest alternative\'s errors', () => {
+            const result = validateExtractedData({ payment_terms: 'Net 30', buyer: { first_name: 'Ada' } }, schema);
+
+            expect(result.valid).toBe(false);
+            expect(result.errors.map(error => [error.field, error.code])).toEqual([
+                ['buyer.last_name', 'FIELD_MISSING'],
+            ]);
+        });
+
+        it('should list the alternatives when the value has none of their types', () => {
+            const result = validateExtractedData({ payment_terms: { days: 30 }, buyer: { name: 'Acme Ltd' } }, schema);
+
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0]).toMatchObject({ field: 'payment_terms', code: 'TYPE_MISMATCH', expected: ['integer', 'string'] });
+            expect(result.errors[0].message).toContain('must be one of: integer, string');
+        });
+
+        it('should reject a value matching several oneOf alternatives', () => {
+            const result = validateExtractedData({ amount: 10 }, {
+                fields: { amount: { oneOf: [{ type: 'number' }, { type: 'integer' }] } },
+            });
+
+            expect(result.errors[0].code).toBe('FIELD_INVALID');
+            expect(result.errors[0].message).toContain('matches alternatives 1, 2');
+        });
+
+        it('should validate alternatives of array items', () => {
+            const result = validateExtractedData({ ids: [1, true, 'n/a'] }, {
+                fields: { ids: { type: 'array', items: { anyOf: [{ type: 'integer' }, { type: 'boolean' }] } } },
+            });
+
+            expect(result.errors.map(error => error.field)).toEqual(['ids[2]']);
+        });
+    });
+
+    describe('Prompt Generation', () => {
+        it('should list the alternatives as options', () => {
+            const prompt = buildSystemPrompt(schema);
+
+            expect(prompt).toContain('- payment_terms: one of - Payment terms');
+            expect(prompt).toContain('  option 1: integer - Net days - range: 0 to null');
+            expect(prompt).toContain('  option 2: string - Free-text terms');
+            expect(prompt).toContain('- buyer: any of');
+            expect(prompt).toContain('  option 1: object - A natural person\n    - first_name: string');
+            expect(prompt).toContain('For "one of"/"any of" fields');
+        });
+    });
+});
@@ -151,4 +151,72 @@ describe('Output Validator', () => {
             expect(result.errors).toHaveLength(3);
         });
     });
+
+    describe('length and item constraints', () => {
+        const schema: Schema = {
+            fields: {
+                country: { type: 'string', minLength: 2, maxLength: 2 },
+                note: { type: 'string', maxLength: 5, optional: true },
+                line_items: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 },
+                tags: { type: 'array', items: { type: 'string' }, uniqueItems: true, optional: true },
+            },
+        };
+
+        it('should accept values within the constraints', () => {
+            const result = validateExtractedData({ country: 'DE', note: 'café', line_items: ['a'], tags: ['x', 'y'] }, schema);
+
+            expect(result.errors).toEqual([]);
+        });
+
+        it('should report string length errors with expected and actual lengths', () => {
+            const result = validateExtractedData({ country: 'D', note: 'too long', line_items: ['a'] }, schema);
+
+            expect(result.errors).toMatchObject([
+                { field: 'country', code: 'STRING_TOO_SHORT', expected: 2, actual: 1 },
+                { field: 'note', code: 'STRING_TOO_LONG', expected: 5, actual: 8 },
+            ]);
+            expect(result.errors[0].message).toBe("Field 'country' must be at least 2 characters long, got 1");
+        });
+
+        it('should count characters rather than UTF-16 code units', () => {
+            const result = validateExtractedData({ country: '🇩🇪', line_items: ['a'] }, schema);
+
+            // Each flag emoji is two regional indicator code points
+            expect(result.errors).toEqual([]);
+        });
+
+        it('should report item count errors', () => {
+            expect(validateExtractedData({ country: 'DE', line_items: [] }, schema).errors).toMatchObject([
+                { field: 'line_items', code: 'TOO_FEW_ITEMS', expected: 1, actual: 0 },
+            ]);
+            expect(validateExtractedData({ country: 'DE', line_items: ['a', 'b', 'c', 'd'] }, schema).errors).toMatchObject([
+                { field: 'line_items', code: 'TOO_MANY_ITEMS', expected: 3, actual: 4 },
+            ]);
+        });
+
+        it('should report duplicate items', () => {
+            const result = validateExtractedData({ country: 'DE', line_items: ['a'], tags: ['x', 'y', 'x'] }, schema);
+
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0]).toMatchObject({ field: 'tags', code: 'DUPLICATE_ITEMS', actual: ['tags[2] duplicates tags[0]'] });
+        });
+
+        it('should treat objects with the same properties in a different order as duplicates', () => {
+            const result = validateExtractedData({
+                parties: [{ name: 'Acme', role: 'buyer' }, { role: 'buyer', name: 'Acme' }],
+            }, {
+                fields: {
+                    parties: {
+                        type: 'array',
+                        items: { type: 'object', properties: { name: { type: 'string' }, role: { type: 'string' } } },
+                        uniqueItems: true,
+                    },
+                },
+            });
+
+            expect(result.errors).toMatchObject([
+                { field: 'parties', code: 'DUPLICATE_ITEMS', actual: ['parties[1] duplicates parties[0]'] },
+            ]);
+        });
+    });
 });
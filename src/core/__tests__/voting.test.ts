@@ -0,0 +1,109 @@
+/**
+ * Tests for self-consistency voting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { voteOnResults } from '../voting.js';
+import type { Schema } from '../../schemas/types.js';
+
+describe('voteOnResults', () => {
+    const schema: Schema = {
+        fields: {
+            name: { type: 'string' },
+            age: { type: 'number', optional: true },
+            tags: { type: 'array', items: { type: 'string' } },
+        },
+    };
+
+    const sample = (data: Record<string, unknown>, confidence = 90) => ({
+        data,
+        confidence,
+        confidenceByField: { name: confidence, age: confidence, tags: confidence },
+    });
+
+    it('should pick the majority value per field and use agreement as confidence', () => {
+        const voted = voteOnResults([
+            sample({ name: 'Ada', age: 36, tags: ['math'] }),
+            sample({ name: 'Ada', age: '36', tags: ['math'] }),
+            sample({ name: 'Ava', age: null, tags: ['math'] }),
+        ], schema);
+
+        expect(voted.data).toEqual({ name: 'Ada', age: 36, tags: ['math'] });
+        expect(voted.confidenceByField).toEqual({ name: 67, age: 67, tags: 100 });
+        expect(voted.confidence).toBe(78);
+        expect(voted.samples).toBe(3);
+        expect(voted.votes.name).toEqual({
+            agreement: 67,
+            values: [{ value: 'Ada', count: 2 }, { value: 'Ava', count: 1 }],
+        });
+    });
+
+    it('should vote on array elements and keep majority elements in order', () => {
+        const voted = voteOnResults([
+            sample({ name: 'A', tags: ['b', 'a', 'x'] }),
+            sample({ name: 'A', tags: ['a', 'b', 'b'] }),
+            sample({ name: 'A', tags: null }),
+        ], schema);
+
+        expect(voted.data.tags).toEqual(['b', 'a']);
+        expect(voted.votes.tags.values).toEqual([
+            { value: 'b', count: 2 },
+            { value: 'a', count: 2 },
+            { value: 'x', count: 1 },
+        ]);
+        // (2/3 + 2/3 + 1/3) / 3
+        expect(voted.votes.tags.agreement).toBe(56);
+    });
+
+    it('should vote on elements of oneOf/anyOf fields whose values are arrays', () => {
+        const unionSchema: Schema = {
+            fields: {
+                tags: { anyOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string' }] },
+            },
+        };
+
+        const voted = voteOnResults([
+            { data: { tags: ['a', 'b'] }, confidence: 90, confidenceByField: { tags: 90 } },
+            { data: { tags: ['a', 'c'] }, confidence: 90, confidenceByField: { tags: 90 } },
+            { data: { tags: ['b', 'a'] }, confidence: 90, confidenceByField: { tags: 90 } },
+        ], unionSchema);
+
+        expect(voted.data.tags).toEqual(['a', 'b']);
+        expect(voted.votes.tags.values).toEqual([
+            { value: 'a', count: 3 },
+            { value: 'b', count: 2 },
+            { value: 'c', count: 1 },
+        ]);
+    });
+
+    it('should break ties in favour of the earliest sample', () => {
+        const voted = voteOnResults([
+            sample({ name: 'First', tags: [] }),
+            sample({ name: 'Second', tags: [] }),
+        ], schema);
+
+        expect(voted.data.name).toBe('First');
+        expect(voted.confidenceByField.name).toBe(50);
+        expect(voted.confidenceByField.tags).toBe(100);
+    });
+
+    it('should blend agreement with self-reported confidence', () => {
+        const voted = voteOnResults([
+            sample({ name: 'Ada', tags: [] }, 80),
+            sample({ name: 'Ava', tags: [] }, 60),
+        ], schema, 'blend');
+
+        // (50 + 70) / 2
+        expect(voted.confidenceByField.name).toBe(60);
+    });
+
+    it('should take evidence from a sample that returned the chosen value', () => {
+        const voted = voteOnResults([
+            { ...sample({ name: 'Ava', tags: [] }), evidence: { name: 'Ava?', tags: null } },
+            { ...sample({ name: 'Ada', tags: [] }), evidence: { name: 'Ada L.', tags: null } },
+            { ...sample({ name: 'Ada', tags: [] }), evidence: { name: 'Ada', tags: null } },
+        ], schema);
+
+        expect(voted.evidence?.name).toBe('Ada L.');
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Result caching
+ * Content-addressed storage for model extractions, so identical requests
+ * skip the LLM call
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Schema } from '../schemas/types.js';
+import type { LLMConfig } from '../llm/types.js';
+import type { CacheEntry, CacheStore, ExtractionRequest } from './types.js';
+import { getTokenizerName } from '../llm/tokenizer.js';
+import { canonicalStringify } from '../utils/json.js';
+
+/**
+ * Bumped when the entry format or key derivation changes, so old entries are ignored
+ */
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * LLM settings that change what the model returns (credentials, timeouts,
+ * retries and logging do not)
+ */
+const KEY_LLM_SETTINGS = [
+    'baseURL',
+    'model',
+    'provider',
+    'temperature',
+    'maxTokens',
+    'maxContextTokens',
+    'tokenBudget',
+    'ollamaOptions',
+    'jsonMode',
+    'structuredOutput',
+    'extractionMode',
+    'mock',
+] as const satisfies ReadonlyArray<keyof LLMConfig>;
+
+/**
+ * Everything that determines a model extraction
+ */
+export interface CacheKeyParts {
+    /** Input after preprocessing */
+    input: string;
+    schema: Schema;
+    /** System prompt sent to the model */
+    prompt: string;
+    llmConfig: LLMConfig;
+    /** Request options that change how the model is called */
+    options?: Pick<ExtractionRequest, 'chunking' | 'truncation' | 'repair' | 'grounding' | 'voting'>;
+}
+
+/**
+ * Computes the cache key for an extraction
+ *
+ * Objects are serialized with sorted keys, so equivalent schemas and
+ * configs written in a different key order share entries.
+ *
+ * @returns Hex SHA-256 digest
+ */
+export function computeCacheKey(parts: CacheKeyParts): string {
+    const llm = {
+        ...Object.fromEntries(KEY_LLM_SETTINGS.map(key => [key, parts.llmConfig[key]])),
+        // Token counts decide chunk boundaries; key by vocabulary, not tokenizer internals
+        tokenizer: parts.llmConfig.tokenizer && getTokenizerName(parts.llmConfig.tokenizer),
+    };
+
+    return createHash('sha256')
+        .update(canonicalStringify({
+            version: CACHE_FORMAT_VERSION,
+            input: parts.input,
+            schema: parts.schema,
+            prompt: parts.prompt,
+            llm,
+            options: parts.options ?? {},
+        }))
+        .digest('hex');
+}
+
+/**
+ * Checks whether an entry is older than the TTL
+ *
+ * @param entry - Cached entry
+ * @param ttl - Lifetime in milliseconds (undefined: never expires)
+ * @param now - Current time in milliseconds since the epoch
+ */
+export function isExpired(entry: CacheEntry, ttl: number | undefined, now: number = Date.now()): boolean {
+    return ttl !== undefined && now - entry.createdAt > ttl;
+}
+
+/**
+ * Returns the default cache directory: $XDG_CACHE_HOME/ordis, or ~/.cache/ordis
+ */
+export function getDefaultCacheDir(): string {
+    const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+    return path.join(base, 'ordis');
+}
+
+/**
+ * Cache store keeping one JSON file per entry in a directory
+ */
+export class FileCacheStore implements CacheStore {
+    readonly directory: string;
+
+    constructor(directory: string = getDefaultCacheDir()) {
+        this.directory = directory;
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.pathFor(key), 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+
+        // A truncated or hand-edited file is a miss; the next write replaces it
+        try {
+            const entry = JSON.parse(raw) as CacheEntry;
+            return entry && typeof entry === 'object' && entry.extraction ? entry : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        const file = this.pathFor(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+
+        // Write to a temporary file and rename, so concurrent readers never see a partial entry
+        const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(entry), 'utf-8');
+        await fs.rename(temp, file);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.pathFor(key), { force: true });
+    }
+
+    /**
+     * Entries are spread over subdirectories named after the first two key characters
+     */
+    private pathFor(key: string): string {
+        if (!/^[a-f0-9]{2,}$/i.test(key)) {
+            throw new Error(`Invalid cache key "${key}"`);
+        }
+        return path.join(this.directory, key.slice(0, 2), `${key}.json`);
+    }
+}
+
+/**
+ * Cache store keeping entries in memory (for tests and long-running processes)
+ */
+export class MemoryCacheStore implements CacheStore {
+    private entries = new Map<string, CacheEntry>();
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        return this.entries.get(key);
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        this.entries.set(key, entry);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    /** Number of stored entries */
+    get size(): number {
+        return this.entries.size;
+    }
+}
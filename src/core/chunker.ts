@@ -0,0 +1,179 @@
+/**
+ * Input chunking module
+ * Splits oversized inputs into token-budgeted, overlapping chunks
+ */
+
+import { estimateTokens } from '../llm/token-counter.js';
+
+/**
+ * A contiguous slice of the original input
+ */
+export interface TextChunk {
+    /** Chunk text */
+    text: string;
+    /** Start offset in the original input (inclusive) */
+    start: number;
+    /** End offset in the original input (exclusive) */
+    end: number;
+}
+
+/**
+ * Options for splitting text into chunks
+ */
+export interface ChunkOptions {
+    /** Maximum tokens per chunk */
+    maxTokens: number;
+    /** Tokens of overlap carried over from the previous chunk */
+    overlapTokens?: number;
+    /** Token counting function (default: estimateTokens) */
+    countTokens?: (text: string) => number;
+}
+
+/**
+ * A segment of text with offsets into the original input
+ */
+interface Segment {
+    start: number;
+    end: number;
+}
+
+/**
+ * Splits text into segments at the given boundary regex.
+ * Separators stay attached to the preceding segment so that
+ * segments cover the input contiguously.
+ */
+function splitAt(text: string, start: number, end: number, boundary: RegExp): Segment[] {
+    const segments: Segment[] = [];
+    const slice = text.slice(start, end);
+    const regex = new RegExp(boundary.source, boundary.flags.includes('g') ? boundary.flags : boundary.flags + 'g');
+
+    let segmentStart = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(slice)) !== null) {
+        if (match[0].length === 0) {
+            regex.lastIndex++;
+            continue;
+        }
+        const segmentEnd = match.index + match[0].length;
+        if (segmentEnd > segmentStart) {
+            segments.push({ start: start + segmentStart, end: start + segmentEnd });
+        }
+        segmentStart = segmentEnd;
+    }
+
+    if (segmentStart < slice.length) {
+        segments.push({ start: start + segmentStart, end });
+    }
+
+    return segments;
+}
+
+/**
+ * Splits a segment into fixed-size character windows that fit the token limit
+ */
+function hardSplit(text: string, segment: Segment, maxTokens: number, countTokens: (text: string) => number): Segment[] {
+    const segments: Segment[] = [];
+    let position = segment.start;
+
+    while (position < segment.end) {
+        const remaining = text.slice(position, segment.end);
+        const tokens = countTokens(remaining);
+        let size = tokens <= maxTokens
+            ? remaining.length
+            : Math.max(1, Math.floor(remaining.length * (maxTokens / tokens)));
+
+        // Shrink until the window fits (token counters are not strictly linear)
+        while (size > 1 && countTokens(text.slice(position, position + size)) > maxTokens) {
+            size = Math.floor(size * 0.9);
+        }
+
+        segments.push({ start: position, end: position + size });
+        position += size;
+    }
+
+    return segments;
+}
+
+/**
+ * Breaks the input into segments that each fit within maxTokens,
+ * preferring paragraph, then line, then sentence boundaries
+ */
+function segmentText(text: string, maxTokens: number, countTokens: (text: string) => number): Segment[] {
+    const boundaries = [/\n\s*\n/, /\n/, /[.!?]\s+/];
+
+    const refine = (segment: Segment, level: number): Segment[] => {
+        if (countTokens(text.slice(segment.start, segment.end)) <= maxTokens) {
+            return [segment];
+        }
+        if (level >= boundaries.length) {
+            return hardSplit(text, segment, maxTokens, countTokens);
+        }
+        const parts = splitAt(text, segment.start, segment.end, boundaries[level]);
+        if (parts.length <= 1) {
+            return refine(segment, level + 1);
+        }
+        return parts.flatMap(part => refine(part, level + 1));
+    };
+
+    return refine({ start: 0, end: text.length }, 0);
+}
+
+/**
+ * Splits text into overlapping chunks that each fit within the token limit
+ *
+ * Chunks are built from whole paragraphs where possible, falling back to
+ * lines, sentences and finally fixed-size windows for very long runs of text.
+ * Consecutive chunks share up to `overlapTokens` of trailing context so that
+ * values straddling a boundary are seen whole by at least one chunk.
+ *
+ * @param text - Input text to split
+ * @param options - Chunk size and overlap
+ * @returns Chunks in input order
+ */
+export function splitIntoChunks(text: string, options: ChunkOptions): TextChunk[] {
+    const countTokens = options.countTokens ?? estimateTokens;
+    const maxTokens = Math.max(1, Math.floor(options.maxTokens));
+    const overlapTokens = Math.max(0, Math.min(options.overlapTokens ?? 0, Math.floor(maxTokens / 2)));
+
+    if (text.length === 0 || countTokens(text) <= maxTokens) {
+        return [{ text, start: 0, end: text.length }];
+    }
+
+    const segments = segmentText(text, maxTokens, countTokens);
+    const tokensBetween = (from: number, to: number) =>
+        countTokens(text.slice(segments[from].start, segments[to].end));
+
+    const chunks: TextChunk[] = [];
+    let first = 0;
+
+    while (first < segments.length) {
+        // Greedily extend the chunk while it fits
+        let last = first;
+        while (last + 1 < segments.length && tokensBetween(first, last + 1) <= maxTokens) {
+            last++;
+        }
+
+        const start = segments[first].start;
+        const end = segments[last].end;
+        chunks.push({ text: text.slice(start, end), start, end });
+
+        if (last === segments.length - 1) {
+            break;
+        }
+
+        // Start the next chunk with trailing segments that fit in the overlap,
+        // as long as the overlap still leaves room for the next new segment
+        let next = last + 1;
+        while (
+            next - 1 > first &&
+            overlapTokens > 0 &&
+            tokensBetween(next - 1, last) <= overlapTokens &&
+            tokensBetween(next - 1, last + 1) <= maxTokens
+        ) {
+            next--;
+        }
+        first = next;
+    }
+
+    return chunks;
+}
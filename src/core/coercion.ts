@@ -7,9 +7,11 @@
  * - String booleans like "true" instead of true
  * - Enum case mismatch like "Series A" instead of "series_a"
  * - Date format variations like "11/20/24" instead of "2024-11-20"
+ * - Other format variations, like "+1 (415) 555-2671" for an E.164 phone number
  */
 
-import type { FieldType, FieldDefinition, ArrayItemDefinition } from '../schemas/types.js';
+import type { FieldType, FieldDefinition } from '../schemas/types.js';
+import { getFormat, parseDate } from '../schemas/formats.js';
 
 /**
  * Warning generated during coercion
@@ -92,65 +94,6 @@ export function coerceEnumValue(
     return { value, coerced: false };
 }
 
-/**
- * Common date format patterns and their parsing logic
- * Supports: MM/DD/YY, MM/DD/YYYY, DD-MM-YYYY, YYYY-MM-DD, etc.
- */
-const DATE_PATTERNS: Array<{
-    regex: RegExp;
-    parse: (match: RegExpMatchArray) => { year: number; month: number; day: number } | null;
-}> = [
-    // ISO format: YYYY-MM-DD or YYYY-MM-DDTHH:MM:SS
-    {
-        regex: /^(\d{4})-(\d{1,2})-(\d{1,2})(?:T[\d:]+)?$/,
-        parse: (m) => ({ year: parseInt(m[1]), month: parseInt(m[2]), day: parseInt(m[3]) }),
-    },
-    // US format: MM/DD/YYYY or MM/DD/YY
-    {
-        regex: /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/,
-        parse: (m) => {
-            let year = parseInt(m[3]);
-            if (year < 100) year += year < 50 ? 2000 : 1900;
-            return { year, month: parseInt(m[1]), day: parseInt(m[2]) };
-        },
-    },
-    // European format: DD-MM-YYYY or DD.MM.YYYY
-    {
-        regex: /^(\d{1,2})[-.](\d{1,2})[-.](\d{4})$/,
-        parse: (m) => ({ year: parseInt(m[3]), month: parseInt(m[2]), day: parseInt(m[1]) }),
-    },
-    // Written format: January 15, 2024 or Jan 15, 2024
-    {
-        regex: /^([A-Za-z]+)\s+(\d{1,2}),?\s+(\d{4})$/,
-        parse: (m) => {
-            const monthNames: Record<string, number> = {
-                january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3,
-                april: 4, apr: 4, may: 5, june: 6, jun: 6,
-                july: 7, jul: 7, august: 8, aug: 8, september: 9, sep: 9, sept: 9,
-                october: 10, oct: 10, november: 11, nov: 11, december: 12, dec: 12,
-            };
-            const month = monthNames[m[1].toLowerCase()];
-            if (!month) return null;
-            return { year: parseInt(m[3]), month, day: parseInt(m[2]) };
-        },
-    },
-    // Written format: 15 January 2024 or 15 Jan 2024
-    {
-        regex: /^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/,
-        parse: (m) => {
-            const monthNames: Record<string, number> = {
-                january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3,
-                april: 4, apr: 4, may: 5, june: 6, jun: 6,
-                july: 7, jul: 7, august: 8, aug: 8, september: 9, sep: 9, sept: 9,
-                october: 10, oct: 10, november: 11, nov: 11, december: 12, dec: 12,
-            };
-            const month = monthNames[m[2].toLowerCase()];
-            if (!month) return null;
-            return { year: parseInt(m[3]), month, day: parseInt(m[1]) };
-        },
-    },
-];
-
 /**
  * Coerce a date string to ISO format (YYYY-MM-DD)
  * 
@@ -163,47 +106,60 @@ export function coerceDateValue(
     fieldName: string
 ): CoercionResult {
     const trimmed = value.trim();
-    
-    // Already in ISO format without time - no coercion needed
-    if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-        return { value: trimmed, coerced: false };
+    const isoDate = parseDate(trimmed);
+
+    // No pattern matched - return original
+    if (isoDate === undefined) {
+        return { value, coerced: false };
     }
 
-    // Try each pattern
-    for (const pattern of DATE_PATTERNS) {
-        const match = trimmed.match(pattern.regex);
-        if (match) {
-            const parsed = pattern.parse(match);
-            if (parsed) {
-                // Validate the date components
-                if (parsed.month >= 1 && parsed.month <= 12 && 
-                    parsed.day >= 1 && parsed.day <= 31 &&
-                    parsed.year >= 1900 && parsed.year <= 2100) {
-                    
-                    const isoDate = `${parsed.year}-${String(parsed.month).padStart(2, '0')}-${String(parsed.day).padStart(2, '0')}`;
-                    
-                    // Check if it's different from original (ignoring time component)
-                    if (isoDate !== trimmed && !trimmed.startsWith(isoDate)) {
-                        return {
-                            value: isoDate,
-                            coerced: true,
-                            warning: {
-                                field: fieldName,
-                                message: `Coerced date '${value}' to ISO format '${isoDate}'`,
-                                originalValue: value,
-                                coercedValue: isoDate,
-                            },
-                        };
-                    }
-                    
-                    return { value: isoDate, coerced: false };
-                }
-            }
-        }
+    // Check if it's different from original (ignoring time component)
+    if (isoDate !== trimmed && !trimmed.startsWith(isoDate)) {
+        return {
+            value: isoDate,
+            coerced: true,
+            warning: {
+                field: fieldName,
+                message: `Coerced date '${value}' to ISO format '${isoDate}'`,
+                originalValue: value,
+                coercedValue: isoDate,
+            },
+        };
     }
 
-    // No pattern matched - return original
-    return { value, coerced: false };
+    return { value: isoDate, coerced: false };
+}
+
+/**
+ * Normalize a string with its registered format (e.g. phone numbers to E.164)
+ *
+ * @param value - The string to normalize
+ * @param formatName - Name of the field's format
+ * @param fieldName - Field name for warning messages
+ * @returns CoercionResult with the normalized value, or the original if the
+ *   format is unknown or cannot normalize it
+ */
+export function coerceFormatValue(
+    value: string,
+    formatName: string,
+    fieldName: string
+): CoercionResult {
+    const normalized = getFormat(formatName)?.normalize?.(value);
+
+    if (normalized === undefined || normalized === value) {
+        return { value, coerced: false };
+    }
+
+    return {
+        value: normalized,
+        coerced: true,
+        warning: {
+            field: fieldName,
+            message: `Normalized '${value}' to ${formatName} format '${normalized}'`,
+            originalValue: value,
+            coercedValue: normalized,
+        },
+    };
 }
 
 /**
@@ -434,8 +390,10 @@ function coerceToString(value: unknown, fieldName: string): CoercionResult {
  * Handles:
  * - Top-level field coercion
  * - Enum value normalization (case-insensitive)
+ * - Format normalization (see schemas/formats)
  * - Recursive coercion for array items
  * - Recursive coercion for nested objects
+ * - oneOf/anyOf fields, using the best-matching alternative
  * 
  * @param data - The extracted data object
  * @param fields - Field definitions from schema
@@ -450,78 +408,185 @@ export function coerceExtractedData(
 
     for (const [fieldName, fieldDef] of Object.entries(fields)) {
         if (!(fieldName in data)) continue;
-        
-        const value = data[fieldName];
-        
-        // Handle null/undefined - no coercion needed
-        if (value === null || value === undefined) {
-            coercedData[fieldName] = value;
-            continue;
-        }
 
-        // Handle array type - recursively coerce items
-        if (fieldDef.type === 'array' && Array.isArray(value) && fieldDef.items) {
-            const { array: coercedArray, warnings: arrayWarnings } = coerceArrayItems(
-                value,
-                fieldDef.items,
-                fieldName
-            );
-            coercedData[fieldName] = coercedArray;
-            warnings.push(...arrayWarnings);
-            continue;
-        }
+        const result = coerceField(data[fieldName], fieldDef, fieldName);
+        coercedData[fieldName] = result.value;
+        warnings.push(...result.warnings);
+    }
 
-        // Handle object type - recursively coerce properties
-        if (fieldDef.type === 'object' && typeof value === 'object' && !Array.isArray(value) && fieldDef.properties) {
-            const { data: coercedObj, warnings: objWarnings } = coerceExtractedData(
-                value as Record<string, unknown>,
-                fieldDef.properties
-            );
-            // Update warning field paths
-            for (const w of objWarnings) {
-                w.field = `${fieldName}.${w.field}`;
-            }
-            coercedData[fieldName] = coercedObj;
-            warnings.push(...objWarnings);
-            continue;
-        }
+    return { data: coercedData, warnings };
+}
 
-        // Handle string with enum - try enum coercion first
-        if (fieldDef.type === 'string' && typeof value === 'string' && fieldDef.enum) {
-            const enumResult = coerceEnumValue(value, fieldDef.enum, fieldName);
-            coercedData[fieldName] = enumResult.value;
-            if (enumResult.warning) {
-                warnings.push(enumResult.warning);
-            }
-            continue;
+/**
+ * Coerce a single value against its field definition (recursive)
+ *
+ * @param value - The value to coerce
+ * @param fieldDef - Definition of the field (or of array items)
+ * @param fieldPath - Field path for warnings (e.g. 'tags[0]')
+ * @returns Coerced value and any warnings
+ */
+function coerceField(
+    value: unknown,
+    fieldDef: FieldDefinition,
+    fieldPath: string
+): { value: unknown; warnings: CoercionWarning[] } {
+    // Handle null/undefined - no coercion needed
+    if (value === null || value === undefined) {
+        return { value, warnings: [] };
+    }
+
+    // Handle oneOf/anyOf - coerce with the best-matching alternative
+    const alternatives = fieldDef.oneOf ?? fieldDef.anyOf;
+    if (alternatives) {
+        return coerceToAlternative(value, alternatives, fieldDef.optional ?? false, fieldPath);
+    }
+
+    // Handle array type - recursively coerce items
+    if (fieldDef.type === 'array' && Array.isArray(value) && fieldDef.items) {
+        const { array, warnings } = coerceArrayItems(value, fieldDef.items, fieldPath);
+        return { value: array, warnings };
+    }
+
+    // Handle object type - recursively coerce properties
+    if (fieldDef.type === 'object' && typeof value === 'object' && !Array.isArray(value) && fieldDef.properties) {
+        const { data, warnings } = coerceExtractedData(
+            value as Record<string, unknown>,
+            fieldDef.properties
+        );
+        // Update warning field paths
+        for (const w of warnings) {
+            w.field = `${fieldPath}.${w.field}`;
         }
+        return { value: data, warnings };
+    }
 
-        // Handle string with date/date-time format - normalize to ISO
-        if (fieldDef.type === 'string' && typeof value === 'string' && 
-            (fieldDef.format === 'date' || fieldDef.format === 'date-time')) {
-            const dateResult = coerceDateValue(value, fieldName);
-            coercedData[fieldName] = dateResult.value;
-            if (dateResult.warning) {
-                warnings.push(dateResult.warning);
-            }
-            continue;
+    // Handle string with enum - try enum coercion first
+    if (fieldDef.type === 'string' && typeof value === 'string' && fieldDef.enum) {
+        const enumResult = coerceEnumValue(value, fieldDef.enum, fieldPath);
+        return { value: enumResult.value, warnings: enumResult.warning ? [enumResult.warning] : [] };
+    }
+
+    // Handle string with a format - normalize with the registered format
+    if (fieldDef.type === 'string' && typeof value === 'string' && fieldDef.format) {
+        const formatResult = coerceFormatValue(value, fieldDef.format, fieldPath);
+        return { value: formatResult.value, warnings: formatResult.warning ? [formatResult.warning] : [] };
+    }
+
+    // Standard type coercion
+    if (!fieldDef.type) {
+        return { value, warnings: [] };
+    }
+    const result = coerceValue(
+        value,
+        fieldDef.type,
+        fieldPath,
+        fieldDef.optional ?? false
+    );
+    return { value: result.value, warnings: result.warning ? [result.warning] : [] };
+}
+
+/**
+ * Coerce a value with the alternative it matches best
+ *
+ * Each alternative coerces the value; the one leaving the fewest mismatches
+ * wins, then the one needing the fewest coercions, then the first listed.
+ * A value that already matches an alternative is therefore kept as-is.
+ *
+ * @param value - The value to coerce
+ * @param alternatives - oneOf/anyOf alternatives
+ * @param isOptional - Whether the union field is optional (affects null coercion)
+ * @param fieldPath - Field path for warnings
+ * @returns Value coerced by the best-matching alternative and its warnings
+ */
+function coerceToAlternative(
+    value: unknown,
+    alternatives: FieldDefinition[],
+    isOptional: boolean,
+    fieldPath: string
+): { value: unknown; warnings: CoercionWarning[] } {
+    let best: { value: unknown; warnings: CoercionWarning[]; mismatches: number } | undefined;
+
+    for (const alternative of alternatives) {
+        const candidate = coerceField(value, { ...alternative, optional: alternative.optional || isOptional }, fieldPath);
+        const mismatches = countMismatches(candidate.value, alternative);
+        if (!best || mismatches < best.mismatches ||
+            (mismatches === best.mismatches && candidate.warnings.length < best.warnings.length)) {
+            best = { ...candidate, mismatches };
         }
+    }
 
-        // Standard type coercion
-        const result = coerceValue(
-            value,
-            fieldDef.type,
-            fieldName,
-            fieldDef.optional ?? false
-        );
-        
-        coercedData[fieldName] = result.value;
-        if (result.warning) {
-            warnings.push(result.warning);
+    return best ? { value: best.value, warnings: best.warnings } : { value, warnings: [] };
+}
+
+/**
+ * Counts how far a value is from matching a field definition: wrong types,
+ * violated constraints, missing required properties and unknown properties
+ * (0 when it matches)
+ */
+function countMismatches(value: unknown, fieldDef: FieldDefinition): number {
+    if (value === null || value === undefined) {
+        return fieldDef.optional ? 0 : 1;
+    }
+
+    const alternatives = fieldDef.oneOf ?? fieldDef.anyOf;
+    if (alternatives) {
+        return Math.min(...alternatives.map(alternative => countMismatches(value, alternative)));
+    }
+
+    switch (fieldDef.type) {
+        case 'string':
+            if (typeof value !== 'string') return 1;
+            return (fieldDef.enum && !fieldDef.enum.includes(value) ? 1 : 0) +
+                (fieldDef.pattern && !safeTest(fieldDef.pattern, value) ? 1 : 0) +
+                (fieldDef.format && getFormat(fieldDef.format)?.validate(value) === false ? 1 : 0) +
+                countOutOfBounds([...value].length, fieldDef.minLength, fieldDef.maxLength);
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || isNaN(value)) return 1;
+            if (fieldDef.type === 'integer' && !Number.isInteger(value)) return 1;
+            return (fieldDef.min !== undefined && value < fieldDef.min ? 1 : 0) +
+                (fieldDef.max !== undefined && value > fieldDef.max ? 1 : 0);
+        case 'boolean':
+            return typeof value === 'boolean' ? 0 : 1;
+        case 'array': {
+            if (!Array.isArray(value)) return 1;
+            const items = fieldDef.items;
+            return countOutOfBounds(value.length, fieldDef.minItems, fieldDef.maxItems) +
+                (items ? value.reduce<number>((sum, item) => sum + countMismatches(item, items), 0) : 0);
+        }
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) return 1;
+            if (!fieldDef.properties) return 0;
+            const properties = fieldDef.properties;
+            const obj = value as Record<string, unknown>;
+            let mismatches = Object.keys(obj).filter(key => !(key in properties)).length;
+            for (const [name, property] of Object.entries(properties)) {
+                mismatches += countMismatches(obj[name], property);
+            }
+            return mismatches;
         }
+        default:
+            return 0;
     }
+}
 
-    return { data: coercedData, warnings };
+/**
+ * Returns 1 if a length or item count is outside its bounds, else 0
+ */
+function countOutOfBounds(count: number, min: number | undefined, max: number | undefined): number {
+    return (min !== undefined && count < min) || (max !== undefined && count > max) ? 1 : 0;
+}
+
+/**
+ * Tests a schema pattern, treating invalid patterns as matching
+ * (schema validation reports them)
+ */
+function safeTest(pattern: string, value: string): boolean {
+    try {
+        return new RegExp(pattern).test(value);
+    } catch {
+        return true;
+    }
 }
 
 /**
@@ -534,32 +599,16 @@ export function coerceExtractedData(
  */
 function coerceArrayItems(
     array: unknown[],
-    itemDef: ArrayItemDefinition,
+    itemDef: FieldDefinition,
     fieldName: string
 ): { array: unknown[]; warnings: CoercionWarning[] } {
     const coercedArray: unknown[] = [];
     const warnings: CoercionWarning[] = [];
 
     for (let i = 0; i < array.length; i++) {
-        const item = array[i];
-        const itemPath = `${fieldName}[${i}]`;
-
-        // Only handle object items for now (as per ArrayItemDefinition)
-        if (itemDef.type === 'object' && typeof item === 'object' && item !== null && !Array.isArray(item) && itemDef.properties) {
-            const { data: coercedItem, warnings: itemWarnings } = coerceExtractedData(
-                item as Record<string, unknown>,
-                itemDef.properties
-            );
-            // Update warning field paths
-            for (const w of itemWarnings) {
-                w.field = `${itemPath}.${w.field}`;
-            }
-            coercedArray.push(coercedItem);
-            warnings.push(...itemWarnings);
-        } else {
-            // Non-object items are passed through as-is
-            coercedArray.push(item);
-        }
+        const { value, warnings: itemWarnings } = coerceField(array[i], itemDef, `${fieldName}[${i}]`);
+        coercedArray.push(value);
+        warnings.push(...itemWarnings);
     }
 
     return { array: coercedArray, warnings };
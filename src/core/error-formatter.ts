@@ -116,6 +116,32 @@ export function formatValidationError(
             }
             break;
 
+        case PipelineErrorCodes.INVALID_FORMAT:
+            formatted.message = `Field '${error.field}' is not a valid ${error.expected}\n` +
+                               `  Got: ${JSON.stringify(error.value)}`;
+            formatted.suggestion = `The value could not be normalized to the required format.\n` +
+                                 `  • Give an example of the format in the field description\n` +
+                                 `  • Check that the input contains a complete value (e.g. a country code for phone numbers)`;
+            break;
+
+        case PipelineErrorCodes.STRING_TOO_SHORT:
+        case PipelineErrorCodes.STRING_TOO_LONG:
+            formatted.message = error.message;
+            formatted.suggestion = `The value has the wrong length.\n` +
+                                 `  • Mention the expected length or an example in the field description\n` +
+                                 `  • Check if the minLength/maxLength constraint is correct`;
+            break;
+
+        case PipelineErrorCodes.TOO_FEW_ITEMS:
+        case PipelineErrorCodes.TOO_MANY_ITEMS:
+        case PipelineErrorCodes.DUPLICATE_ITEMS:
+            formatted.message = error.message;
+            formatted.suggestion = `The array has the wrong number of items or repeats items.\n` +
+                                 `  • Ensure the input text contains every expected item\n` +
+                                 `  • Describe how many items are expected in the field description\n` +
+                                 `  • Check if the minItems/maxItems/uniqueItems constraints are correct`;
+            break;
+
         default:
             formatted.message = error.message;
     }
@@ -213,7 +239,8 @@ export function formatLLMError(error: LLMError, context?: {
                                  `  • Reduce input size (extract relevant sections only)\n` +
                                  `  • Use HTML preprocessing to strip noise: --strip-html\n` +
                                  `  • Switch to a model with larger context window\n` +
-                                 `  • Split extraction into multiple passes (coming soon)`;
+                                 `  • Split the input into chunks and extract each: --chunk\n` +
+                                 `  • Trim the input to fit: --truncate relevant`;
             break;
 
         case LLMErrorCodes.INVALID_RESPONSE:
@@ -231,6 +258,29 @@ export function formatLLMError(error: LLMError, context?: {
             }
             break;
 
+        case LLMErrorCodes.UNKNOWN_PROVIDER:
+            formatted.title = 'Unknown Provider';
+            formatted.suggestion = `No provider adapter is registered under this name.\n` +
+                                 `  • Built-in providers: 'openai', 'ollama', 'anthropic', 'mock'\n` +
+                                 `  • Register custom adapters with registerProvider() before extracting\n` +
+                                 `  • Omit the provider to auto-detect it from the base URL`;
+            break;
+
+        case LLMErrorCodes.CASSETTE_ERROR:
+            formatted.title = 'Cassette Replay Error';
+            formatted.suggestion = `The request could not be served from the cassette.\n` +
+                                 `  • Re-record the cassette after changing the schema, prompt, model or input\n` +
+                                 `  • Record with --record <path>, replay with --replay <path>\n` +
+                                 `  • Check the cassette path`;
+            break;
+
+        case LLMErrorCodes.INVALID_CONFIG:
+            formatted.title = 'Invalid Configuration';
+            formatted.suggestion = `The LLM configuration cannot be used as given.\n` +
+                                 `  • Check file paths in the config (e.g. the mock fixture)\n` +
+                                 `  • Fix the setting and run again; the request is not retried`;
+            break;
+
         case LLMErrorCodes.API_ERROR:
             // Check for common API error patterns
             const msg = error.message.toLowerCase();
@@ -245,7 +295,7 @@ export function formatLLMError(error: LLMError, context?: {
                                      `  • Reduce input size (extract relevant sections only)\n` +
                                      `  • Use HTML preprocessing to strip noise: --strip-html\n` +
                                      `  • Switch to a model with larger context window\n` +
-                                     `  • Split extraction into multiple passes (coming soon)`;
+                                     `  • Split the input into chunks and extract each: --chunk`;
             } else if (msg.includes('model') && msg.includes('not found')) {
                 formatted.title = 'Model Not Found';
                 formatted.suggestion = `The specified model is not available.\n` +
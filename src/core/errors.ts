@@ -10,6 +10,12 @@ export const PipelineErrorCodes = {
     FIELD_MISSING: 'FIELD_MISSING',
     FIELD_INVALID: 'FIELD_INVALID',
     TYPE_MISMATCH: 'TYPE_MISMATCH',
+    STRING_TOO_SHORT: 'STRING_TOO_SHORT',
+    STRING_TOO_LONG: 'STRING_TOO_LONG',
+    TOO_FEW_ITEMS: 'TOO_FEW_ITEMS',
+    TOO_MANY_ITEMS: 'TOO_MANY_ITEMS',
+    DUPLICATE_ITEMS: 'DUPLICATE_ITEMS',
+    INVALID_FORMAT: 'INVALID_FORMAT',
 } as const;
 
 export type PipelineErrorCode = (typeof PipelineErrorCodes)[keyof typeof PipelineErrorCodes];
@@ -0,0 +1,120 @@
+/**
+ * Source grounding
+ * Resolves the model's evidence quotes to character offsets in the input
+ */
+
+import type { Schema } from '../schemas/types.js';
+import type { FieldEvidence } from './types.js';
+
+/**
+ * Characters models commonly substitute when quoting (typographic quotes
+ * and dashes, non-breaking spaces), mapped to their plain equivalents
+ */
+const CHARACTER_FOLDS: Record<string, string> = {
+    '‘': "'",
+    '’': "'",
+    '“': '"',
+    '”': '"',
+    '–': '-',
+    '—': '-',
+    ' ': ' ',
+};
+
+/**
+ * Normalizes text for lenient matching while keeping a map back to the
+ * original offsets: whitespace runs collapse to one space, case and
+ * typographic characters are folded
+ */
+function normalize(text: string): { text: string; offsets: number[] } {
+    let normalized = '';
+    const offsets: number[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const char = CHARACTER_FOLDS[text[i]] ?? text[i];
+        if (/\s/.test(char)) {
+            if (normalized.endsWith(' ')) continue;
+            normalized += ' ';
+        } else {
+            // Keep characters whose lowercase form has a different length, so offsets stay aligned
+            const lower = char.toLowerCase();
+            normalized += lower.length === 1 ? lower : char;
+        }
+        offsets.push(i);
+    }
+
+    return { text: normalized, offsets };
+}
+
+/**
+ * Finds a quote in the input
+ *
+ * Tries an exact match first, then a match that ignores case, whitespace
+ * differences and typographic quotes/dashes.
+ *
+ * @param input - Text the extraction ran on
+ * @param quote - Quote to look for
+ * @returns Offsets of the first match (end exclusive), or null if not found
+ */
+export function locateQuote(input: string, quote: string): { start: number; end: number } | null {
+    const trimmed = quote.trim();
+    if (!trimmed) {
+        return null;
+    }
+
+    const exact = input.indexOf(trimmed);
+    if (exact !== -1) {
+        return { start: exact, end: exact + trimmed.length };
+    }
+
+    const haystack = normalize(input);
+    const needle = normalize(trimmed).text;
+    const index = haystack.text.indexOf(needle);
+    if (index === -1) {
+        return null;
+    }
+
+    return {
+        start: haystack.offsets[index],
+        end: haystack.offsets[index + needle.length - 1] + 1,
+    };
+}
+
+/**
+ * Resolves evidence for every extracted field
+ *
+ * Fields without a value and without a quote are left out. A field whose
+ * quote is missing or does not occur in the input gets `found: false`.
+ *
+ * @param input - Text the extraction ran on (after preprocessing)
+ * @param schema - Extraction schema
+ * @param data - Extracted data
+ * @param quotes - Quotes returned by the model, by field
+ * @returns Evidence by field
+ */
+export function resolveEvidence(
+    input: string,
+    schema: Schema,
+    data: Record<string, unknown>,
+    quotes: Record<string, unknown> = {}
+): Record<string, FieldEvidence> {
+    const evidence: Record<string, FieldEvidence> = {};
+
+    for (const fieldName of Object.keys(schema.fields)) {
+        const value = data[fieldName];
+        const quote = typeof quotes[fieldName] === 'string' ? quotes[fieldName] as string : null;
+
+        if ((value === null || value === undefined) && !quote) {
+            continue;
+        }
+
+        const location = quote ? locateQuote(input, quote) : null;
+        evidence[fieldName] = {
+            quote,
+            start: location?.start ?? null,
+            end: location?.end ?? null,
+            found: location !== null,
+        };
+    }
+
+    return evidence;
+}
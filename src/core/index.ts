@@ -2,10 +2,18 @@
  * Core pipeline module exports
  */
 
-export { ExtractionPipeline, extract } from './pipeline.js';
+export { ExtractionPipeline, extract, extractStream } from './pipeline.js';
 export { validateExtractedData } from './validator.js';
-export { coerceValue, coerceExtractedData, coerceEnumValue, coerceDateValue } from './coercion.js';
+export { coerceValue, coerceExtractedData, coerceEnumValue, coerceDateValue, coerceFormatValue } from './coercion.js';
 export { PipelineError, PipelineErrorCodes } from './errors.js';
+export { splitIntoChunks } from './chunker.js';
+export { truncateText, TRUNCATION_MARKER } from './truncation.js';
+export { mergeChunkResults } from './merger.js';
+export { createUsage, priceUsage, addUsage, parsePriceTable } from './usage.js';
+export { getCompletedFields } from './partial.js';
+export { resolveEvidence, locateQuote } from './grounding.js';
+export { voteOnResults } from './voting.js';
+export { computeCacheKey, getDefaultCacheDir, FileCacheStore, MemoryCacheStore } from './cache.js';
 export {
     stripHtml,
     preprocess,
@@ -13,6 +21,8 @@ export {
     resolveHtmlStripOptions,
 } from './preprocessor.js';
 export type { PreprocessResult } from './preprocessor.js';
+export type { TextChunk, ChunkOptions } from './chunker.js';
+export type { TextRange, TruncateOptions, TruncationResult } from './truncation.js';
 export type {
     PipelineConfig,
     ExtractionRequest,
@@ -20,5 +30,23 @@ export type {
     StepResult,
     HtmlStripOptions,
     PreprocessingConfig,
+    ChunkingConfig,
+    TruncationStrategy,
+    TruncationReport,
+    PartialExtraction,
+    ExtractionStreamEvent,
+    FieldEvidence,
+    VotingConfig,
+    FieldVote,
+    FallbackReason,
+    FallbackAttempt,
+    CacheConfig,
+    CacheStore,
+    CacheEntry,
+    ModelPrice,
+    PriceTable,
+    ExtractionUsage,
 } from './types.js';
+export type { VotedExtraction } from './voting.js';
+export type { CacheKeyParts } from './cache.js';
 export type { CoercionWarning, CoercionResult } from './coercion.js';
@@ -0,0 +1,160 @@
+/**
+ * Chunk result merging
+ * Combines per-chunk extractions into a single extraction result
+ */
+
+import type { Schema, FieldDefinition } from '../schemas/types.js';
+import type { ExtractionResponse } from '../llm/types.js';
+import { canonicalStringify } from '../utils/json.js';
+
+/**
+ * Merged value of one field
+ */
+interface MergedField {
+    value: unknown;
+    confidence: number;
+    /** Evidence quote from the chunk the value (or its highest-confidence part) came from */
+    evidence?: string | null;
+}
+
+/**
+ * Checks whether a field or one of its oneOf/anyOf alternatives is an array
+ */
+function canHoldArray(fieldDef: FieldDefinition): boolean {
+    return fieldDef.type === 'array' || (fieldDef.oneOf ?? fieldDef.anyOf ?? []).some(canHoldArray);
+}
+
+/**
+ * Checks whether a field's values are combined as arrays: always for
+ * array fields, and for oneOf/anyOf fields with an array alternative when
+ * every non-null value is an array
+ *
+ * @param fieldDef - Field definition
+ * @param values - The field's value in each result
+ */
+export function combinesAsArray(fieldDef: FieldDefinition, values: unknown[]): boolean {
+    if (fieldDef.type === 'array') {
+        return true;
+    }
+    return canHoldArray(fieldDef) && values.every(value => value === null || value === undefined || Array.isArray(value));
+}
+
+/**
+ * Merges a single array field across chunks.
+ * Items are concatenated in chunk order and structural duplicates dropped.
+ */
+function mergeArrayField(
+    fieldName: string,
+    results: ExtractionResponse[]
+): MergedField {
+    const merged: unknown[] = [];
+    const seen = new Set<string>();
+    let sawArray = false;
+    let confidence = 0;
+    let evidence: string | null | undefined;
+
+    for (const result of results) {
+        const value = result.data[fieldName];
+        if (!Array.isArray(value)) continue;
+
+        sawArray = true;
+        const fieldConfidence = result.confidenceByField[fieldName] ?? result.confidence;
+        if (value.length > 0 && (evidence === undefined || fieldConfidence > confidence)) {
+            evidence = result.evidence?.[fieldName];
+        }
+        if (value.length > 0) {
+            confidence = Math.max(confidence, fieldConfidence);
+        }
+
+        for (const item of value) {
+            const key = canonicalStringify(item);
+            if (!seen.has(key)) {
+                seen.add(key);
+                merged.push(item);
+            }
+        }
+    }
+
+    if (!sawArray) {
+        return mergeScalarField(fieldName, results);
+    }
+
+    if (merged.length === 0) {
+        confidence = Math.max(...results.map(r => r.confidenceByField[fieldName] ?? 0));
+    }
+
+    return { value: merged, confidence, evidence };
+}
+
+/**
+ * Merges a scalar (or object) field across chunks.
+ * The non-null value with the highest field confidence wins; ties go to the earliest chunk.
+ */
+function mergeScalarField(
+    fieldName: string,
+    results: ExtractionResponse[]
+): MergedField {
+    let best: MergedField | null = null;
+
+    for (const result of results) {
+        const value = result.data[fieldName];
+        if (value === null || value === undefined) continue;
+
+        const confidence = result.confidenceByField[fieldName] ?? result.confidence;
+        if (!best || confidence > best.confidence) {
+            best = { value, confidence, evidence: result.evidence?.[fieldName] };
+        }
+    }
+
+    if (best) {
+        return best;
+    }
+
+    return {
+        value: null,
+        confidence: Math.max(0, ...results.map(r => r.confidenceByField[fieldName] ?? 0)),
+    };
+}
+
+/**
+ * Merges extraction results from multiple chunks field-by-field
+ *
+ * - Array fields (and oneOf/anyOf fields whose values are all arrays): items
+ *   from all chunks are concatenated and deduplicated
+ * - Other fields: the non-null value with the highest confidence wins
+ * - Overall confidence: mean of the merged per-field confidences
+ * - Evidence (grounding mode): the quote from the chunk the winning value came from
+ *
+ * @param results - Per-chunk extraction results, in chunk order
+ * @param schema - Schema the results were extracted with
+ * @returns A single merged extraction result
+ */
+export function mergeChunkResults(results: ExtractionResponse[], schema: Schema): ExtractionResponse {
+    if (results.length === 1) {
+        return results[0];
+    }
+
+    const data: Record<string, unknown> = {};
+    const confidenceByField: Record<string, number> = {};
+    const evidence: Record<string, string | null> = {};
+
+    for (const [fieldName, fieldDef] of Object.entries(schema.fields)) {
+        const merged = combinesAsArray(fieldDef, results.map(result => result.data[fieldName]))
+            ? mergeArrayField(fieldName, results)
+            : mergeScalarField(fieldName, results);
+
+        data[fieldName] = merged.value;
+        confidenceByField[fieldName] = merged.confidence;
+        if (merged.evidence !== undefined) {
+            evidence[fieldName] = merged.evidence;
+        }
+    }
+
+    const fieldConfidences = Object.values(confidenceByField);
+    const confidence = fieldConfidences.length > 0
+        ? Math.round(fieldConfidences.reduce((sum, c) => sum + c, 0) / fieldConfidences.length)
+        : Math.round(results.reduce((sum, r) => sum + r.confidence, 0) / results.length);
+
+    const grounded = results.some(result => result.evidence);
+    return { data, confidence, confidenceByField, ...(grounded && { evidence }) };
+}
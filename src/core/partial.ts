@@ -0,0 +1,62 @@
+/**
+ * Partial extraction snapshots for streamed responses
+ */
+
+import { parsePartialJSON } from '../utils/partial-json.js';
+import type { PartialExtraction } from './types.js';
+
+/**
+ * Returns the top-level fields of `data` that are complete in a partial
+ * extraction response ({ data, confidence, confidenceByField })
+ *
+ * @param text - Response text received so far
+ * @returns Completed fields, or undefined if `data` has not started yet
+ */
+export function getCompletedFields(text: string): Record<string, unknown> | undefined {
+    const parsed = parsePartialJSON(text);
+    const envelope = parsed?.value;
+    if (!envelope || typeof envelope !== 'object' || Array.isArray(envelope)) {
+        return undefined;
+    }
+
+    const data = (envelope as Record<string, unknown>).data;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return undefined;
+    }
+
+    // Only the field on the pending path can still be receiving content
+    const pendingField = parsed.pending?.[0] === 'data' ? parsed.pending[1] : undefined;
+    return Object.fromEntries(
+        Object.entries(data as Record<string, unknown>).filter(([name]) => name !== pendingField)
+    );
+}
+
+/**
+ * Creates a progress listener that reports a snapshot whenever new
+ * top-level fields complete
+ *
+ * @param step - Step name reported in snapshots
+ * @param onPartial - Snapshot listener
+ * @returns Listener for the streamed response text
+ */
+export function createPartialTracker(
+    step: string,
+    onPartial: (partial: PartialExtraction) => void
+): (text: string) => void {
+    const reported = new Set<string>();
+
+    return (text) => {
+        const data = getCompletedFields(text);
+        if (!data) {
+            return;
+        }
+
+        const fields = Object.keys(data).filter(name => !reported.has(name));
+        if (fields.length === 0) {
+            return;
+        }
+
+        fields.forEach(name => reported.add(name));
+        onPartial({ step, data, fields });
+    };
+}
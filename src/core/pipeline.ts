@@ -3,11 +3,96 @@
  */
 
 import { LLMClient } from '../llm/client.js';
-import { validateExtractedData } from './validator.js';
-import type { CoercionWarning } from './coercion.js';
+import { LLMError, LLMErrorCodes } from '../llm/errors.js';
+import { validateExtractedData, type ValidationResult } from './validator.js';
 import { PipelineError, PipelineErrorCodes } from './errors.js';
+import { formatValidationErrors } from './error-formatter.js';
 import { preprocessWithDetails } from './preprocessor.js';
-import type { ExtractionRequest, PipelineResult, StepResult } from './types.js';
+import { splitIntoChunks, type TextChunk } from './chunker.js';
+import { truncateText, type TruncationResult } from './truncation.js';
+import { mergeChunkResults } from './merger.js';
+import { createPartialTracker } from './partial.js';
+import { resolveEvidence } from './grounding.js';
+import { voteOnResults, type VotedExtraction } from './voting.js';
+import { computeCacheKey, FileCacheStore, isExpired } from './cache.js';
+import { createUsage, priceUsage, addUsage } from './usage.js';
+import { buildSystemPrompt, buildUserPrompt, buildRepairPrompt } from '../llm/prompt-builder.js';
+import { TokenCounter } from '../llm/token-counter.js';
+import { loadTokenizer } from '../llm/tokenizer.js';
+import type { ExtractionResponse, LLMConfig, LLMUsage } from '../llm/types.js';
+import type {
+    CacheEntry,
+    CacheStore,
+    ExtractionRequest,
+    ExtractionStreamEvent,
+    ExtractionUsage,
+    FallbackAttempt,
+    FallbackReason,
+    PipelineResult,
+    StepResult,
+} from './types.js';
+
+/**
+ * Default number of tokens shared between consecutive chunks
+ */
+const DEFAULT_CHUNK_OVERLAP_TOKENS = 200;
+
+/**
+ * Default number of repair requests per extraction
+ */
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+/**
+ * LLM error codes that move a fallback chain on to the next model
+ */
+const FALLBACK_LLM_ERRORS: string[] = [
+    LLMErrorCodes.NETWORK_ERROR,
+    LLMErrorCodes.TIMEOUT,
+    LLMErrorCodes.RATE_LIMIT,
+    LLMErrorCodes.API_ERROR,
+    LLMErrorCodes.INVALID_RESPONSE,
+];
+
+/**
+ * Default number of samples when voting
+ */
+const DEFAULT_VOTING_SAMPLES = 3;
+
+/**
+ * Resolved voting options
+ */
+interface VotingState {
+    samples: number;
+    confidence: 'replace' | 'blend';
+    /** Client used for the samples (differs from the main client when a sampling temperature is set) */
+    client: LLMClient;
+}
+
+/**
+ * Repair attempt budget for one extraction
+ */
+interface RepairState {
+    maxAttempts: number;
+    used: number;
+}
+
+/**
+ * Resolved caching options
+ */
+interface CacheState {
+    store: CacheStore;
+    key: string;
+    ttl?: number;
+    refresh: boolean;
+}
+
+/**
+ * Run details reported in result metadata
+ */
+type RunInfo = Pick<PipelineResult['metadata'], 'chunks' | 'truncation' | 'repairAttempts' | 'samples' | 'cached'> & {
+    /** Usage totals of the clients calling the model, updated as their requests complete */
+    usage?: Array<Readonly<LLMUsage>>;
+};
 
 /**
  * Main extraction pipeline
@@ -21,104 +106,182 @@ export class ExtractionPipeline {
 
     /**
      * Executes complete extraction pipeline
+     *
+     * With a list of LLM configs, each model is tried in order until one
+     * produces an acceptable result (see `getFallbackReason`); the last
+     * model's result is returned if none does.
      */
     async extract(request: ExtractionRequest): Promise<PipelineResult> {
         const startTime = Date.now();
         const steps: StepResult[] = [];
+        const configs = Array.isArray(request.llmConfig) ? request.llmConfig : [request.llmConfig];
 
-        try {
-            // Step 0: Preprocess input (if configured)
-            let processedInput = request.input;
-            if (request.preprocessing) {
-                const preprocessStep = this.recordStep('preprocess', () => {
-                    return preprocessWithDetails(request.input, request.preprocessing);
-                });
-                steps.push(preprocessStep);
+        // Step 0: Preprocess input (if configured)
+        let processedInput = request.input;
+        if (request.preprocessing) {
+            const preprocessStep = this.recordStep('preprocess', () => {
+                return preprocessWithDetails(request.input, request.preprocessing);
+            });
+            steps.push(preprocessStep);
 
-                if (preprocessStep.success && preprocessStep.data) {
-                    const result = preprocessStep.data as { text: string; wasProcessed: boolean };
-                    processedInput = result.text;
-                }
+            if (preprocessStep.success && preprocessStep.data) {
+                const result = preprocessStep.data as { text: string; wasProcessed: boolean };
+                processedInput = result.text;
             }
+        }
 
-            // Step 1: Create LLM client
-            // Merge top-level maxContextTokens into llmConfig (top-level takes precedence)
-            const mergedLLMConfig = request.maxContextTokens
-                ? { ...request.llmConfig, maxContextTokens: request.maxContextTokens }
-                : request.llmConfig;
+        if (configs.length === 0) {
+            return {
+                success: false,
+                meetsThreshold: false,
+                errors: [{ message: 'No LLM configuration given', code: PipelineErrorCodes.LLM_ERROR }],
+                steps: this.debug ? steps : undefined,
+                metadata: {
+                    duration: Date.now() - startTime,
+                    schemaName: request.schema.metadata?.name,
+                },
+            };
+        }
 
-            const clientStep = this.recordStep('create_client', () => {
-                return new LLMClient(mergedLLMConfig);
+        if (configs.length === 1) {
+            return this.extractWithModel(request, configs[0], processedInput, startTime, steps);
+        }
+
+        const attempts: FallbackAttempt[] = [];
+        let usage: ExtractionUsage | undefined;
+        for (let i = 0; i < configs.length; i++) {
+            const attemptStart = Date.now();
+            const result = await this.extractWithModel(request, configs[i], processedInput, startTime, steps);
+            const reason = this.getFallbackReason(result);
+            if (result.metadata.usage) {
+                usage = addUsage(usage ?? createUsage(), result.metadata.usage);
+            }
+
+            attempts.push({ model: configs[i].model, success: result.success, ...(reason && { reason }) });
+            steps.push({
+                step: `fallback:${configs[i].model}`,
+                success: !reason,
+                data: { model: configs[i].model, reason },
+                duration: Date.now() - attemptStart,
             });
-            steps.push(clientStep);
 
-            if (!clientStep.success) {
-                throw new PipelineError(
-                    'Failed to create LLM client',
-                    PipelineErrorCodes.LLM_ERROR,
-                    'create_client'
-                );
+            if (!reason || i === configs.length - 1) {
+                result.metadata.attempts = attempts;
+                if (usage) {
+                    // Every model tried counts, not just the one whose result is returned
+                    result.metadata.usage = usage;
+                }
+                return result;
             }
+        }
 
-            const client = clientStep.data as LLMClient;
+        // Unreachable: the last attempt always returns
+        throw new Error('Fallback chain ended without a result');
+    }
 
-            // Step 2: Call LLM for extraction
-            const extractStep = await this.recordStepAsync('llm_extract', async () => {
-                return await client.extract({
-                    schema: request.schema,
-                    input: processedInput,
-                });
-            });
-            steps.push(extractStep);
+    /**
+     * Decides whether a fallback chain should try the next model
+     *
+     * @returns The reason to escalate, or undefined to keep the result
+     */
+    private getFallbackReason(result: PipelineResult): FallbackReason | undefined {
+        if (result.success) {
+            return result.meetsThreshold ? undefined : 'low_confidence';
+        }
 
-            if (!extractStep.success || !extractStep.data) {
-                throw new PipelineError(
-                    'LLM extraction failed',
-                    PipelineErrorCodes.LLM_ERROR,
-                    'llm_extract',
-                    { error: extractStep.error }
-                );
+        const [error] = result.errors;
+        if (!error || error.code === 'UNKNOWN_ERROR') {
+            return undefined;
+        }
+        if (error.code === PipelineErrorCodes.CONFIDENCE_ERROR) {
+            return 'low_confidence';
+        }
+        if (error.code === PipelineErrorCodes.LLM_ERROR) {
+            // Configuration errors (authentication, unknown provider) are not escalated
+            const cause = error.details?.error;
+            if (!(cause instanceof LLMError)) {
+                return undefined;
+            }
+            if (cause.code === LLMErrorCodes.TOKEN_LIMIT_EXCEEDED) {
+                return 'token_limit';
             }
+            return FALLBACK_LLM_ERRORS.includes(cause.code) ? 'llm_error' : undefined;
+        }
 
-            const extraction = extractStep.data as {
-                data: Record<string, unknown>;
-                confidence: number;
-                confidenceByField: Record<string, number>;
-            };
+        return 'validation';
+    }
 
-            // Step 3: Validate extracted data
-            const validateStep = this.recordStep('validate_data', () => {
-                return validateExtractedData(extraction.data, request.schema);
-            });
-            steps.push(validateStep);
+    /**
+     * Runs the pipeline with one model
+     */
+    private async extractWithModel(
+        request: ExtractionRequest,
+        llmConfig: LLMConfig,
+        processedInput: string,
+        startTime: number,
+        steps: StepResult[]
+    ): Promise<PipelineResult> {
+        const info: RunInfo = {};
+        const repair = this.resolveRepair(request.repair);
 
-            const validation = validateStep.data as { 
-                valid: boolean; 
-                errors: Array<{ field: string; message: string; code: string }>;
-                warnings?: CoercionWarning[];
-                coercedData?: Record<string, unknown>;
-            };
+        try {
+            // Merge top-level maxContextTokens into llmConfig (top-level takes precedence)
+            const mergedLLMConfig = request.maxContextTokens
+                ? { ...llmConfig, maxContextTokens: request.maxContextTokens }
+                : llmConfig;
+
+            // Step 1: Reuse a cached extraction, or call the model
+            const cache = this.resolveCache(request, mergedLLMConfig, processedInput);
+            const cached = cache && !cache.refresh ? await this.readCache(cache, steps) : undefined;
+
+            let extraction: ExtractionResponse;
+            let validation: ValidationResult;
+            let votes: PipelineResult['votes'];
+            if (cached) {
+                extraction = cached.extraction;
+                votes = cached.votes;
+                Object.assign(info, cached.info);
+                // No model was called, so the cached result costs nothing
+                info.usage = [];
+                validation = this.validate(extraction, request, steps);
+            } else {
+                ({ extraction, validation, votes } = await this.runModel(
+                    request,
+                    mergedLLMConfig,
+                    processedInput,
+                    steps,
+                    info,
+                    repair
+                ));
+
+                // Only extractions that pass validation are worth reusing
+                if (cache && validation.valid) {
+                    const { usage: _usage, ...runInfo } = info;
+                    await this.writeCache(cache, { extraction, votes, info: runInfo, createdAt: Date.now() }, steps);
+                }
+            }
+            if (cache) {
+                info.cached = cached !== undefined;
+            }
 
             // Use coerced data for output
             const outputData = validation.coercedData ?? extraction.data;
 
             if (!validation.valid) {
-                const duration = Date.now() - startTime;
                 return {
                     success: false,
                     meetsThreshold: false,
                     errors: validation.errors,
                     warnings: validation.warnings,
                     steps: this.debug ? steps : undefined,
-                    metadata: {
-                        duration,
-                        model: request.llmConfig.model,
-                        schemaName: request.schema.metadata?.name,
-                    },
+                    metadata: this.buildMetadata(request, llmConfig, startTime, info),
                 };
             }
 
-            // Step 4: Check confidence threshold
+            // Step 2: Locate evidence quotes in the input (grounding mode)
+            const evidence = this.ground(request, processedInput, outputData, extraction, steps);
+
+            // Step 3: Check confidence threshold
             const confidenceStep = this.recordStep('check_confidence', () => {
                 if (!request.schema.confidence) {
                     return { meetsThreshold: true };
@@ -137,7 +300,6 @@ export class ExtractionPipeline {
             const confidenceCheck = confidenceStep.data as { meetsThreshold: boolean; shouldFail?: boolean };
 
             if (confidenceCheck.shouldFail) {
-                const duration = Date.now() - startTime;
                 return {
                     success: false,
                     data: outputData,
@@ -151,17 +313,14 @@ export class ExtractionPipeline {
                         },
                     ],
                     warnings: validation.warnings,
+                    evidence,
+                    votes,
                     steps: this.debug ? steps : undefined,
-                    metadata: {
-                        duration,
-                        model: request.llmConfig.model,
-                        schemaName: request.schema.metadata?.name,
-                    },
+                    metadata: this.buildMetadata(request, llmConfig, startTime, info),
                 };
             }
 
             // Success!
-            const duration = Date.now() - startTime;
             return {
                 success: true,
                 data: outputData,
@@ -170,16 +329,12 @@ export class ExtractionPipeline {
                 meetsThreshold: confidenceCheck.meetsThreshold,
                 errors: [],
                 warnings: validation.warnings,
+                evidence,
+                votes,
                 steps: this.debug ? steps : undefined,
-                metadata: {
-                    duration,
-                    model: request.llmConfig.model,
-                    schemaName: request.schema.metadata?.name,
-                },
+                metadata: this.buildMetadata(request, llmConfig, startTime, info),
             };
         } catch (error) {
-            const duration = Date.now() - startTime;
-
             if (error instanceof PipelineError) {
                 return {
                     success: false,
@@ -192,11 +347,7 @@ export class ExtractionPipeline {
                         },
                     ],
                     steps: this.debug ? steps : undefined,
-                    metadata: {
-                        duration,
-                        model: request.llmConfig.model,
-                        schemaName: request.schema.metadata?.name,
-                    },
+                    metadata: this.buildMetadata(request, llmConfig, startTime, info),
                 };
             }
 
@@ -210,15 +361,648 @@ export class ExtractionPipeline {
                     },
                 ],
                 steps: this.debug ? steps : undefined,
-                metadata: {
-                    duration,
-                    model: request.llmConfig.model,
-                    schemaName: request.schema.metadata?.name,
-                },
+                metadata: this.buildMetadata(request, llmConfig, startTime, info),
             };
         }
     }
 
+    /**
+     * Executes the pipeline with a streamed LLM response
+     *
+     * Yields a `partial` event each time top-level fields complete (see
+     * `ExtractionRequest.onPartial`) and a final `result` event with the
+     * same result `extract()` returns. Errors `extract()` throws are thrown
+     * from the generator after the partials that preceded them.
+     */
+    async *extractStream(request: ExtractionRequest): AsyncGenerator<ExtractionStreamEvent> {
+        const queue: Array<ExtractionStreamEvent | { type: 'error'; error: unknown }> = [];
+        let wake: (() => void) | undefined;
+        const push = (event: (typeof queue)[number]) => {
+            queue.push(event);
+            wake?.();
+        };
+
+        void this.extract({
+            ...request,
+            onPartial: (partial) => {
+                request.onPartial?.(partial);
+                push({ type: 'partial', partial });
+            },
+        }).then(
+            result => push({ type: 'result', result }),
+            error => push({ type: 'error', error })
+        );
+
+        while (true) {
+            const event = queue.shift();
+            if (!event) {
+                await new Promise<void>(resolve => { wake = resolve; });
+                continue;
+            }
+
+            if (event.type === 'error') {
+                throw event.error;
+            }
+            yield event;
+            if (event.type === 'result') {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Calls the model and validates its extraction, asking it to fix
+     * validation errors when repair is enabled
+     */
+    private async runModel(
+        request: ExtractionRequest,
+        llmConfig: LLMConfig,
+        processedInput: string,
+        steps: StepResult[],
+        info: RunInfo,
+        repair: RepairState | null
+    ): Promise<{ extraction: ExtractionResponse; validation: ValidationResult; votes: PipelineResult['votes'] }> {
+        // Create LLM client
+        const clientStep = this.recordStep('create_client', () => {
+            return new LLMClient(llmConfig);
+        });
+        steps.push(clientStep);
+
+        if (!clientStep.success) {
+            throw new PipelineError(
+                'Failed to create LLM client',
+                PipelineErrorCodes.LLM_ERROR,
+                'create_client'
+            );
+        }
+
+        const client = clientStep.data as LLMClient;
+        const voting = this.resolveVoting(request.voting, client, llmConfig);
+        info.usage = voting && voting.client !== client ? [client.usage, voting.client.usage] : [client.usage];
+
+        // Trim the input to the token budget if truncation is enabled
+        const modelInput = await this.truncateInput(request, llmConfig, processedInput, steps, info);
+
+        // Call LLM for extraction (once per chunk when chunking applies,
+        // several times per input or chunk when voting)
+        let extraction = await this.extractFromInput(
+            client,
+            request,
+            llmConfig,
+            modelInput,
+            steps,
+            info,
+            repair,
+            voting
+        );
+        const votes = voting && !info.chunks ? (extraction as VotedExtraction).votes : undefined;
+
+        // Validate extracted data
+        let validation = this.validate(extraction, request, steps);
+
+        // Ask the model to fix validation errors (single-pass extractions only)
+        while (!validation.valid && repair && !info.chunks && repair.used < repair.maxAttempts) {
+            const repairStep = await this.callExtract(
+                client,
+                request,
+                modelInput,
+                'llm_extract',
+                steps,
+                repair,
+                {
+                    content: JSON.stringify({
+                        data: extraction.data,
+                        confidence: extraction.confidence,
+                        confidenceByField: extraction.confidenceByField,
+                        ...(extraction.evidence && { evidence: extraction.evidence }),
+                    }),
+                    problems: formatValidationErrors(validation.errors, request.schema),
+                }
+            );
+            info.repairAttempts = repair.used;
+
+            if (!repairStep.success || !repairStep.data) {
+                // Keep the original validation failure if the repair request itself fails
+                break;
+            }
+
+            // Keep agreement-based confidence; the repair only fixes values
+            const repaired = repairStep.data as ExtractionResponse;
+            extraction = voting
+                ? { ...repaired, confidence: extraction.confidence, confidenceByField: extraction.confidenceByField }
+                : repaired;
+            validation = this.validate(extraction, request, steps);
+        }
+
+        return { extraction, validation, votes };
+    }
+
+    /**
+     * Runs LLM extraction over the input, splitting it into chunks and
+     * merging the per-chunk results when chunking is enabled and needed
+     */
+    private async extractFromInput(
+        client: LLMClient,
+        request: ExtractionRequest,
+        llmConfig: LLMConfig,
+        input: string,
+        steps: StepResult[],
+        info: RunInfo,
+        repair: RepairState | null,
+        voting: VotingState | null
+    ): Promise<ExtractionResponse> {
+        const chunks = await this.planChunks(request, llmConfig, input, steps);
+
+        if (!chunks) {
+            const extractStep = await this.sampleExtract(
+                client,
+                request,
+                input,
+                'llm_extract',
+                steps,
+                repair,
+                voting,
+                info
+            );
+            this.updateRepairInfo(info, repair);
+
+            if (!extractStep.success || !extractStep.data) {
+                throw new PipelineError(
+                    'LLM extraction failed',
+                    PipelineErrorCodes.LLM_ERROR,
+                    extractStep.step,
+                    { error: extractStep.error }
+                );
+            }
+
+            return extractStep.data as ExtractionResponse;
+        }
+
+        info.chunks = chunks.length;
+        const results: ExtractionResponse[] = [];
+        let repairsUsed = 0;
+        for (let i = 0; i < chunks.length; i++) {
+            // Each chunk gets its own repair budget
+            const chunkRepair = repair ? { maxAttempts: repair.maxAttempts, used: 0 } : null;
+            const extractStep = await this.sampleExtract(
+                client,
+                request,
+                chunks[i].text,
+                `llm_extract:chunk_${i + 1}`,
+                steps,
+                chunkRepair,
+                voting,
+                info
+            );
+            repairsUsed += chunkRepair?.used ?? 0;
+            if (repairsUsed > 0) {
+                info.repairAttempts = repairsUsed;
+            }
+
+            if (!extractStep.success || !extractStep.data) {
+                throw new PipelineError(
+                    `LLM extraction failed for chunk ${i + 1} of ${chunks.length}`,
+                    PipelineErrorCodes.LLM_ERROR,
+                    extractStep.step,
+                    { error: extractStep.error, chunk: i + 1, chunks: chunks.length }
+                );
+            }
+
+            results.push(extractStep.data as ExtractionResponse);
+        }
+
+        const mergeStep = this.recordStep('merge_chunks', () => {
+            return mergeChunkResults(results, request.schema);
+        });
+        steps.push(mergeStep);
+
+        if (!mergeStep.success) {
+            throw new PipelineError(
+                'Failed to merge chunk results',
+                PipelineErrorCodes.LLM_ERROR,
+                'merge_chunks',
+                { error: mergeStep.error }
+            );
+        }
+
+        return mergeStep.data as ExtractionResponse;
+    }
+
+    /**
+     * Runs one extraction, or when voting, several samples combined by a
+     * per-field vote. Samples share the repair budget; failed samples are
+     * left out of the vote, and the step fails only if all samples fail.
+     */
+    private async sampleExtract(
+        client: LLMClient,
+        request: ExtractionRequest,
+        input: string,
+        stepName: string,
+        steps: StepResult[],
+        repair: RepairState | null,
+        voting: VotingState | null,
+        info: RunInfo
+    ): Promise<StepResult> {
+        if (!voting) {
+            return this.callExtract(client, request, input, stepName, steps, repair);
+        }
+
+        const samples: ExtractionResponse[] = [];
+        let failure: StepResult | undefined;
+        for (let i = 1; i <= voting.samples; i++) {
+            const sampleStep = await this.callExtract(
+                voting.client,
+                request,
+                input,
+                `${stepName}:sample_${i}`,
+                steps,
+                repair
+            );
+            if (sampleStep.success && sampleStep.data) {
+                samples.push(sampleStep.data as ExtractionResponse);
+            } else {
+                failure = sampleStep;
+            }
+        }
+
+        if (samples.length === 0) {
+            return failure!;
+        }
+
+        // With chunking, report the smallest number of samples any chunk was voted on
+        info.samples = Math.min(info.samples ?? samples.length, samples.length);
+
+        const voteStep = this.recordStep(`${stepName}:vote`, () => {
+            return voteOnResults(samples, request.schema, voting.confidence);
+        });
+        steps.push(voteStep);
+        return voteStep;
+    }
+
+    /**
+     * Calls the LLM once, then re-asks the model to fix unparseable
+     * responses while repair attempts remain.
+     *
+     * When `previous` is given, the call itself is a repair request: the
+     * previous assistant output and its problems are sent as follow-up turns.
+     */
+    private async callExtract(
+        client: LLMClient,
+        request: ExtractionRequest,
+        input: string,
+        stepName: string,
+        steps: StepResult[],
+        repair: RepairState | null,
+        previous?: { content: string; problems: string }
+    ): Promise<StepResult> {
+        let pending = previous;
+        let step: StepResult;
+
+        while (true) {
+            const repairTurn = pending;
+            if (repairTurn && repair) {
+                repair.used++;
+            }
+
+            const name = repairTurn && repair ? `${stepName}:repair_${repair.used}` : stepName;
+            step = await this.recordStepAsync(name, async () => {
+                return await client.extract({
+                    schema: request.schema,
+                    input,
+                    grounding: request.grounding,
+                    history: repairTurn && [
+                        { role: 'assistant', content: repairTurn.content },
+                        { role: 'user', content: buildRepairPrompt(repairTurn.problems) },
+                    ],
+                    onProgress: request.onPartial && createPartialTracker(name, request.onPartial),
+                });
+            });
+            steps.push(step);
+
+            const error = step.error;
+            if (
+                step.success ||
+                !repair ||
+                repair.used >= repair.maxAttempts ||
+                !(error instanceof LLMError) ||
+                error.code !== LLMErrorCodes.INVALID_RESPONSE
+            ) {
+                return step;
+            }
+
+            pending = {
+                content: String(error.details?.content ?? ''),
+                problems: error.message,
+            };
+        }
+    }
+
+    /**
+     * Validates extracted data against the schema (with coercion)
+     */
+    private validate(
+        extraction: ExtractionResponse,
+        request: ExtractionRequest,
+        steps: StepResult[]
+    ): ValidationResult {
+        const validateStep = this.recordStep('validate_data', () => {
+            return validateExtractedData(extraction.data, request.schema);
+        });
+        steps.push(validateStep);
+
+        if (!validateStep.success) {
+            throw new PipelineError(
+                'Failed to validate extracted data',
+                PipelineErrorCodes.VALIDATION_ERROR,
+                'validate_data',
+                { error: validateStep.error }
+            );
+        }
+
+        return validateStep.data as ValidationResult;
+    }
+
+    /**
+     * Resolves the model's evidence quotes to offsets in the input
+     * (only in grounding mode)
+     */
+    private ground(
+        request: ExtractionRequest,
+        input: string,
+        data: Record<string, unknown>,
+        extraction: ExtractionResponse,
+        steps: StepResult[]
+    ): PipelineResult['evidence'] {
+        if (!request.grounding) {
+            return undefined;
+        }
+
+        const groundStep = this.recordStep('ground_evidence', () => {
+            return resolveEvidence(input, request.schema, data, extraction.evidence);
+        });
+        steps.push(groundStep);
+
+        return groundStep.data as PipelineResult['evidence'];
+    }
+
+    /**
+     * Resolves voting configuration, creating a separate client for the
+     * samples when a sampling temperature is set
+     */
+    private resolveVoting(
+        config: ExtractionRequest['voting'],
+        client: LLMClient,
+        llmConfig: LLMConfig
+    ): VotingState | null {
+        if (!config) {
+            return null;
+        }
+
+        const options = config === true ? {} : config;
+        return {
+            samples: Math.max(1, options.samples ?? DEFAULT_VOTING_SAMPLES),
+            confidence: options.confidence ?? 'replace',
+            client: options.temperature !== undefined
+                ? new LLMClient({ ...llmConfig, temperature: options.temperature })
+                : client,
+        };
+    }
+
+    /**
+     * Resolves caching configuration and the cache key for this model
+     * (default store: FileCacheStore in the user cache directory)
+     */
+    private resolveCache(request: ExtractionRequest, llmConfig: LLMConfig, input: string): CacheState | null {
+        if (!request.cache) {
+            return null;
+        }
+
+        const options = request.cache === true ? {} : request.cache;
+        return {
+            store: options.store ?? new FileCacheStore(),
+            key: computeCacheKey({
+                input,
+                schema: request.schema,
+                prompt: buildSystemPrompt(request.schema, { grounding: request.grounding }),
+                llmConfig,
+                options: {
+                    chunking: request.chunking,
+                    repair: request.repair,
+                    grounding: request.grounding,
+                    voting: request.voting,
+                    truncation: request.truncation,
+                },
+            }),
+            ttl: options.ttl,
+            refresh: options.refresh ?? false,
+        };
+    }
+
+    /**
+     * Looks up a cached extraction; expired entries are removed and
+     * store errors count as a miss
+     */
+    private async readCache(cache: CacheState, steps: StepResult[]): Promise<CacheEntry | undefined> {
+        const { key } = cache;
+        let entry: CacheEntry | undefined;
+        const lookupStep = await this.recordStepAsync('cache_lookup', async () => {
+            entry = await cache.store.get(key);
+            if (entry && isExpired(entry, cache.ttl)) {
+                entry = undefined;
+                await cache.store.delete(key);
+                return { key, hit: false, expired: true };
+            }
+            return { key, hit: entry !== undefined };
+        });
+        steps.push(lookupStep);
+
+        return lookupStep.success ? entry : undefined;
+    }
+
+    /**
+     * Stores an extraction; a failed write does not fail the extraction
+     */
+    private async writeCache(cache: CacheState, entry: CacheEntry, steps: StepResult[]): Promise<void> {
+        const storeStep = await this.recordStepAsync('cache_store', async () => {
+            await cache.store.set(cache.key, entry);
+            return { key: cache.key };
+        });
+        steps.push(storeStep);
+    }
+
+    /**
+     * Resolves repair configuration into a mutable attempt counter
+     */
+    private resolveRepair(config: ExtractionRequest['repair']): RepairState | null {
+        if (!config) {
+            return null;
+        }
+
+        const options = config === true ? {} : config;
+        return {
+            maxAttempts: options.maxAttempts ?? DEFAULT_REPAIR_ATTEMPTS,
+            used: 0,
+        };
+    }
+
+    /**
+     * Records the number of repair requests sent so far
+     */
+    private updateRepairInfo(info: RunInfo, repair: RepairState | null): void {
+        if (repair && repair.used > 0) {
+            info.repairAttempts = repair.used;
+        }
+    }
+
+    /**
+     * Builds result metadata
+     */
+    private buildMetadata(
+        request: ExtractionRequest,
+        llmConfig: LLMConfig,
+        startTime: number,
+        info: RunInfo
+    ): PipelineResult['metadata'] {
+        const { usage, ...runInfo } = info;
+        return {
+            duration: Date.now() - startTime,
+            model: llmConfig.model,
+            schemaName: request.schema.metadata?.name,
+            ...runInfo,
+            ...(usage && {
+                usage: priceUsage(usage.reduce(addUsage, createUsage()), request.pricing?.[llmConfig.model]),
+            }),
+        };
+    }
+
+    /**
+     * Returns a token counter for the model and the input tokens left after
+     * the system prompt, output reservation and user prompt wrapper (in
+     * total, and before the client warns about the budget)
+     */
+    private async getInputBudget(
+        request: ExtractionRequest,
+        llmConfig: LLMConfig
+    ): Promise<{ counter: TokenCounter; maxInputTokens: number; quietInputTokens: number }> {
+        const counter = new TokenCounter({
+            maxContextTokens: llmConfig.maxContextTokens,
+            tokenBudget: llmConfig.tokenBudget,
+            warnThreshold: llmConfig.warnThreshold,
+            tokenizer: await loadTokenizer(llmConfig.tokenizer),
+        });
+        const promptOverhead = counter.countTokens(buildUserPrompt(''));
+        const systemPrompt = buildSystemPrompt(request.schema, { grounding: request.grounding });
+
+        return {
+            counter,
+            maxInputTokens: counter.getInputBudget(systemPrompt) - promptOverhead,
+            quietInputTokens: counter.getQuietInputBudget(systemPrompt) - promptOverhead,
+        };
+    }
+
+    /**
+     * Trims the input to the token budget if truncation is enabled (and
+     * chunking is not), recording what was dropped
+     */
+    private async truncateInput(
+        request: ExtractionRequest,
+        llmConfig: LLMConfig,
+        input: string,
+        steps: StepResult[],
+        info: RunInfo
+    ): Promise<string> {
+        if (!request.truncation || request.chunking) {
+            return input;
+        }
+
+        const { counter, maxInputTokens } = await this.getInputBudget(request, llmConfig);
+        const originalTokens = counter.countTokens(input);
+
+        // Nothing to trim: input fits, or the system prompt alone leaves no
+        // room (the client reports that as a token limit error)
+        if (maxInputTokens <= 0 || originalTokens <= maxInputTokens) {
+            return input;
+        }
+
+        const strategy = request.truncation;
+        const truncateStep = this.recordStep('truncate_input', () => {
+            return truncateText(input, {
+                strategy,
+                maxTokens: maxInputTokens,
+                schema: request.schema,
+                countTokens: text => counter.countTokens(text),
+            });
+        });
+        steps.push(truncateStep);
+
+        if (!truncateStep.success) {
+            throw new PipelineError(
+                'Failed to truncate input',
+                PipelineErrorCodes.LLM_ERROR,
+                'truncate_input',
+                { error: truncateStep.error }
+            );
+        }
+
+        const truncated = truncateStep.data as TruncationResult;
+        info.truncation = {
+            strategy,
+            originalTokens,
+            keptTokens: counter.countTokens(truncated.text),
+            dropped: truncated.dropped,
+        };
+        return truncated.text;
+    }
+
+    /**
+     * Splits the input into chunks if chunking is enabled and the input
+     * does not fit the token budget. Returns null for single-pass extraction.
+     */
+    private async planChunks(
+        request: ExtractionRequest,
+        llmConfig: LLMConfig,
+        input: string,
+        steps: StepResult[]
+    ): Promise<TextChunk[] | null> {
+        if (!request.chunking) {
+            return null;
+        }
+
+        const options = request.chunking === true ? {} : request.chunking;
+        const { counter, maxInputTokens, quietInputTokens } = await this.getInputBudget(request, llmConfig);
+        const limit = options.maxChunkTokens ?? maxInputTokens;
+
+        // Nothing to gain from chunking: input fits, or the system prompt alone
+        // leaves no room (the client reports that as a token limit error)
+        if (limit <= 0 || counter.countTokens(input) <= limit) {
+            return null;
+        }
+
+        // Default chunks stay below the warning threshold, so the client does
+        // not warn about the budget for every chunk request
+        const maxChunkTokens = options.maxChunkTokens ?? (quietInputTokens > 0 ? quietInputTokens : maxInputTokens);
+
+        const chunkStep = this.recordStep('chunk_input', () => {
+            return splitIntoChunks(input, {
+                maxTokens: maxChunkTokens,
+                overlapTokens: options.overlapTokens ?? DEFAULT_CHUNK_OVERLAP_TOKENS,
+                countTokens: text => counter.countTokens(text),
+            });
+        });
+        steps.push(chunkStep);
+
+        if (!chunkStep.success) {
+            throw new PipelineError(
+                'Failed to split input into chunks',
+                PipelineErrorCodes.LLM_ERROR,
+                'chunk_input',
+                { error: chunkStep.error }
+            );
+        }
+
+        return chunkStep.data as TextChunk[];
+    }
+
     /**
      * Records a synchronous step
      */
@@ -277,3 +1061,11 @@ export async function extract(request: ExtractionRequest): Promise<PipelineResul
     const pipeline = new ExtractionPipeline(request.debug);
     return await pipeline.extract(request);
 }
+
+/**
+ * Convenience function to run extraction with a streamed response
+ */
+export function extractStream(request: ExtractionRequest): AsyncGenerator<ExtractionStreamEvent> {
+    const pipeline = new ExtractionPipeline(request.debug);
+    return pipeline.extractStream(request);
+}
@@ -0,0 +1,280 @@
+/**
+ * Input truncation module
+ * Trims oversized inputs to a token budget instead of failing the extraction
+ */
+
+import { estimateTokens } from '../llm/token-counter.js';
+import type { Schema, ObjectProperties, FieldDefinition } from '../schemas/types.js';
+import type { TruncationStrategy } from './types.js';
+
+/**
+ * Inserted where text was dropped between two kept parts of the input
+ */
+export const TRUNCATION_MARKER = '\n\n[...]\n\n';
+
+/**
+ * Description words too common to say anything about a paragraph
+ */
+const STOP_WORDS = new Set([
+    'about', 'also', 'been', 'from', 'have', 'into', 'more', 'must', 'only', 'other',
+    'should', 'such', 'than', 'that', 'their', 'there', 'these', 'this', 'when',
+    'where', 'which', 'will', 'with', 'would', 'your',
+]);
+
+/**
+ * A range of the input as character offsets
+ */
+export interface TextRange {
+    /** Start offset (inclusive) */
+    start: number;
+    /** End offset (exclusive) */
+    end: number;
+}
+
+/**
+ * Options for truncating text
+ */
+export interface TruncateOptions {
+    strategy: TruncationStrategy;
+    /** Maximum tokens of the truncated text, markers included */
+    maxTokens: number;
+    /** Schema whose field names and descriptions rank paragraphs (`relevant` strategy) */
+    schema?: Schema;
+    /** Token counting function (default: estimateTokens) */
+    countTokens?: (text: string) => number;
+}
+
+/**
+ * Truncated text with the parts of the input it keeps and drops
+ */
+export interface TruncationResult {
+    text: string;
+    /** Kept ranges, in input order */
+    kept: TextRange[];
+    /** Dropped ranges, in input order */
+    dropped: TextRange[];
+}
+
+/**
+ * Returns the largest prefix end that fits the token limit, cut after
+ * whitespace when that does not lose more than half of the prefix
+ */
+function fitPrefix(text: string, maxTokens: number, countTokens: (text: string) => number): number {
+    if (countTokens(text) <= maxTokens) {
+        return text.length;
+    }
+
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (countTokens(text.slice(0, middle)) <= maxTokens) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+
+    const lastSpace = text.slice(0, low).search(/\s\S*$/);
+    return lastSpace > low / 2 ? lastSpace + 1 : low;
+}
+
+/**
+ * Returns the smallest suffix start that fits the token limit, cut before
+ * whitespace when that does not lose more than half of the suffix
+ */
+function fitSuffix(text: string, maxTokens: number, countTokens: (text: string) => number): number {
+    if (countTokens(text) <= maxTokens) {
+        return 0;
+    }
+
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if (countTokens(text.slice(middle)) <= maxTokens) {
+            high = middle;
+        } else {
+            low = middle + 1;
+        }
+    }
+
+    const firstSpace = text.slice(low).search(/\s/);
+    return firstSpace >= 0 && firstSpace < (text.length - low) / 2 ? low + firstSpace : low;
+}
+
+/**
+ * Joins kept ranges, with a marker wherever text between them was dropped
+ */
+function joinRanges(text: string, ranges: TextRange[]): string {
+    return ranges
+        .map((range, i) => (i > 0 && ranges[i - 1].end < range.start ? TRUNCATION_MARKER : '') + text.slice(range.start, range.end))
+        .join('');
+}
+
+/**
+ * Merges ranges separated only by whitespace (such as paragraph breaks
+ * between two kept paragraphs), so no marker or dropped range is reported
+ * where nothing was cut
+ */
+function mergeAdjacent(text: string, ranges: TextRange[]): TextRange[] {
+    const merged: TextRange[] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && text.slice(last.end, range.start).trim() === '') {
+            last.end = range.end;
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+}
+
+/**
+ * Returns the ranges of the input not covered by the kept ranges
+ */
+function complement(length: number, kept: TextRange[]): TextRange[] {
+    const dropped: TextRange[] = [];
+    let position = 0;
+    for (const range of kept) {
+        if (range.start > position) {
+            dropped.push({ start: position, end: range.start });
+        }
+        position = range.end;
+    }
+    if (position < length) {
+        dropped.push({ start: position, end: length });
+    }
+    return dropped;
+}
+
+/**
+ * Collects lowercase search terms from field names (also with `_`, `-`
+ * and camelCase split into words) and description words
+ */
+function collectTerms(properties: ObjectProperties, terms: Set<string>): Set<string> {
+    for (const [name, field] of Object.entries(properties)) {
+        terms.add(name.toLowerCase());
+        terms.add(name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase());
+        collectFieldTerms(field, terms);
+    }
+    return terms;
+}
+
+/**
+ * Collects description words of a field and terms of the fields nested in
+ * it (object properties, array items and oneOf/anyOf alternatives)
+ */
+function collectFieldTerms(field: FieldDefinition, terms: Set<string>): void {
+    for (const word of field.description?.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []) {
+        if (!STOP_WORDS.has(word)) {
+            terms.add(word);
+        }
+    }
+
+    if (field.properties) {
+        collectTerms(field.properties, terms);
+    }
+    if (field.items) {
+        collectFieldTerms(field.items, terms);
+    }
+    for (const alternative of field.oneOf ?? field.anyOf ?? []) {
+        collectFieldTerms(alternative, terms);
+    }
+}
+
+/**
+ * Keeps the paragraphs mentioning the most schema terms, in input order
+ */
+function keepRelevant(
+    text: string,
+    maxTokens: number,
+    schema: Schema | undefined,
+    countTokens: (text: string) => number
+): TextRange[] {
+    const paragraphs: TextRange[] = [];
+    const boundary = /\n\s*\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text)) !== null) {
+        paragraphs.push({ start, end: match.index });
+        start = match.index + match[0].length;
+    }
+    paragraphs.push({ start, end: text.length });
+
+    const terms = [...collectTerms(schema?.fields ?? {}, new Set())];
+    const scores = paragraphs.map(paragraph => {
+        const content = text.slice(paragraph.start, paragraph.end).toLowerCase();
+        return terms.filter(term => content.includes(term)).length;
+    });
+
+    // Highest score first, earlier paragraphs first among equals
+    const ranked = paragraphs
+        .map((paragraph, index) => ({ paragraph, index }))
+        .sort((a, b) => scores[b.index] - scores[a.index] || a.index - b.index);
+
+    let kept: Array<{ paragraph: TextRange; index: number }> = [];
+    for (const candidate of ranked) {
+        const next = [...kept, candidate].sort((a, b) => a.index - b.index);
+        if (countTokens(joinRanges(text, mergeAdjacent(text, next.map(entry => entry.paragraph)))) <= maxTokens) {
+            kept = next;
+        }
+    }
+
+    return mergeAdjacent(text, kept.map(entry => entry.paragraph));
+}
+
+/**
+ * Trims text to fit a token limit
+ *
+ * - `head` keeps the beginning and `tail` the end
+ * - `head_tail` keeps half the budget from each end and drops the middle
+ * - `relevant` ranks paragraphs by how many schema field names and
+ *   description words they mention and keeps the highest ranked that fit,
+ *   in input order (falling back to `head` if no paragraph fits)
+ *
+ * Parts kept from different places are joined with TRUNCATION_MARKER.
+ *
+ * @param text - Input text
+ * @param options - Strategy and token limit
+ * @returns Truncated text, or the text unchanged if it already fits
+ */
+export function truncateText(text: string, options: TruncateOptions): TruncationResult {
+    const countTokens = options.countTokens ?? estimateTokens;
+    const maxTokens = Math.max(0, Math.floor(options.maxTokens));
+
+    if (countTokens(text) <= maxTokens) {
+        return { text, kept: [{ start: 0, end: text.length }], dropped: [] };
+    }
+
+    let kept: TextRange[];
+    switch (options.strategy) {
+        case 'tail':
+            kept = [{ start: fitSuffix(text, maxTokens, countTokens), end: text.length }];
+            break;
+        case 'head_tail': {
+            const budget = Math.max(0, maxTokens - countTokens(TRUNCATION_MARKER));
+            const headEnd = fitPrefix(text, Math.floor(budget / 2), countTokens);
+            const tailStart = fitSuffix(text, budget - countTokens(text.slice(0, headEnd)), countTokens);
+            kept = [{ start: 0, end: headEnd }, { start: Math.max(headEnd, tailStart), end: text.length }];
+            break;
+        }
+        case 'relevant':
+            kept = keepRelevant(text, maxTokens, options.schema, countTokens);
+            if (kept.length === 0) {
+                kept = [{ start: 0, end: fitPrefix(text, maxTokens, countTokens) }];
+            }
+            break;
+        case 'head':
+        default:
+            kept = [{ start: 0, end: fitPrefix(text, maxTokens, countTokens) }];
+            break;
+    }
+
+    kept = kept.filter(range => range.end > range.start);
+    return {
+        text: joinRanges(text, kept),
+        kept,
+        dropped: complement(text.length, kept),
+    };
+}
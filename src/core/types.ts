@@ -3,7 +3,7 @@
  */
 
 import type { Schema } from '../schemas/types.js';
-import type { LLMConfig } from '../llm/types.js';
+import type { ExtractionResponse, LLMConfig, LLMUsage } from '../llm/types.js';
 
 /**
  * HTML stripping options for preprocessing
@@ -27,6 +27,133 @@ export interface PreprocessingConfig {
     stripHtml?: boolean | HtmlStripOptions;
 }
 
+/**
+ * Chunking configuration for inputs that exceed the token budget
+ */
+export interface ChunkingConfig {
+    /** Maximum input tokens per chunk (default: context left after system prompt and output reservation, kept below `warnThreshold`) */
+    maxChunkTokens?: number;
+    /** Tokens of overlap between consecutive chunks (default: 200) */
+    overlapTokens?: number;
+}
+
+/**
+ * How inputs that exceed the token budget are trimmed
+ *
+ * - `head`: keep the beginning
+ * - `tail`: keep the end
+ * - `head_tail`: keep the beginning and the end, dropping the middle
+ * - `relevant`: keep the paragraphs mentioning the most schema field names and description words
+ */
+export type TruncationStrategy = 'head' | 'tail' | 'head_tail' | 'relevant';
+
+/**
+ * What input truncation removed
+ */
+export interface TruncationReport {
+    strategy: TruncationStrategy;
+    /** Input tokens before truncation */
+    originalTokens: number;
+    /** Input tokens sent to the model (including markers for dropped text) */
+    keptTokens: number;
+    /** Dropped parts of the preprocessed input, as character offsets (end exclusive) */
+    dropped: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Price of a model per million tokens (in whatever currency the table uses)
+ */
+export interface ModelPrice {
+    /** Price per million prompt tokens */
+    input: number;
+    /** Price per million completion tokens */
+    output: number;
+}
+
+/**
+ * Prices by model name (as set in `LLMConfig.model`)
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Token usage of an extraction, with its cost when the model has a price
+ */
+export interface ExtractionUsage extends LLMUsage {
+    /** Cost of the prompt and completion tokens (only set when every model used has a price and every request reported usage) */
+    cost?: number;
+}
+
+/**
+ * Repair configuration for re-asking the model to fix invalid responses
+ */
+export interface RepairConfig {
+    /** Maximum follow-up requests per extraction (default: 2) */
+    maxAttempts?: number;
+}
+
+/**
+ * Self-consistency voting configuration
+ */
+export interface VotingConfig {
+    /** Number of extractions to run and vote on (default: 3) */
+    samples?: number;
+    /** Sampling temperature for the extractions (default: llmConfig.temperature) */
+    temperature?: number;
+    /**
+     * How agreement between samples becomes field confidence: 'replace' uses the
+     * agreement alone (default), 'blend' averages it with the model's own score
+     */
+    confidence?: 'replace' | 'blend';
+}
+
+/**
+ * Cached model extraction
+ */
+export interface CacheEntry {
+    /** Extraction returned by the model (after repair, chunk merging and voting) */
+    extraction: ExtractionResponse;
+    /** Vote breakdown, if the extraction was voted on */
+    votes?: Record<string, FieldVote>;
+    /** Run details of the extraction that produced the entry */
+    info?: Pick<PipelineResult['metadata'], 'chunks' | 'truncation' | 'repairAttempts' | 'samples'>;
+    /** When the entry was written (milliseconds since the epoch) */
+    createdAt: number;
+}
+
+/**
+ * Storage backend for cached extractions
+ *
+ * Keys are hex SHA-256 digests (see `computeCacheKey`). Implementations may
+ * return undefined for unreadable entries; the pipeline treats them as misses.
+ */
+export interface CacheStore {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Result caching configuration
+ */
+export interface CacheConfig {
+    /** Where entries are kept (default: a FileCacheStore in the user cache directory) */
+    store?: CacheStore;
+    /** Entry lifetime in milliseconds (default: entries never expire) */
+    ttl?: number;
+    /** Skip the lookup and replace the entry with a fresh extraction */
+    refresh?: boolean;
+}
+
+/**
+ * Vote breakdown for one field
+ */
+export interface FieldVote {
+    /** Share of samples agreeing with the chosen value (0-100); for arrays, the mean share per element */
+    agreement: number;
+    /** Distinct values (array elements for array fields) with how many samples returned each, most votes first */
+    values: Array<{ value: unknown; count: number }>;
+}
+
 /**
  * Pipeline configuration
  */
@@ -43,14 +170,99 @@ export interface PipelineConfig {
 export interface ExtractionRequest {
     input: string;
     schema: Schema;
-    llmConfig: LLMConfig;
+    /**
+     * LLM to extract with, or an ordered fallback chain: the next model is
+     * tried when one fails (see `FallbackReason`)
+     */
+    llmConfig: LLMConfig | LLMConfig[];
     /** Optional preprocessing configuration */
     preprocessing?: PreprocessingConfig;
     /** Maximum context tokens (overrides llmConfig.maxContextTokens) */
     maxContextTokens?: number;
+    /** Split oversized inputs into chunks and merge the results. When true, uses default options. */
+    chunking?: boolean | ChunkingConfig;
+    /**
+     * Trim inputs that exceed the token budget instead of failing with a
+     * token limit error (not applied when chunking is enabled)
+     */
+    truncation?: TruncationStrategy;
+    /** Re-ask the model to fix unparseable responses and validation errors. When true, uses default options. */
+    repair?: boolean | RepairConfig;
+    /** Ask for a verbatim quote per field and locate it in the input (see `PipelineResult.evidence`) */
+    grounding?: boolean;
+    /** Run several extractions and vote per field; confidence becomes agreement-based. When true, uses default options. */
+    voting?: boolean | VotingConfig;
+    /**
+     * Reuse model extractions for identical requests (same preprocessed input,
+     * schema, prompt, model settings and options). When true, uses default options.
+     */
+    cache?: boolean | CacheConfig;
+    /** Model prices used to compute `metadata.usage.cost` */
+    pricing?: PriceTable;
+    /**
+     * Streams the LLM response and calls this each time top-level fields
+     * complete (requires a provider adapter with streaming support)
+     */
+    onPartial?: (partial: PartialExtraction) => void;
     debug?: boolean;
 }
 
+/**
+ * Source text supporting an extracted field
+ */
+export interface FieldEvidence {
+    /** Quote returned by the model, or null if it gave none */
+    quote: string | null;
+    /** Start offset of the quote in the input (after preprocessing), or null if not found */
+    start: number | null;
+    /** End offset (exclusive), or null if not found */
+    end: number | null;
+    /** Whether the quote was found in the input; false is a strong sign the value was made up */
+    found: boolean;
+}
+
+/**
+ * Why the pipeline moved on to the next model in a fallback chain
+ *
+ * - `llm_error`: network, timeout, rate limit, API or unparseable-response
+ *   errors that persisted through retries and repair
+ * - `token_limit`: the input did not fit the model's context
+ * - `validation`: the extracted data failed schema validation
+ * - `low_confidence`: confidence was below `schema.confidence.threshold`
+ */
+export type FallbackReason = 'llm_error' | 'token_limit' | 'validation' | 'low_confidence';
+
+/**
+ * One model attempt in a fallback chain
+ */
+export interface FallbackAttempt {
+    model: string;
+    success: boolean;
+    /** Why the result was not accepted (not set for an accepted result) */
+    reason?: FallbackReason;
+}
+
+/**
+ * Snapshot of an extraction while the response is still streaming
+ *
+ * Values are raw model output (not yet coerced or validated).
+ */
+export interface PartialExtraction {
+    /** Step producing the response (e.g. "llm_extract", "llm_extract:chunk_2") */
+    step: string;
+    /** Top-level fields completed so far */
+    data: Record<string, unknown>;
+    /** Fields completed since the previous snapshot of this step */
+    fields: string[];
+}
+
+/**
+ * Event yielded by ExtractionPipeline.extractStream()
+ */
+export type ExtractionStreamEvent =
+    | { type: 'partial'; partial: PartialExtraction }
+    | { type: 'result'; result: PipelineResult };
+
 /**
  * Pipeline step result
  */
@@ -84,9 +296,27 @@ export interface PipelineResult {
         coercedValue: unknown;
     }>;
     steps?: StepResult[];
+    /** Evidence by field (only set in grounding mode) */
+    evidence?: Record<string, FieldEvidence>;
+    /** Vote breakdown by field (only set when voting was applied to a single-pass extraction) */
+    votes?: Record<string, FieldVote>;
     metadata: {
         duration: number;
         model?: string;
         schemaName?: string;
+        /** Number of chunks the input was split into (only set when chunking was applied) */
+        chunks?: number;
+        /** What was dropped from the input to fit the token budget (only set when truncation was applied) */
+        truncation?: TruncationReport;
+        /** Number of repair requests sent (only set when repair was attempted) */
+        repairAttempts?: number;
+        /** Number of successful samples combined by voting (only set when voting was applied) */
+        samples?: number;
+        /** Whether the model extraction came from the cache (only set when caching is enabled) */
+        cached?: boolean;
+        /** Token usage, retries and cost of the model requests (zero requests on a cache hit; not set when extraction failed before reaching the model) */
+        usage?: ExtractionUsage;
+        /** Every model tried, in order (only set for fallback chains) */
+        attempts?: FallbackAttempt[];
     };
 }
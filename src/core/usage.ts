@@ -0,0 +1,92 @@
+/**
+ * Token usage and cost accounting
+ */
+
+import type { LLMUsage } from '../llm/types.js';
+import type { ExtractionUsage, ModelPrice, PriceTable } from './types.js';
+
+/**
+ * Tokens a model price is quoted for
+ */
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Returns usage with nothing counted yet (and a cost of 0)
+ */
+export function createUsage(): ExtractionUsage {
+    return {
+        requests: 0,
+        retries: 0,
+        estimatedPromptTokens: 0,
+        estimatedCompletionTokens: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        unreportedRequests: 0,
+        cost: 0,
+    };
+}
+
+/**
+ * Copies usage and adds the cost of its reported tokens
+ *
+ * @param usage - Token usage of one model
+ * @param price - The model's price; without one, no cost is set
+ * @returns Usage with a cost, unless there is no price or some requests
+ *   reported no usage (the cost would be too low)
+ */
+export function priceUsage(usage: Readonly<LLMUsage>, price?: ModelPrice): ExtractionUsage {
+    const { cost: _cost, ...counts } = usage as ExtractionUsage;
+    if (!price || usage.unreportedRequests > 0) {
+        return counts;
+    }
+
+    return {
+        ...counts,
+        cost: (usage.promptTokens * price.input + usage.completionTokens * price.output) / TOKENS_PER_PRICE_UNIT,
+    };
+}
+
+/**
+ * Adds two usages; the cost is only kept if both have one
+ */
+export function addUsage(a: ExtractionUsage, b: ExtractionUsage): ExtractionUsage {
+    const cost = a.cost !== undefined && b.cost !== undefined ? a.cost + b.cost : undefined;
+
+    return {
+        requests: a.requests + b.requests,
+        retries: a.retries + b.retries,
+        estimatedPromptTokens: a.estimatedPromptTokens + b.estimatedPromptTokens,
+        estimatedCompletionTokens: a.estimatedCompletionTokens + b.estimatedCompletionTokens,
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        unreportedRequests: a.unreportedRequests + b.unreportedRequests,
+        ...(cost !== undefined && { cost }),
+    };
+}
+
+/**
+ * Validates a parsed price table (model name to `{ input, output }` prices
+ * per million tokens)
+ *
+ * @param raw - Parsed JSON value
+ * @param source - Where the table came from (used in error messages)
+ * @throws Error if the table is not an object of non-negative prices
+ */
+export function parsePriceTable(raw: unknown, source: string): PriceTable {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`Invalid price table in ${source}: expected a JSON object`);
+    }
+
+    const table: PriceTable = {};
+    for (const [model, price] of Object.entries(raw as Record<string, unknown>)) {
+        const { input, output } = (price ?? {}) as Record<string, unknown>;
+        const valid = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+        if (!valid(input) || !valid(output)) {
+            throw new Error(
+                `Invalid price table in ${source}: "${model}" must have non-negative "input" and "output" prices`
+            );
+        }
+        table[model] = { input: input as number, output: output as number };
+    }
+    return table;
+}
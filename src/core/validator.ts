@@ -5,6 +5,8 @@
 import type { Schema, FieldDefinition } from '../schemas/types.js';
 import { PipelineError, PipelineErrorCodes } from './errors.js';
 import { coerceExtractedData, type CoercionWarning } from './coercion.js';
+import { getFormat } from '../schemas/formats.js';
+import { canonicalStringify } from '../utils/json.js';
 
 export interface ValidationError {
     field?: string;
@@ -73,6 +75,10 @@ function validateField(
 ): ValidationError[] {
     const errors: ValidationError[] = [];
 
+    if (fieldDef.oneOf || fieldDef.anyOf) {
+        return validateAlternatives(fieldName, value, fieldDef);
+    }
+
     switch (fieldDef.type) {
         case 'string':
             if (typeof value !== 'string') {
@@ -108,6 +114,22 @@ function validateField(
                         // Invalid regex in schema - should be caught by schema validation
                     }
                 }
+                // Check format constraint
+                if (fieldDef.format) {
+                    const format = getFormat(fieldDef.format);
+                    if (format && !format.validate(value)) {
+                        errors.push({
+                            field: fieldName,
+                            message: `Field '${fieldName}' must be a valid ${fieldDef.format}` +
+                                (format.description ? ` (${format.description})` : '') + `. Got: ${value}`,
+                            code: PipelineErrorCodes.INVALID_FORMAT,
+                            value,
+                            expected: fieldDef.format,
+                            actual: value,
+                        });
+                    }
+                }
+                errors.push(...validateStringLength(fieldName, value, fieldDef));
             }
             break;
 
@@ -187,16 +209,15 @@ function validateField(
                     code: PipelineErrorCodes.TYPE_MISMATCH,
                     value,
                 });
-            } else if (fieldDef.items) {
+            } else {
+                errors.push(...validateItemCount(fieldName, value, fieldDef));
+
                 // Validate each item in the array
-                for (let i = 0; i < value.length; i++) {
-                    const item = value[i];
-                    const itemErrors = validateArrayItem(
-                        `${fieldName}[${i}]`,
-                        item,
-                        fieldDef.items
-                    );
-                    errors.push(...itemErrors);
+                const itemDef = fieldDef.items;
+                if (itemDef) {
+                    value.forEach((item, i) => {
+                        errors.push(...validateArrayItem(`${fieldName}[${i}]`, item, itemDef));
+                    });
                 }
             }
             break;
@@ -225,36 +246,179 @@ function validateField(
 }
 
 /**
- * Validates an array item (currently only supports object items)
+ * Validates the minLength/maxLength of a string, counted in characters
+ * (Unicode code points, so an emoji counts once)
  */
-function validateArrayItem(
-    itemPath: string,
-    item: unknown,
-    itemDef: { type: string; properties?: Record<string, FieldDefinition> }
+function validateStringLength(
+    fieldName: string,
+    value: string,
+    fieldDef: FieldDefinition
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const length = [...value].length;
+
+    if (fieldDef.minLength !== undefined && length < fieldDef.minLength) {
+        errors.push({
+            field: fieldName,
+            message: `Field '${fieldName}' must be at least ${fieldDef.minLength} characters long, got ${length}`,
+            code: PipelineErrorCodes.STRING_TOO_SHORT,
+            value,
+            expected: fieldDef.minLength,
+            actual: length,
+        });
+    }
+    if (fieldDef.maxLength !== undefined && length > fieldDef.maxLength) {
+        errors.push({
+            field: fieldName,
+            message: `Field '${fieldName}' must be at most ${fieldDef.maxLength} characters long, got ${length}`,
+            code: PipelineErrorCodes.STRING_TOO_LONG,
+            value,
+            expected: fieldDef.maxLength,
+            actual: length,
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Validates the minItems/maxItems/uniqueItems constraints of an array
+ *
+ * Items are equal when their JSON representations are.
+ */
+function validateItemCount(
+    fieldName: string,
+    value: unknown[],
+    fieldDef: FieldDefinition
 ): ValidationError[] {
     const errors: ValidationError[] = [];
 
-    if (itemDef.type === 'object') {
-        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    if (fieldDef.minItems !== undefined && value.length < fieldDef.minItems) {
+        errors.push({
+            field: fieldName,
+            message: `Field '${fieldName}' must have at least ${fieldDef.minItems} item${fieldDef.minItems === 1 ? '' : 's'}, got ${value.length}`,
+            code: PipelineErrorCodes.TOO_FEW_ITEMS,
+            value,
+            expected: fieldDef.minItems,
+            actual: value.length,
+        });
+    }
+    if (fieldDef.maxItems !== undefined && value.length > fieldDef.maxItems) {
+        errors.push({
+            field: fieldName,
+            message: `Field '${fieldName}' must have at most ${fieldDef.maxItems} item${fieldDef.maxItems === 1 ? '' : 's'}, got ${value.length}`,
+            code: PipelineErrorCodes.TOO_MANY_ITEMS,
+            value,
+            expected: fieldDef.maxItems,
+            actual: value.length,
+        });
+    }
+    if (fieldDef.uniqueItems) {
+        const seen = new Map<string, number>();
+        const duplicates: string[] = [];
+        value.forEach((item, index) => {
+            const key = canonicalStringify(item);
+            if (seen.has(key)) {
+                duplicates.push(`${fieldName}[${index}] duplicates ${fieldName}[${seen.get(key)}]`);
+            } else {
+                seen.set(key, index);
+            }
+        });
+        if (duplicates.length > 0) {
             errors.push({
-                field: itemPath,
-                message: `${itemPath} must be an object, got ${Array.isArray(item) ? 'array' : typeof item}`,
-                code: PipelineErrorCodes.TYPE_MISMATCH,
-                value: item,
+                field: fieldName,
+                message: `Field '${fieldName}' must have unique items: ${duplicates.join(', ')}`,
+                code: PipelineErrorCodes.DUPLICATE_ITEMS,
+                value,
+                expected: 'unique items',
+                actual: duplicates,
             });
-        } else if (itemDef.properties) {
-            const objectErrors = validateObjectProperties(
-                itemPath,
-                item as Record<string, unknown>,
-                itemDef.properties
-            );
-            errors.push(...objectErrors);
         }
     }
 
     return errors;
 }
 
+/**
+ * Validates a oneOf/anyOf field by trying each alternative
+ *
+ * anyOf accepts a value matching any alternative and oneOf exactly one. When
+ * none match, the closest alternative's errors are reported: the one with
+ * the fewest errors among those of the right type, or a single type error
+ * listing the alternatives if the value has none of their types.
+ */
+function validateAlternatives(
+    fieldName: string,
+    value: unknown,
+    fieldDef: FieldDefinition
+): ValidationError[] {
+    const alternatives = (fieldDef.oneOf ?? fieldDef.anyOf)!;
+    const results = alternatives.map(alternative => validateField(fieldName, value, alternative));
+    const matching = results.flatMap((errors, index) => (errors.length === 0 ? [index + 1] : []));
+
+    if (matching.length > 0) {
+        if (fieldDef.oneOf && matching.length > 1) {
+            return [{
+                field: fieldName,
+                message: `Field '${fieldName}' must match exactly one alternative, but matches alternatives ${matching.join(', ')}`,
+                code: PipelineErrorCodes.FIELD_INVALID,
+                value,
+            }];
+        }
+        return [];
+    }
+
+    const isTypeMismatch = (errors: ValidationError[]) =>
+        errors.some(error => error.field === fieldName && error.code === PipelineErrorCodes.TYPE_MISMATCH);
+    const candidates = results.filter(errors => !isTypeMismatch(errors));
+
+    if (candidates.length === 0) {
+        const types = [...new Set(alternatives.map(describeType))];
+        return [{
+            field: fieldName,
+            message: `Field '${fieldName}' must be one of: ${types.join(', ')}. Got: ${Array.isArray(value) ? 'array' : typeof value}`,
+            code: PipelineErrorCodes.TYPE_MISMATCH,
+            value,
+            expected: types,
+            actual: Array.isArray(value) ? 'array' : typeof value,
+        }];
+    }
+
+    return candidates.reduce((closest, errors) => (errors.length < closest.length ? errors : closest));
+}
+
+/**
+ * Names a field's type for error messages (alternatives joined with |)
+ */
+function describeType(fieldDef: FieldDefinition): string {
+    if (fieldDef.oneOf || fieldDef.anyOf) {
+        return (fieldDef.oneOf ?? fieldDef.anyOf)!.map(describeType).join(' | ');
+    }
+    return fieldDef.type ?? 'unknown';
+}
+
+/**
+ * Validates an array item against the items definition
+ *
+ * Null items are only accepted when the items definition is optional.
+ */
+function validateArrayItem(
+    itemPath: string,
+    item: unknown,
+    itemDef: FieldDefinition
+): ValidationError[] {
+    if (item === null || item === undefined) {
+        return itemDef.optional ? [] : [{
+            field: itemPath,
+            message: `${itemPath} cannot be null (expected ${describeType(itemDef)})`,
+            code: PipelineErrorCodes.TYPE_MISMATCH,
+            value: item,
+        }];
+    }
+
+    return validateField(itemPath, item, itemDef);
+}
+
 /**
  * Validates nested object properties
  */
@@ -0,0 +1,161 @@
+/**
+ * Self-consistency voting
+ * Combines several independent extractions of the same input by voting per field
+ */
+
+import type { Schema } from '../schemas/types.js';
+import type { ExtractionResponse } from '../llm/types.js';
+import type { FieldVote, VotingConfig } from './types.js';
+import { coerceExtractedData } from './coercion.js';
+import { combinesAsArray } from './merger.js';
+import { canonicalStringify } from '../utils/json.js';
+
+/**
+ * Extraction result produced by voting
+ */
+export interface VotedExtraction extends ExtractionResponse {
+    /** Vote breakdown by field */
+    votes: Record<string, FieldVote>;
+    /** Number of samples that were combined */
+    samples: number;
+}
+
+/**
+ * Counts how many samples returned each distinct value
+ *
+ * @returns Tallies with the most votes first (ties: earliest sample first)
+ */
+function tally(values: unknown[]): Array<{ key: string; value: unknown; count: number }> {
+    const counts = new Map<string, { key: string; value: unknown; count: number }>();
+    for (const value of values) {
+        const key = canonicalStringify(value);
+        const entry = counts.get(key);
+        if (entry) {
+            entry.count++;
+        } else {
+            counts.set(key, { key, value, count: 1 });
+        }
+    }
+
+    // Map preserves insertion order and sort is stable, so ties keep the earliest value
+    return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Votes on a scalar or object field: the most common value wins
+ */
+function voteOnValue(values: unknown[]): { value: unknown; vote: FieldVote } {
+    const tallies = tally(values);
+    const winner = tallies[0];
+
+    return {
+        value: winner.value,
+        vote: {
+            agreement: Math.round((winner.count / values.length) * 100),
+            values: tallies.map(({ value, count }) => ({ value, count })),
+        },
+    };
+}
+
+/**
+ * Votes on an array field element by element: elements returned by a
+ * majority of samples are kept, in order of first appearance
+ *
+ * Agreement is the mean share of samples containing each element seen.
+ */
+function voteOnArray(values: unknown[]): { value: unknown; vote: FieldVote } {
+    if (!values.some(Array.isArray)) {
+        return voteOnValue(values);
+    }
+
+    // Count each element once per sample; non-array samples count as empty
+    const elements = values.flatMap(value => {
+        if (!Array.isArray(value)) return [];
+        const unique = new Map(value.map(item => [canonicalStringify(item), item]));
+        return [...unique.values()];
+    });
+    const tallies = tally(elements);
+    const firstSeen = [...new Set(elements.map(item => canonicalStringify(item)))];
+
+    const kept = tallies
+        .filter(entry => entry.count * 2 > values.length)
+        .sort((a, b) => firstSeen.indexOf(a.key) - firstSeen.indexOf(b.key))
+        .map(entry => entry.value);
+
+    const agreement = tallies.length > 0
+        ? tallies.reduce((sum, entry) => sum + entry.count / values.length, 0) / tallies.length
+        : 1;
+
+    return {
+        value: kept,
+        vote: {
+            agreement: Math.round(agreement * 100),
+            values: tallies.map(({ value, count }) => ({ value, count })),
+        },
+    };
+}
+
+/**
+ * Combines several extractions of the same input by voting per field
+ *
+ * Values are compared after type coercion, so "36" and 36 agree. Each
+ * field's confidence becomes the share of samples agreeing with the
+ * chosen value ('replace'), or the mean of that and the model's average
+ * self-reported confidence ('blend'). Overall confidence is the mean of
+ * the field confidences.
+ *
+ * @param results - Successful sample extractions
+ * @param schema - Schema the samples were extracted with
+ * @param mode - How agreement combines with self-reported confidence (default: 'replace')
+ * @returns Voted extraction with the vote breakdown per field
+ */
+export function voteOnResults(
+    results: ExtractionResponse[],
+    schema: Schema,
+    mode: VotingConfig['confidence'] = 'replace'
+): VotedExtraction {
+    const samples = results.map(result => coerceExtractedData(result.data, schema.fields).data);
+
+    const data: Record<string, unknown> = {};
+    const confidenceByField: Record<string, number> = {};
+    const votes: Record<string, FieldVote> = {};
+    const evidence: Record<string, string | null> = {};
+
+    for (const [fieldName, fieldDef] of Object.entries(schema.fields)) {
+        const values = samples.map(sample => sample[fieldName] ?? null);
+        const { value, vote } = combinesAsArray(fieldDef, values) ? voteOnArray(values) : voteOnValue(values);
+
+        data[fieldName] = value;
+        votes[fieldName] = vote;
+
+        const claimed = results.reduce(
+            (sum, result) => sum + (result.confidenceByField[fieldName] ?? result.confidence),
+            0
+        ) / results.length;
+        confidenceByField[fieldName] = mode === 'blend'
+            ? Math.round((vote.agreement + claimed) / 2)
+            : vote.agreement;
+
+        // Quote from a sample that returned the chosen value, if any did
+        const key = canonicalStringify(value);
+        const source = results.find((result, i) => result.evidence && canonicalStringify(values[i]) === key)
+            ?? results.find(result => result.evidence?.[fieldName]);
+        if (source?.evidence) {
+            evidence[fieldName] = source.evidence[fieldName] ?? null;
+        }
+    }
+
+    const fieldConfidences = Object.values(confidenceByField);
+    const confidence = fieldConfidences.length > 0
+        ? Math.round(fieldConfidences.reduce((sum, c) => sum + c, 0) / fieldConfidences.length)
+        : Math.round(results.reduce((sum, r) => sum + r.confidence, 0) / results.length);
+
+    return {
+        data,
+        confidence,
+        confidenceByField,
+        ...(results.some(result => result.evidence) && { evidence }),
+        votes,
+        samples: results.length,
+    };
+}
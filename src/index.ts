@@ -4,9 +4,18 @@
  */
 
 // Core pipeline exports
-export { ExtractionPipeline, extract } from './core/pipeline.js';
+export { ExtractionPipeline, extract, extractStream } from './core/pipeline.js';
 export { validateExtractedData } from './core/validator.js';
 export { PipelineError, PipelineErrorCodes } from './core/errors.js';
+export { splitIntoChunks } from './core/chunker.js';
+export { truncateText, TRUNCATION_MARKER } from './core/truncation.js';
+export { mergeChunkResults } from './core/merger.js';
+export { createUsage, priceUsage, addUsage, parsePriceTable } from './core/usage.js';
+export { getCompletedFields } from './core/partial.js';
+export { resolveEvidence, locateQuote } from './core/grounding.js';
+export { voteOnResults } from './core/voting.js';
+export { computeCacheKey, getDefaultCacheDir, FileCacheStore, MemoryCacheStore } from './core/cache.js';
+export { parsePartialJSON } from './utils/partial-json.js';
 export {
     stripHtml,
     preprocess,
@@ -20,6 +29,9 @@ export {
     formatLLMError,
 } from './core/error-formatter.js';
 export type { PreprocessResult } from './core/preprocessor.js';
+export type { TextChunk, ChunkOptions } from './core/chunker.js';
+export type { TextRange, TruncateOptions, TruncationResult } from './core/truncation.js';
+export type { PartialJSON } from './utils/partial-json.js';
 export type {
     PipelineConfig,
     ExtractionRequest,
@@ -27,11 +39,32 @@ export type {
     StepResult,
     HtmlStripOptions,
     PreprocessingConfig,
+    ChunkingConfig,
+    TruncationStrategy,
+    TruncationReport,
+    PartialExtraction,
+    ExtractionStreamEvent,
+    FieldEvidence,
+    VotingConfig,
+    FieldVote,
+    FallbackReason,
+    FallbackAttempt,
+    CacheConfig,
+    CacheStore,
+    CacheEntry,
+    ModelPrice,
+    PriceTable,
+    ExtractionUsage,
 } from './core/types.js';
+export type { VotedExtraction } from './core/voting.js';
+export type { CacheKeyParts } from './core/cache.js';
 
 // Schema exports
 export { loadSchema, parseSchema, loadSchemaFromObject } from './schemas/loader.js';
 export { validateSchema } from './schemas/validator.js';
+export { resolveSchemaRefs, resolveSchemaFileRefs } from './schemas/resolver.js';
+export { registerFormat, unregisterFormat, getFormat, listFormats } from './schemas/formats.js';
+export type { StringFormat } from './schemas/formats.js';
 export { SchemaValidationError, ErrorCodes as SchemaErrorCodes } from './schemas/errors.js';
 export type { 
     Schema, 
@@ -44,8 +77,35 @@ export type {
 // LLM exports
 export { LLMClient, createLLMClient, LLMPresets } from './llm/client.js';
 export { LLMError, LLMErrorCodes } from './llm/errors.js';
-export { buildSystemPrompt, buildUserPrompt } from './llm/prompt-builder.js';
-export { TokenCounter, estimateTokens } from './llm/token-counter.js';
+export { buildSystemPrompt, buildUserPrompt, buildRepairPrompt } from './llm/prompt-builder.js';
+export { TokenCounter, estimateTokens, heuristicTokenizer } from './llm/token-counter.js';
+export {
+    BPETokenizer,
+    TOKENIZER_VOCABULARIES,
+    loadTokenizer,
+    getTokenizerName,
+    parseTiktokenRanks,
+    parseHuggingFaceMerges,
+} from './llm/tokenizer.js';
+export {
+    buildResponseJsonSchema,
+    buildResponseFormat,
+    buildExtractionTool,
+    EXTRACTION_TOOL_NAME,
+} from './llm/json-schema.js';
+export {
+    registerProvider,
+    unregisterProvider,
+    getProvider,
+    listProviders,
+    detectProvider,
+} from './llm/providers/registry.js';
+export { openaiAdapter } from './llm/providers/openai.js';
+export { ollamaAdapter } from './llm/providers/ollama.js';
+export { anthropicAdapter } from './llm/providers/anthropic.js';
+export { mockAdapter, buildPlaceholder } from './llm/providers/mock.js';
+export { classifyHttpError } from './llm/providers/http.js';
+export { Cassette, openCassette, closeCassettes, getRequestKey } from './llm/cassette.js';
 export type {
     LLMConfig,
     RetryConfig,
@@ -55,5 +115,29 @@ export type {
     ExtractionOptions,
     ExtractionResponse,
     TokenBudget,
+    OllamaOptions,
+    ProviderName,
+    JsonSchemaResponseFormat,
+    ExtractionMode,
+    ToolCall,
+    ToolDefinition,
+    LLMStreamChunk,
+    CassetteConfig,
+    CassetteMode,
+    MockOptions,
+    MockFault,
+    Tokenizer,
+    TokenizerConfig,
+    TokenizerVocabulary,
+    LLMUsage,
 } from './llm/types.js';
 export type { TokenUsage, TokenCounterConfig } from './llm/token-counter.js';
+export type { JsonSchema, ResponseSchemaOptions } from './llm/json-schema.js';
+export type { CassetteInteraction, CassetteFile } from './llm/cassette.js';
+export type { SystemPromptOptions } from './llm/prompt-builder.js';
+export type {
+    ProviderAdapter,
+    ProviderContext,
+    ProviderHttpRequest,
+    ProviderErrorResponse,
+} from './llm/providers/types.js';
@@ -0,0 +1,171 @@
+/**
+ * Tests for record/replay cassettes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Cassette, closeCassettes, getRequestKey } from '../cassette.js';
+import { LLMClient } from '../client.js';
+import { LLMErrorCodes } from '../errors.js';
+import type { CassetteFile } from '../cassette.js';
+import type { LLMConfig, LLMRequest, LLMResponse } from '../types.js';
+import type { Schema } from '../../schemas/types.js';
+
+global.fetch = vi.fn();
+
+const schema: Schema = {
+    fields: {
+        name: { type: 'string' },
+        age: { type: 'number' },
+    },
+};
+
+const envelope = (data: Record<string, unknown>) => JSON.stringify({
+    data,
+    confidence: 90,
+    confidenceByField: { name: 90, age: 90 },
+});
+
+const mockCompletion = (content: string) => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'c1', model: 'llama3', choices: [{ index: 0, message: { role: 'assistant', content } }] }),
+    } as Response);
+};
+
+const response = (content: string): LLMResponse => ({
+    id: 'r',
+    object: 'chat.completion',
+    created: 0,
+    model: 'llama3',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+});
+
+const request: LLMRequest = { model: 'llama3', messages: [{ role: 'user', content: 'Ada' }] };
+
+describe('cassettes', () => {
+    let dir: string;
+    let cassettePath: string;
+    let config: LLMConfig;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        closeCassettes();
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-cassette-'));
+        cassettePath = path.join(dir, 'fixtures', 'people.cassette.json');
+        config = { baseURL: 'http://localhost:11434/v1', model: 'llama3' };
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should record interactions and replay them without calling the provider', async () => {
+        mockCompletion(envelope({ name: 'Ada', age: 36 }));
+        const recorder = new LLMClient({ ...config, cassette: { path: cassettePath, mode: 'record' } });
+        const recorded = await recorder.extract({ schema, input: 'Ada, 36' });
+
+        const file = JSON.parse(await fs.readFile(cassettePath, 'utf-8')) as CassetteFile;
+        expect(file.version).toBe(1);
+        expect(file.interactions).toHaveLength(1);
+        expect(file.interactions[0].request.model).toBe('llama3');
+        expect(file.interactions[0].response.choices[0].message.content).toBe(envelope({ name: 'Ada', age: 36 }));
+
+        const player = new LLMClient({ ...config, cassette: { path: cassettePath, mode: 'replay' } });
+        const replayed = await player.extract({ schema, input: 'Ada, 36' });
+
+        expect(replayed).toEqual(recorded);
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail loudly on unmatched requests without retrying', async () => {
+        await fs.mkdir(path.dirname(cassettePath), { recursive: true });
+        await fs.writeFile(cassettePath, JSON.stringify({ version: 1, interactions: [{ request, response: response('{}') }] }));
+
+        const player = new LLMClient({ ...config, cassette: { path: cassettePath, mode: 'replay' } });
+
+        await expect(player.extract({ schema, input: 'Someone else' })).rejects.toMatchObject({
+            code: LLMErrorCodes.CASSETTE_ERROR,
+            details: { path: cassettePath, interactions: 1 },
+        });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the cassette to replay does not exist', async () => {
+        const player = new LLMClient({ ...config, cassette: { path: cassettePath, mode: 'replay' } });
+
+        await expect(player.extract({ schema, input: 'Ada' })).rejects.toMatchObject({
+            code: LLMErrorCodes.CASSETTE_ERROR,
+        });
+    });
+
+    it('should report replayed streaming responses as one progress update', async () => {
+        await fs.mkdir(path.dirname(cassettePath), { recursive: true });
+        mockCompletion(envelope({ name: 'Ada', age: 36 }));
+        await new LLMClient({ ...config, cassette: { path: cassettePath, mode: 'record' } })
+            .extract({ schema, input: 'Ada, 36' });
+
+        const onProgress = vi.fn();
+        const player = new LLMClient({ ...config, cassette: { path: cassettePath, mode: 'replay' } });
+        const result = await player.extract({ schema, input: 'Ada, 36', onProgress });
+
+        expect(result.data).toEqual({ name: 'Ada', age: 36 });
+        expect(onProgress).toHaveBeenCalledExactlyOnceWith(envelope({ name: 'Ada', age: 36 }));
+    });
+});
+
+describe('Cassette', () => {
+    it('should match requests regardless of key order and streaming', () => {
+        const reordered = { messages: [{ content: 'Ada', role: 'user' }], model: 'llama3', stream: true } as LLMRequest;
+
+        expect(getRequestKey(reordered)).toBe(getRequestKey(request));
+        expect(getRequestKey({ ...request, temperature: 0.5 })).not.toBe(getRequestKey(request));
+    });
+
+    it('should replay identical requests in recorded order, then repeat the last', () => {
+        const cassette = new Cassette('people.json', [
+            { request, response: response('first') },
+            { request, response: response('second') },
+        ]);
+
+        const contents = [1, 2, 3].map(() => cassette.replay(request).choices[0].message.content);
+
+        expect(contents).toEqual(['first', 'second', 'second']);
+    });
+
+    it('should replace entries from earlier recordings of the same request', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-cassette-'));
+        const other: LLMRequest = { ...request, messages: [{ role: 'user', content: 'Bob' }] };
+
+        try {
+            const cassette = new Cassette(path.join(dir, 'c.json'), [
+                { request, response: response('old') },
+                { request: other, response: response('kept') },
+            ]);
+            await cassette.record({ ...request, stream: true }, response('new 1'));
+            await cassette.record(request, response('new 2'));
+
+            const reloaded = await Cassette.load(path.join(dir, 'c.json'), 'replay');
+            expect(reloaded.size).toBe(3);
+            expect(reloaded.replay(other).choices[0].message.content).toBe('kept');
+            expect(reloaded.replay(request).choices[0].message.content).toBe('new 1');
+            expect(reloaded.replay(request).choices[0].message.content).toBe('new 2');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should reject files that are not cassettes', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-cassette-'));
+        const file = path.join(dir, 'bad.json');
+
+        try {
+            await fs.writeFile(file, '{"requests": []}');
+            await expect(Cassette.load(file, 'replay')).rejects.toThrow('expected an "interactions" array');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -437,6 +437,138 @@ I hope this helps!`;
         });
     });
 
+    describe('usage', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+            },
+        };
+
+        const mockResponse = (usage?: LLMResponse['usage']) => ({
+            ok: true,
+            json: async () => ({
+                choices: [{
+                    message: {
+                        content: JSON.stringify({ data: { name: 'Ada' }, confidence: 90, confidenceByField: { name: 90 } }),
+                    },
+                }],
+                ...(usage && { usage }),
+            }),
+        } as Response);
+
+        it('should total estimated and reported tokens and retries', async () => {
+            vi.mocked(fetch)
+                .mockRejectedValueOnce(new Error('Network failure'))
+                .mockResolvedValueOnce(mockResponse({ prompt_tokens: 120, completion_tokens: 15, total_tokens: 135 }))
+                .mockResolvedValueOnce(mockResponse());
+
+            const client = new LLMClient({
+                baseURL: 'http://localhost:11434/v1',
+                model: 'llama3',
+                retries: { maxRetries: 1, initialDelay: 0, maxDelay: 0, backoffFactor: 1 },
+            });
+
+            await client.extract({ schema, input: 'Ada Lovelace' });
+            await client.extract({ schema, input: 'Ada Lovelace' });
+
+            expect(client.usage).toMatchObject({
+                requests: 2,
+                retries: 1,
+                promptTokens: 120,
+                completionTokens: 15,
+                unreportedRequests: 1,
+            });
+            expect(client.usage.estimatedPromptTokens).toBeGreaterThan(0);
+            expect(client.usage.estimatedCompletionTokens).toBeGreaterThan(0);
+        });
+    });
+
+    describe('tool extraction mode', () => {
+        const schema: Schema = {
+            fields: {
+                name: { type: 'string' },
+            },
+        };
+        const args = JSON.stringify({ data: { name: 'Ada' }, confidence: 88, confidenceByField: { name: 88 } });
+
+        it('should send the schema as a forced tool and parse the tool call', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        index: 0,
+                        message: {
+                            role: 'assistant',
+                            content: null,
+                            tool_calls: [{
+                                id: 'call_1',
+                                type: 'function',
+                                function: { name: 'record_extraction', arguments: args },
+                            }],
+                        },
+                        finish_reason: 'tool_calls',
+                    }],
+                }),
+            } as Response);
+
+            const client = new LLMClient({
+                baseURL: 'https://api.openai.com/v1',
+                model: 'gpt-4o-mini',
+                extractionMode: 'tool',
+                jsonMode: true,
+            });
+            const result = await client.extract({ schema, input: 'Ada' });
+
+            expect(result).toEqual({ data: { name: 'Ada' }, confidence: 88, confidenceByField: { name: 88 } });
+
+            const body = JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string);
+            expect(body.tools).toHaveLength(1);
+            expect(body.tools[0].function.name).toBe('record_extraction');
+            expect(body.tools[0].function.parameters.required).toEqual(['data', 'confidence', 'confidenceByField']);
+            expect(body.tool_choice).toEqual({ type: 'function', function: { name: 'record_extraction' } });
+            expect(body).not.toHaveProperty('response_format');
+            expect(body.messages[0].content).toContain('calling the "record_extraction" tool');
+        });
+
+        it('should fall back to message content when the model does not call the tool', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{ index: 0, message: { role: 'assistant', content: args }, finish_reason: 'stop' }],
+                }),
+            } as Response);
+
+            const client = new LLMClient({ baseURL: 'https://api.openai.com/v1', model: 'm', extractionMode: 'tool' });
+            const result = await client.extract({ schema, input: 'Ada' });
+
+            expect(result.data.name).toBe('Ada');
+        });
+
+        it('should report invalid tool arguments as INVALID_RESPONSE with the raw arguments', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => ({
+                    choices: [{
+                        index: 0,
+                        message: {
+                            role: 'assistant',
+                            content: '',
+                            tool_calls: [{ id: 'c', type: 'function', function: { name: 'record_extraction', arguments: '{"data":' } }],
+                        },
+                        finish_reason: 'tool_calls',
+                    }],
+                }),
+            } as Response);
+
+            const client = new LLMClient({ baseURL: 'https://api.openai.com/v1', model: 'm', extractionMode: 'tool' });
+
+            await expect(client.extract({ schema, input: 'Ada' })).rejects.toMatchObject({
+                code: LLMErrorCodes.INVALID_RESPONSE,
+                details: { content: '{"data":' },
+            });
+        });
+    });
+
     describe('LLMPresets', () => {
         it('should create Ollama config', () => {
             const config = LLMPresets.ollama('llama3');
@@ -0,0 +1,222 @@
+/**
+ * Tests for JSON Schema generation (structured output)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { buildResponseJsonSchema, buildResponseFormat } from '../json-schema.js';
+import { LLMClient } from '../client.js';
+import type { Schema } from '../../schemas/types.js';
+
+global.fetch = vi.fn();
+
+const invoiceSchema: Schema = {
+    fields: {
+        invoice_id: { type: 'string', description: 'Invoice number' },
+        amount: { type: 'number', min: 0 },
+        currency: { type: 'string', enum: ['USD', 'EUR'] },
+        paid: { type: 'boolean', optional: true },
+        issued: { type: 'string', format: 'date-time', optional: true },
+        customer: {
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                tier: { type: 'string', enum: ['gold', 'silver'], optional: true },
+            },
+        },
+        line_items: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' },
+                    quantity: { type: 'integer', min: 1 },
+                },
+            },
+        },
+    },
+    metadata: { name: 'Invoice Extraction Schema' },
+};
+
+describe('buildResponseJsonSchema', () => {
+    it('should wrap data in the response envelope', () => {
+        const { schema, strict } = buildResponseJsonSchema(invoiceSchema);
+
+        expect(strict).toBe(true);
+        expect(schema.required).toEqual(['data', 'confidence', 'confidenceByField']);
+        expect(schema.additionalProperties).toBe(false);
+
+        const properties = schema.properties as Record<string, any>;
+        expect(properties.confidence).toEqual({ type: 'number', minimum: 0, maximum: 100 });
+        expect(properties.confidenceByField.required).toEqual(Object.keys(invoiceSchema.fields));
+        expect(properties.confidenceByField.properties.amount).toEqual({ type: 'number', minimum: 0, maximum: 100 });
+    });
+
+    it('should map field types, enums, ranges and descriptions', () => {
+        const data = (buildResponseJsonSchema(invoiceSchema).schema.properties as any).data;
+
+        expect(data.required).toEqual(Object.keys(invoiceSchema.fields));
+        expect(data.additionalProperties).toBe(false);
+        expect(data.properties.invoice_id).toEqual({ type: 'string', description: 'Invoice number' });
+        expect(data.properties.amount).toEqual({ type: 'number', minimum: 0 });
+        expect(data.properties.currency).toEqual({ type: 'string', enum: ['USD', 'EUR'] });
+        expect(data.properties.issued).toEqual({ type: ['string', 'null'], format: 'date-time' });
+    });
+
+    it('should make optional fields nullable but still required', () => {
+        const data = (buildResponseJsonSchema(invoiceSchema).schema.properties as any).data;
+
+        expect(data.properties.paid).toEqual({ type: ['boolean', 'null'] });
+        expect(data.properties.customer.properties.tier).toEqual({
+            type: ['string', 'null'],
+            enum: ['gold', 'silver', null],
+        });
+        expect(data.properties.customer.required).toEqual(['name', 'tier']);
+    });
+
+    it('should build nested objects and array items', () => {
+        const data = (buildResponseJsonSchema(invoiceSchema).schema.properties as any).data;
+
+        expect(data.properties.line_items).toEqual({
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' },
+                    quantity: { type: 'integer', minimum: 1 },
+                },
+                required: ['sku', 'quantity'],
+                additionalProperties: false,
+            },
+        });
+    });
+
+    it('should build primitive and nested array items', () => {
+        const { schema, strict } = buildResponseJsonSchema({
+            fields: {
+                tags: { type: 'array', items: { type: 'string', enum: ['urgent', 'billing'] } },
+                matrix: { type: 'array', items: { type: 'array', items: { type: 'number', max: 1 } } },
+            },
+        });
+        const data = (schema.properties as any).data;
+
+        expect(strict).toBe(true);
+        expect(data.properties.tags).toEqual({ type: 'array', items: { type: 'string', enum: ['urgent', 'billing'] } });
+        expect(data.properties.matrix).toEqual({
+            type: 'array',
+            items: { type: 'array', items: { type: 'number', maximum: 1 } },
+        });
+    });
+
+    it('should build oneOf/anyOf fields as anyOf', () => {
+        const { schema, strict } = buildResponseJsonSchema({
+            fields: {
+                terms: { oneOf: [{ type: 'integer', min: 0 }, { type: 'string' }] },
+                note: { anyOf: [{ type: 'string' }, { type: 'number' }], optional: true },
+            },
+        });
+        const data = (schema.properties as any).data;
+
+        expect(strict).toBe(true);
+        expect(data.properties.terms).toEqual({ anyOf: [{ type: 'integer', minimum: 0 }, { type: 'string' }] });
+        expect(data.properties.note).toEqual({ anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }] });
+    });
+
+    it('should pass array item counts and string lengths through', () => {
+        const data = (buildResponseJsonSchema({
+            fields: {
+                tags: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5, uniqueItems: true },
+                code: { type: 'string', minLength: 2, maxLength: 2 },
+            },
+        }).schema.properties as any).data;
+
+        expect(data.properties.tags).toEqual({ type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 });
+        expect(data.properties.code).toEqual({ type: 'string', minLength: 2, maxLength: 2 });
+    });
+
+    it('should pass every format through only when annotating', () => {
+        const phoneSchema: Schema = { fields: { phone: { type: 'string', format: 'phone' } } };
+        const dataOf = (annotate: boolean) =>
+            (buildResponseJsonSchema(phoneSchema, { annotate }).schema.properties as any).data;
+
+        expect(dataOf(false).properties.phone).toEqual({ type: 'string' });
+        expect(dataOf(true).properties.phone).toEqual({ type: 'string', format: 'phone' });
+    });
+
+    it('should disable strict mode for free-form objects and arrays', () => {
+        expect(buildResponseJsonSchema({ fields: { meta: { type: 'object' } } }).strict).toBe(false);
+        expect(buildResponseJsonSchema({ fields: { tags: { type: 'array' } } }).strict).toBe(false);
+    });
+
+    it('should add nullable evidence quotes per field in grounding mode', () => {
+        const { schema } = buildResponseJsonSchema(invoiceSchema, { grounding: true });
+        const evidence = (schema.properties as any).evidence;
+
+        expect(schema.required).toEqual(['data', 'confidence', 'confidenceByField', 'evidence']);
+        expect(evidence.required).toEqual(Object.keys(invoiceSchema.fields));
+        expect(evidence.properties.amount).toEqual({ type: ['string', 'null'] });
+    });
+});
+
+describe('buildResponseFormat', () => {
+    it('should derive a valid schema name', () => {
+        const format = buildResponseFormat(invoiceSchema);
+
+        expect(format.type).toBe('json_schema');
+        expect(format.json_schema.name).toBe('Invoice_Extraction_Schema');
+        expect(format.json_schema.strict).toBe(true);
+    });
+
+    it('should fall back to a default name', () => {
+        expect(buildResponseFormat({ fields: { a: { type: 'string' } } }).json_schema.name).toBe('extraction');
+    });
+});
+
+describe('LLMClient structured output', () => {
+    const schema: Schema = { fields: { name: { type: 'string' } } };
+    const content = JSON.stringify({ data: { name: 'Ada' }, confidence: 90, confidenceByField: { name: 90 } });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should send response_format json_schema to OpenAI-compatible endpoints', async () => {
+        vi.mocked(fetch).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] }),
+        } as Response);
+
+        const client = new LLMClient({
+            baseURL: 'https://api.openai.com/v1',
+            model: 'gpt-4o-mini',
+            structuredOutput: true,
+            jsonMode: true,
+        });
+        await client.extract({ schema, input: 'Ada' });
+
+        const body = JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string);
+        expect(body.response_format).toEqual(buildResponseFormat(schema));
+    });
+
+    it('should send the schema as format to native Ollama', async () => {
+        vi.mocked(fetch).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({
+                model: 'llama3',
+                created_at: '2026-01-14T10:00:00Z',
+                message: { role: 'assistant', content },
+                done: true,
+            }),
+        } as Response);
+
+        const client = new LLMClient({
+            baseURL: 'http://localhost:11434',
+            model: 'llama3',
+            structuredOutput: true,
+        });
+        await client.extract({ schema, input: 'Ada' });
+
+        const body = JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string);
+        expect(body.format).toEqual(buildResponseJsonSchema(schema).schema);
+        expect(body).not.toHaveProperty('response_format');
+    });
+});
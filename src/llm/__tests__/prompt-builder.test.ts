@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { buildSystemPrompt, buildUserPrompt } from '../prompt-builder.js';
+import { buildSystemPrompt, buildUserPrompt, buildRepairPrompt } from '../prompt-builder.js';
 import type { Schema } from '../../schemas/types.js';
 
 describe('Prompt Builder', () => {
@@ -24,6 +24,22 @@ describe('Prompt Builder', () => {
             expect(prompt).toContain('only valid JSON');
         });
 
+        it('should describe length and item constraints', () => {
+            const schema: Schema = {
+                fields: {
+                    country: { type: 'string', minLength: 2, maxLength: 2 },
+                    summary: { type: 'string', maxLength: 200 },
+                    line_items: { type: 'array', items: { type: 'string' }, minItems: 1, uniqueItems: true },
+                },
+            };
+
+            const prompt = buildSystemPrompt(schema);
+
+            expect(prompt).toContain('- country: string - length: exactly 2 characters');
+            expect(prompt).toContain('- summary: string - length: at most 200 characters');
+            expect(prompt).toContain('- line_items: array - items: at least 1 - no duplicate items');
+        });
+
         it('should include field descriptions', () => {
             const schema: Schema = {
                 fields: {
@@ -191,6 +207,20 @@ describe('Prompt Builder', () => {
             expect(prompt).toContain('INV-2024-0042');
             expect(prompt).toContain('1250.00');
         });
+
+        it('should ask for verbatim evidence in grounding mode', () => {
+            const schema: Schema = {
+                fields: {
+                    name: { type: 'string' },
+                },
+            };
+
+            const prompt = buildSystemPrompt(schema, { grounding: true });
+
+            expect(prompt).toContain('exact text from the input');
+            expect(prompt).toContain('"evidence": {');
+            expect(buildSystemPrompt(schema)).not.toContain('evidence');
+        });
     });
 
     describe('buildUserPrompt', () => {
@@ -209,4 +239,14 @@ describe('Prompt Builder', () => {
             expect(prompt).toContain(input);
         });
     });
+
+    describe('buildRepairPrompt', () => {
+        it('should include the problems and ask for the same structure', () => {
+            const prompt = buildRepairPrompt("Field 'status' must be one of: active, inactive");
+
+            expect(prompt).toContain("Field 'status' must be one of");
+            expect(prompt).toContain('confidenceByField');
+            expect(prompt).toContain('only valid JSON');
+        });
+    });
 });
@@ -0,0 +1,200 @@
+/**
+ * Tests for streamed responses
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readStreamEvents, StreamAccumulator } from '../stream.js';
+import { LLMClient } from '../client.js';
+import { LLMErrorCodes } from '../errors.js';
+import type { Schema } from '../../schemas/types.js';
+
+global.fetch = vi.fn();
+
+/**
+ * Builds a stream that delivers the given pieces as separate chunks
+ */
+function streamOf(pieces: string[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+        start(controller) {
+            pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+            controller.close();
+        },
+    });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<string[]> {
+    const events: string[] = [];
+    for await (const event of readStreamEvents(body)) {
+        events.push(event);
+    }
+    return events;
+}
+
+const schema: Schema = {
+    fields: {
+        name: { type: 'string' },
+        age: { type: 'number' },
+    },
+};
+
+const envelope = JSON.stringify({
+    data: { name: 'Ada', age: 36 },
+    confidence: 90,
+    confidenceByField: { name: 95, age: 85 },
+});
+
+/**
+ * Splits text into pieces of the given size
+ */
+function split(text: string, size: number): string[] {
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+        pieces.push(text.slice(i, i + size));
+    }
+    return pieces;
+}
+
+describe('readStreamEvents', () => {
+    it('should read SSE data events split across chunks', async () => {
+        const events = await collect(streamOf([
+            ': keep-alive\n\ndata: {"a"',
+            ':1}\n\nevent: message\ndata: {"b":2}\n\n',
+            'data: [DONE]\n\ndata: {"c":3}\n\n',
+        ]));
+
+        expect(events).toEqual(['{"a":1}', '{"b":2}']);
+    });
+
+    it('should read NDJSON lines, including a final line without newline', async () => {
+        const events = await collect(streamOf(['{"a":1}\n{"b"', ':2}\r\n{"c":3}']));
+
+        expect(events).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+    });
+});
+
+describe('StreamAccumulator', () => {
+    it('should join content and tool call fragments', () => {
+        const accumulator = new StreamAccumulator();
+        accumulator.add({ id: 'x', model: 'm', content: 'He' });
+        accumulator.add({ content: 'llo' });
+        expect(accumulator.text).toBe('Hello');
+
+        accumulator.add({ toolCalls: [{ index: 0, id: 'call_a', name: 'record', arguments: '{"a"' }] });
+        accumulator.add({ toolCalls: [{ index: 0, arguments: ':1}' }], finishReason: 'tool_calls' });
+        expect(accumulator.text).toBe('{"a":1}');
+
+        const response = accumulator.toResponse('fallback');
+        expect(response.id).toBe('x');
+        expect(response.model).toBe('m');
+        expect(response.choices[0]).toEqual({
+            index: 0,
+            message: {
+                role: 'assistant',
+                content: 'Hello',
+                tool_calls: [{ id: 'call_a', type: 'function', function: { name: 'record', arguments: '{"a":1}' } }],
+            },
+            finish_reason: 'tool_calls',
+        });
+    });
+});
+
+describe('LLMClient streaming', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should stream OpenAI-compatible SSE and report progress', async () => {
+        const sse = split(envelope, 7).map(content =>
+            `data: ${JSON.stringify({ id: 'c1', model: 'gpt', choices: [{ index: 0, delta: { content } }] })}\n\n`
+        );
+        vi.mocked(fetch).mockResolvedValueOnce(new Response(streamOf([...sse, 'data: [DONE]\n\n'])));
+
+        const progress: string[] = [];
+        const client = new LLMClient({ baseURL: 'https://api.openai.com/v1', model: 'gpt', jsonMode: true });
+        const result = await client.extract({ schema, input: 'Ada, 36', onProgress: text => progress.push(text) });
+
+        expect(result.data).toEqual({ name: 'Ada', age: 36 });
+        expect(progress.length).toBe(sse.length);
+        expect(progress[progress.length - 1]).toBe(envelope);
+
+        const body = JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string);
+        expect(body.stream).toBe(true);
+        expect(body.response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should stream tool call arguments', async () => {
+        const sse = [
+            { index: 0, id: 'call_1', function: { name: 'record_extraction', arguments: '' } },
+            ...split(envelope, 20).map(args => ({ index: 0, function: { arguments: args } })),
+        ].map(call => `data: ${JSON.stringify({ choices: [{ index: 0, delta: { tool_calls: [call] } }] })}\n\n`);
+        vi.mocked(fetch).mockResolvedValueOnce(new Response(streamOf(sse)));
+
+        const progress: string[] = [];
+        const client = new LLMClient({ baseURL: 'https://api.openai.com/v1', model: 'gpt', extractionMode: 'tool' });
+        const result = await client.extract({ schema, input: 'Ada, 36', onProgress: text => progress.push(text) });
+
+        expect(result.confidenceByField).toEqual({ name: 95, age: 85 });
+        expect(progress[progress.length - 1]).toBe(envelope);
+    });
+
+    it('should stream native Ollama NDJSON with usage from the final line', async () => {
+        const lines = split(envelope, 10).map(content =>
+            JSON.stringify({ model: 'llama3', created_at: '', message: { role: 'assistant', content }, done: false }) + '\n'
+        );
+        lines.push(JSON.stringify({
+            model: 'llama3',
+            created_at: '',
+            message: { role: 'assistant', content: '' },
+            done: true,
+            done_reason: 'stop',
+            prompt_eval_count: 50,
+            eval_count: 20,
+        }) + '\n');
+        vi.mocked(fetch).mockResolvedValueOnce(new Response(streamOf(lines)));
+
+        const client = new LLMClient({ baseURL: 'http://localhost:11434', model: 'llama3' });
+        const onProgress = vi.fn();
+        const result = await client.extract({ schema, input: 'Ada, 36', onProgress });
+
+        expect(result.data.name).toBe('Ada');
+        expect(onProgress).toHaveBeenCalled();
+
+        const [url, init] = vi.mocked(fetch).mock.calls[0];
+        expect(url).toBe('http://localhost:11434/api/chat');
+        expect(JSON.parse((init as RequestInit).body as string).stream).toBe(true);
+    });
+
+    it('should send a regular request when the provider does not support streaming', async () => {
+        vi.mocked(fetch).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({
+                id: 'msg',
+                type: 'message',
+                role: 'assistant',
+                model: 'claude',
+                content: [{ type: 'text', text: envelope }],
+                stop_reason: 'end_turn',
+            }),
+        } as Response);
+
+        const client = new LLMClient({ baseURL: 'https://api.anthropic.com', model: 'claude' });
+        const onProgress = vi.fn();
+        const result = await client.extract({ schema, input: 'Ada, 36', onProgress });
+
+        expect(result.data.age).toBe(36);
+        expect(onProgress).not.toHaveBeenCalled();
+        expect(JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string)).not.toHaveProperty('stream');
+    });
+
+    it('should report invalid stream events as INVALID_RESPONSE', async () => {
+        vi.mocked(fetch).mockResolvedValueOnce(new Response(streamOf(['data: {not json}\n\n'])));
+
+        const client = new LLMClient({ baseURL: 'https://api.openai.com/v1', model: 'gpt' });
+
+        await expect(client.extract({ schema, input: 'x', onProgress: () => {} })).rejects.toMatchObject({
+            code: LLMErrorCodes.INVALID_RESPONSE,
+            details: { event: '{not json}' },
+        });
+    });
+});
@@ -88,6 +88,51 @@ describe('TokenCounter', () => {
         });
     });
 
+    describe('section budgets', () => {
+        const budget = { system: 100, input: 200, output: 500 };
+
+        test('enforces system and input budgets when a budget is configured', () => {
+            const counter = new TokenCounter({ maxContextTokens: 32768, tokenBudget: budget });
+
+            expect(counter.exceedsLimit(counter.calculateUsage('a'.repeat(400), 'b'.repeat(800)))).toBe(false);
+
+            const usage = counter.calculateUsage('a'.repeat(400), 'b'.repeat(1200));
+            expect(usage.inputBudget).toBe(200);
+            expect(counter.exceedsLimit(usage)).toBe(true);
+            expect(counter.getErrorMessage(usage)).toContain('input 300/200 tokens (100 over budget)');
+
+            const systemUsage = counter.calculateUsage('a'.repeat(800), '');
+            expect(counter.exceedsLimit(systemUsage)).toBe(true);
+            expect(counter.getErrorMessage(systemUsage)).toContain('system prompt 200/100 tokens');
+        });
+
+        test('only checks the total with the default budget', () => {
+            const counter = new TokenCounter({ maxContextTokens: 32768 });
+            const usage = counter.calculateUsage('a'.repeat(8000), 'b'.repeat(40000));
+
+            expect(usage.inputBudget).toBeUndefined();
+            expect(counter.exceedsLimit(usage)).toBe(false);
+        });
+
+        test('caps the input budget', () => {
+            const counter = new TokenCounter({ maxContextTokens: 32768, tokenBudget: budget });
+
+            expect(counter.getInputBudget('a'.repeat(400))).toBe(200);
+            expect(new TokenCounter({ maxContextTokens: 1000 }).getInputBudget('a'.repeat(400))).toBe(-100);
+        });
+
+        test('keeps the quiet input budget below the warning threshold', () => {
+            const counter = new TokenCounter({ maxContextTokens: 4000, warnThreshold: 90 });
+            const system = 'a'.repeat(400);
+            const quiet = counter.getQuietInputBudget(system);
+
+            // 3599 total tokens - 100 system - 1000 output
+            expect(quiet).toBe(2499);
+            expect(counter.shouldWarn(counter.calculateUsage(system, 'b'.repeat(quiet * 4)))).toBe(false);
+            expect(counter.shouldWarn(counter.calculateUsage(system, 'b'.repeat((quiet + 1) * 4)))).toBe(true);
+        });
+    });
+
     describe('shouldWarn', () => {
         test('returns true when usage exceeds warn threshold', () => {
             const counter = new TokenCounter({
@@ -181,6 +226,24 @@ describe('TokenCounter', () => {
             expect(usage.maxContextTokens).toBe(8192);
         });
 
+        test('reports the heuristic estimator by default', () => {
+            const usage = new TokenCounter().calculateUsage('abcd', 'efgh');
+
+            expect(usage.estimator).toBe('heuristic');
+        });
+
+        test('counts with a custom tokenizer', () => {
+            const counter = new TokenCounter({
+                tokenizer: { name: 'words', count: text => text.split(/\s+/).length },
+            });
+            const usage = counter.calculateUsage('one two', 'three four five');
+
+            expect(usage.systemTokens).toBe(2);
+            expect(usage.inputTokens).toBe(3);
+            expect(usage.estimator).toBe('words');
+            expect(counter.formatUsage(usage)).toContain('Estimator: words');
+        });
+
         test('respects custom token budget', () => {
             const counter = new TokenCounter({
                 tokenBudget: {
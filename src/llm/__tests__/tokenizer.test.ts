@@ -0,0 +1,115 @@
+/**
+ * Tests for BPE tokenizers
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { BPETokenizer, loadTokenizer, parseTiktokenRanks, parseHuggingFaceMerges } from '../tokenizer.js';
+import { heuristicTokenizer } from '../token-counter.js';
+import { LLMClient } from '../client.js';
+import { LLMErrorCodes } from '../errors.js';
+import type { Schema } from '../../schemas/types.js';
+
+/**
+ * Tiny vocabulary: every byte, then merges for "he", "ll", "llo", " w", "or", " wor", "ld", "12"
+ */
+const MERGES = ['he', 'll', 'llo', ' w', 'or', ' wor', 'ld', '12'];
+
+const tiktokenFile = () => [
+    ...Array.from({ length: 256 }, (_, byte) => `${Buffer.from([byte]).toString('base64')} ${byte}`),
+    ...MERGES.map((token, i) => `${Buffer.from(token).toString('base64')} ${256 + i}`),
+].join('\n');
+
+const huggingFaceFile = () => JSON.stringify({
+    model: {
+        type: 'BPE',
+        vocab: {},
+        merges: ['h e', 'l l', 'll o', 'Ġ w', 'o r', 'Ġw or', ['l', 'd'], '1 2'],
+    },
+});
+
+describe('BPETokenizer', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-tokenizer-'));
+        await fs.writeFile(path.join(dir, 'tiny.tiktoken'), tiktokenFile());
+        await fs.writeFile(path.join(dir, 'tokenizer.json'), huggingFaceFile());
+    });
+
+    afterAll(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should merge byte pairs by rank', async () => {
+        const tokenizer = await BPETokenizer.load('cl100k', path.join(dir, 'tiny.tiktoken'));
+
+        expect(tokenizer.name).toBe('cl100k');
+        // "hello" -> he + llo, " world" -> " wor" + ld
+        expect(tokenizer.count('hello world')).toBe(4);
+        expect(tokenizer.count('')).toBe(0);
+    });
+
+    it('should count Hugging Face merges the same way', async () => {
+        const tokenizer = await BPETokenizer.load('llama3', path.join(dir, 'tokenizer.json'));
+
+        expect(tokenizer.count('hello world')).toBe(4);
+    });
+
+    it('should count unmerged multi-byte characters per byte', async () => {
+        const tokenizer = await BPETokenizer.load('cl100k', path.join(dir, 'tiny.tiktoken'));
+
+        // 3 CJK characters of 3 UTF-8 bytes each, where the heuristic guesses 1 token
+        expect(tokenizer.count('東京都')).toBe(9);
+        expect(heuristicTokenizer.count('東京都')).toBe(1);
+    });
+
+    it('should split digits by vocabulary', async () => {
+        const cl100k = await BPETokenizer.load('cl100k', path.join(dir, 'tiny.tiktoken'));
+        const qwen2 = await BPETokenizer.load('qwen2', path.join(dir, 'tokenizer.json'));
+
+        // cl100k: "123" + "45" -> 12 + 3 + 4 + 5; qwen2: one piece per digit
+        expect(cl100k.count('12345')).toBe(4);
+        expect(qwen2.count('12345')).toBe(5);
+    });
+
+    it('should reject unsupported files', () => {
+        expect(() => parseTiktokenRanks('aGVsbG8= not-a-rank')).toThrow('Invalid tiktoken ranks line');
+        expect(() => parseHuggingFaceMerges('{"model": {"type": "Unigram"}}')).toThrow('expected a BPE model');
+    });
+});
+
+describe('loadTokenizer', () => {
+    it('should use the heuristic when no tokenizer is configured', async () => {
+        expect(await loadTokenizer(undefined)).toBe(heuristicTokenizer);
+    });
+
+    it('should fall back to the heuristic when the vocabulary file cannot be loaded', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const tokenizer = await loadTokenizer({ vocabulary: 'o200k', path: '/nonexistent/o200k_base.tiktoken' });
+
+        expect(tokenizer).toBe(heuristicTokenizer);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not load o200k tokenizer'));
+        warn.mockRestore();
+    });
+
+    it('should check the token budget with the configured tokenizer', async () => {
+        global.fetch = vi.fn();
+        const schema: Schema = { fields: { name: { type: 'string' } } };
+        const client = new LLMClient({
+            baseURL: 'http://localhost:11434/v1',
+            model: 'llama3',
+            maxContextTokens: 5000,
+            tokenizer: { name: 'chars', count: text => text.length },
+        });
+
+        await expect(client.extract({ schema, input: 'x'.repeat(4000) })).rejects.toMatchObject({
+            code: LLMErrorCodes.TOKEN_LIMIT_EXCEEDED,
+            details: { usage: { estimator: 'chars' } },
+        });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
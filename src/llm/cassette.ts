@@ -0,0 +1,212 @@
+/**
+ * Record/replay cassettes
+ * Stores LLM request/response pairs in a JSON file so extractions can run
+ * offline and deterministically
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { CassetteConfig, LLMRequest, LLMResponse } from './types.js';
+import { LLMError, LLMErrorCodes } from './errors.js';
+import { canonicalStringify } from '../utils/json.js';
+
+/**
+ * Version written to new cassette files
+ */
+export const CASSETTE_VERSION = 1;
+
+/**
+ * One recorded request and the response it received
+ */
+export interface CassetteInteraction {
+    request: LLMRequest;
+    response: LLMResponse;
+}
+
+/**
+ * Cassette file contents
+ */
+export interface CassetteFile {
+    version: number;
+    interactions: CassetteInteraction[];
+}
+
+/**
+ * Returns the key requests are matched on: the request content, without
+ * transport options (streamed and non-streamed requests match the same entry)
+ */
+export function getRequestKey(request: LLMRequest): string {
+    const { stream: _stream, ...content } = request;
+    return canonicalStringify(content);
+}
+
+/**
+ * Request/response pairs backed by a cassette file
+ */
+export class Cassette {
+    readonly path: string;
+    private interactions: CassetteInteraction[];
+    /** Next interaction to replay, by request key */
+    private cursors = new Map<string, number>();
+    /** Request keys recorded in this process (older entries for them are replaced) */
+    private recorded = new Set<string>();
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string, interactions: CassetteInteraction[] = []) {
+        this.path = filePath;
+        this.interactions = interactions;
+    }
+
+    /**
+     * Loads a cassette file
+     *
+     * @param filePath - Path of the cassette file
+     * @param mode - A missing file is an empty cassette when recording, an error when replaying
+     * @throws LLMError (CASSETTE_ERROR) if the file is missing in replay mode or is not a cassette
+     */
+    static async load(filePath: string, mode: CassetteConfig['mode']): Promise<Cassette> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(filePath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT' && mode === 'record') {
+                return new Cassette(filePath);
+            }
+            throw new LLMError(
+                `Failed to read cassette ${filePath}: ${(error as Error).message}`,
+                LLMErrorCodes.CASSETTE_ERROR,
+                undefined,
+                { path: filePath }
+            );
+        }
+
+        let file: CassetteFile;
+        try {
+            file = JSON.parse(raw);
+        } catch (error) {
+            throw new LLMError(
+                `Invalid cassette ${filePath}: ${(error as Error).message}`,
+                LLMErrorCodes.CASSETTE_ERROR,
+                undefined,
+                { path: filePath }
+            );
+        }
+
+        if (!file || !Array.isArray(file.interactions)) {
+            throw new LLMError(
+                `Invalid cassette ${filePath}: expected an "interactions" array`,
+                LLMErrorCodes.CASSETTE_ERROR,
+                undefined,
+                { path: filePath }
+            );
+        }
+
+        return new Cassette(filePath, file.interactions);
+    }
+
+    /**
+     * Number of recorded interactions
+     */
+    get size(): number {
+        return this.interactions.length;
+    }
+
+    /**
+     * Returns the recorded response for a request
+     *
+     * Identical requests (e.g. voting samples) receive their recorded
+     * responses in order; once those run out, the last one is repeated.
+     *
+     * @throws LLMError (CASSETTE_ERROR) if no recorded request matches
+     */
+    replay(request: LLMRequest): LLMResponse {
+        const key = getRequestKey(request);
+        const matches = this.interactions.filter(interaction => getRequestKey(interaction.request) === key);
+
+        if (matches.length === 0) {
+            throw new LLMError(
+                `No recorded response in cassette ${this.path} matches the request to ${request.model}`,
+                LLMErrorCodes.CASSETTE_ERROR,
+                undefined,
+                { path: this.path, model: request.model, interactions: this.interactions.length }
+            );
+        }
+
+        const cursor = this.cursors.get(key) ?? 0;
+        this.cursors.set(key, cursor + 1);
+        return matches[Math.min(cursor, matches.length - 1)].response;
+    }
+
+    /**
+     * Records an interaction and writes the cassette
+     *
+     * The first recording of a request in this process replaces the
+     * responses recorded for it by earlier runs.
+     */
+    async record(request: LLMRequest, response: LLMResponse): Promise<void> {
+        const key = getRequestKey(request);
+        if (!this.recorded.has(key)) {
+            this.recorded.add(key);
+            this.interactions = this.interactions.filter(interaction => getRequestKey(interaction.request) !== key);
+        }
+
+        const { stream: _stream, ...content } = request;
+        this.interactions.push({ request: content, response });
+
+        // Chain writes so concurrent extractions never interleave them
+        const write = this.pendingWrite.then(() => this.save());
+        this.pendingWrite = write.catch(() => {});
+        try {
+            await write;
+        } catch (error) {
+            throw new LLMError(
+                `Failed to write cassette ${this.path}: ${(error as Error).message}`,
+                LLMErrorCodes.CASSETTE_ERROR,
+                undefined,
+                { path: this.path }
+            );
+        }
+    }
+
+    /**
+     * Writes all interactions to the cassette file
+     */
+    private async save(): Promise<void> {
+        const file: CassetteFile = { version: CASSETTE_VERSION, interactions: this.interactions };
+        await fs.mkdir(path.dirname(this.path), { recursive: true });
+
+        const temp = `${this.path}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+        await fs.rename(temp, this.path);
+    }
+}
+
+/**
+ * Cassettes opened in this process, by mode and absolute path
+ */
+const openCassettes = new Map<string, Promise<Cassette>>();
+
+/**
+ * Opens the cassette for a config, loading each file once per process so
+ * all clients share recordings and replay cursors
+ */
+export function openCassette(config: CassetteConfig): Promise<Cassette> {
+    const filePath = path.resolve(config.path);
+    const key = `${config.mode}:${filePath}`;
+
+    let cassette = openCassettes.get(key);
+    if (!cassette) {
+        cassette = Cassette.load(filePath, config.mode);
+        // Allow a later attempt to succeed (e.g. once the file has been recorded)
+        cassette.catch(() => openCassettes.delete(key));
+        openCassettes.set(key, cassette);
+    }
+    return cassette;
+}
+
+/**
+ * Forgets opened cassettes, so the next use reloads them from disk
+ */
+export function closeCassettes(): void {
+    openCassettes.clear();
+}
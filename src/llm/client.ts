@@ -1,17 +1,41 @@
 /**
- * LLM client - universal client for OpenAI-compatible APIs
+ * LLM client - universal client for chat completion APIs
+ *
+ * Wire formats are handled by provider adapters (see ./providers).
  */
 
 import type {
     LLMConfig,
+    RetryConfig,
+    ToolCall,
     LLMRequest,
     LLMResponse,
+    LLMStreamChunk,
     ExtractionOptions,
     ExtractionResponse,
+    MockOptions,
+    LLMUsage,
 } from './types.js';
 import { LLMError, LLMErrorCodes, type LLMErrorCode } from './errors.js';
 import { buildSystemPrompt, buildUserPrompt } from './prompt-builder.js';
 import { TokenCounter } from './token-counter.js';
+import { loadTokenizer } from './tokenizer.js';
+import { buildResponseFormat, buildExtractionTool, EXTRACTION_TOOL_NAME } from './json-schema.js';
+import type { ProviderAdapter, ProviderContext } from './providers/types.js';
+import { getProvider, detectProvider } from './providers/registry.js';
+import { sendJSON, classifyHttpError } from './providers/http.js';
+import { readStreamEvents, StreamAccumulator } from './stream.js';
+import { openCassette } from './cassette.js';
+
+/**
+ * Default retry behaviour when `LLMConfig.retries` is not set
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+    maxRetries: 3,
+    initialDelay: 1000,
+    maxDelay: 10000,
+    backoffFactor: 2,
+};
 
 export class LLMClient {
     private config: LLMConfig & {
@@ -25,8 +49,17 @@ export class LLMClient {
         maxDelay: number;
         backoffFactor: number;
     };
-    private tokenCounter: TokenCounter;
-    private provider: 'openai' | 'ollama';
+    private tokenCounter?: TokenCounter;
+    private provider: ProviderAdapter;
+    private totals: LLMUsage = {
+        requests: 0,
+        retries: 0,
+        estimatedPromptTokens: 0,
+        estimatedCompletionTokens: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        unreportedRequests: 0,
+    };
 
     constructor(config: LLMConfig) {
         this.config = {
@@ -35,54 +68,42 @@ export class LLMClient {
             timeout: 120000, // 120 seconds for slower local models
             ...config,
         };
-        this.retryConfig = config.retries || {
-            maxRetries: 3,
-            initialDelay: 1000,
-            maxDelay: 10000,
-            backoffFactor: 2,
-        };
-        this.tokenCounter = new TokenCounter({
-            maxContextTokens: config.maxContextTokens,
-            tokenBudget: config.tokenBudget,
-            warnThreshold: config.warnThreshold,
-        });
+        this.retryConfig = config.retries || DEFAULT_RETRY_CONFIG;
         // Auto-detect provider if not explicitly set
-        this.provider = config.provider || this.detectProvider(config.baseURL);
+        this.provider = getProvider(config.provider || detectProvider(config.baseURL));
     }
 
     /**
-     * Detect provider type from base URL
+     * Token usage and retries of every extraction request made by this
+     * client so far (kept up to date as requests complete)
      */
-    private detectProvider(baseURL: string): 'openai' | 'ollama' {
-        const url = baseURL.toLowerCase();
-        // Ollama typically uses port 11434
-        if (url.includes(':11434') || url.includes('localhost:11434')) {
-            return 'ollama';
-        }
-        // LM Studio uses port 1234
-        if (url.includes(':1234') || url.includes('localhost:1234')) {
-            return 'ollama'; // LM Studio uses Ollama-compatible format
-        }
-        // Default to OpenAI format for cloud providers
-        return 'openai';
+    get usage(): Readonly<LLMUsage> {
+        return this.totals;
     }
 
     /**
      * Extracts data from text using schema
      */
     async extract(options: ExtractionOptions): Promise<ExtractionResponse> {
-        const { schema, input, systemPrompt } = options;
+        const { schema, input, systemPrompt, history = [], grounding, onProgress } = options;
+
+        const toolMode = this.config.extractionMode === 'tool';
 
         // Build prompts
-        const system = systemPrompt || buildSystemPrompt(schema);
+        let system = systemPrompt || buildSystemPrompt(schema, { grounding });
+        if (toolMode) {
+            system += `\n\nReturn your result by calling the "${EXTRACTION_TOOL_NAME}" tool.`;
+        }
         const user = buildUserPrompt(input);
 
-        // Check token budget
-        const usage = this.tokenCounter.calculateUsage(system, user);
+        // Check token budget (follow-up turns count towards the input)
+        const conversation = [user, ...history.map(m => m.content)].join('\n\n');
+        const tokenCounter = await this.getTokenCounter();
+        const usage = tokenCounter.calculateUsage(system, conversation);
         
         // Debug logging if enabled
         if (this.config.debug || this.config.debugTokens) {
-            console.error('[DEBUG] Token Usage:\n' + this.tokenCounter.formatUsage(usage));
+            console.error('[DEBUG] Token Usage:\n' + tokenCounter.formatUsage(usage));
         }
 
         if (this.config.debug) {
@@ -91,9 +112,9 @@ export class LLMClient {
         }
 
         // Error if over limit
-        if (this.tokenCounter.exceedsLimit(usage)) {
+        if (tokenCounter.exceedsLimit(usage)) {
             throw new LLMError(
-                this.tokenCounter.getErrorMessage(usage),
+                tokenCounter.getErrorMessage(usage),
                 LLMErrorCodes.TOKEN_LIMIT_EXCEEDED,
                 undefined,
                 { usage }
@@ -101,8 +122,8 @@ export class LLMClient {
         }
 
         // Warn if approaching limit
-        if (this.tokenCounter.shouldWarn(usage)) {
-            console.warn(this.tokenCounter.getWarningMessage(usage));
+        if (tokenCounter.shouldWarn(usage)) {
+            console.warn(tokenCounter.getWarningMessage(usage));
         }
 
         // Create request
@@ -111,26 +132,27 @@ export class LLMClient {
             messages: [
                 { role: 'system', content: system },
                 { role: 'user', content: user },
+                ...history,
             ],
             temperature: this.config.temperature,
             max_tokens: this.config.maxTokens,
         };
 
-        // Add JSON mode based on provider
-        if (this.config.jsonMode) {
-            if (this.provider === 'ollama') {
-                // Check if using OpenAI-compatible endpoint (/v1)
-                if (this.config.baseURL?.includes('/v1')) {
-                    // OpenAI-compatible endpoint needs response_format
-                    request.response_format = { type: 'json_object' };
-                } else {
-                    // Native Ollama API (/api/chat) uses format parameter
-                    request.format = 'json';
-                }
-            } else {
-                // OpenAI and other providers use response_format parameter
-                request.response_format = { type: 'json_object' };
-            }
+        // Adapters that build responses from the schema need every format, enforced or not
+        const annotate = this.provider.needsResponseSchema ?? false;
+        if (toolMode) {
+            // Expose the schema as a single tool the model must call
+            request.tools = [buildExtractionTool(schema, { grounding, annotate })];
+            request.tool_choice = { type: 'function', function: { name: EXTRACTION_TOOL_NAME } };
+        } else if (this.config.structuredOutput || this.provider.needsResponseSchema) {
+            // Constrain the response to the schema-derived JSON Schema
+            request.response_format = buildResponseFormat(schema, { grounding, annotate });
+        }
+
+        // Stream only when someone is listening and the provider can
+        const stream = Boolean(onProgress && this.provider.parseStreamChunk);
+        if (stream) {
+            request.stream = true;
         }
 
         // Add Ollama-specific options if configured
@@ -139,20 +161,22 @@ export class LLMClient {
         }
 
         if (this.config.debug) {
-            console.error('[DEBUG] Provider:', this.provider);
+            console.error('[DEBUG] Provider:', this.provider.name);
             console.error('[DEBUG] LLM Request:', {
                 model: request.model,
                 temperature: request.temperature,
                 max_tokens: request.max_tokens,
-                response_format: request.response_format,
-                format: request.format,
                 jsonMode: this.config.jsonMode,
+                structuredOutput: this.config.structuredOutput,
+                extractionMode: this.config.extractionMode ?? 'prompt',
+                stream,
                 options: request.options,
             });
         }
 
         // Call API with retries
-        const response = await this.chatWithRetry(request);
+        const response = await this.chatWithRetry(request, onProgress);
+        this.recordUsage(response, usage.systemTokens + usage.inputTokens, tokenCounter);
 
         if (this.config.debug) {
             console.error('[DEBUG] LLM Response:\n' + JSON.stringify(response, null, 2));
@@ -162,16 +186,50 @@ export class LLMClient {
         return this.parseExtractionResponse(response);
     }
 
+    /**
+     * Returns the token counter, loading the configured tokenizer on first use
+     */
+    private async getTokenCounter(): Promise<TokenCounter> {
+        if (!this.tokenCounter) {
+            this.tokenCounter = new TokenCounter({
+                maxContextTokens: this.config.maxContextTokens,
+                tokenBudget: this.config.tokenBudget,
+                warnThreshold: this.config.warnThreshold,
+                tokenizer: await loadTokenizer(this.config.tokenizer),
+            });
+        }
+        return this.tokenCounter;
+    }
+
+    /**
+     * Adds a response's estimated and reported token counts to the totals
+     */
+    private recordUsage(response: LLMResponse, estimatedPromptTokens: number, tokenCounter: TokenCounter): void {
+        this.totals.requests++;
+        this.totals.estimatedPromptTokens += estimatedPromptTokens;
+        this.totals.estimatedCompletionTokens += tokenCounter.countTokens(this.getResponseText(response));
+
+        if (response.usage) {
+            this.totals.promptTokens += response.usage.prompt_tokens ?? 0;
+            this.totals.completionTokens += response.usage.completion_tokens ?? 0;
+        } else {
+            this.totals.unreportedRequests++;
+        }
+    }
+
     /**
      * Calls chat completion API with retry logic
      */
-    private async chatWithRetry(request: LLMRequest): Promise<LLMResponse> {
+    private async chatWithRetry(
+        request: LLMRequest,
+        onProgress?: (text: string) => void
+    ): Promise<LLMResponse> {
         let lastError: LLMError | null = null;
         let attempt = 0;
 
         while (attempt <= this.retryConfig.maxRetries) {
             try {
-                return await this.chat(request);
+                return await this.chat(request, onProgress);
             } catch (error) {
                 lastError = error as LLMError;
 
@@ -192,6 +250,7 @@ export class LLMClient {
                 await this.sleep(delay);
                 
                 attempt++;
+                this.totals.retries++;
             }
         }
 
@@ -243,36 +302,60 @@ export class LLMClient {
     }
 
     /**
-     * Calls chat completion API
+     * Calls chat completion API through the provider adapter
+     *
+     * The adapter builds the wire request and maps the response back to
+     * the OpenAI-compatible shape. With `request.stream`, the streamed
+     * chunks are accumulated into the same shape and `onProgress` receives
+     * the text received so far after each chunk. The timeout covers the
+     * whole request, including reading the stream.
+     *
+     * With `config.cassette`, responses are recorded to the cassette file,
+     * or served from it without calling the provider (a replayed streaming
+     * request reports its full text as one progress update).
+     */
+    async chat(request: LLMRequest, onProgress?: (text: string) => void): Promise<LLMResponse> {
+        const cassette = this.config.cassette && await openCassette(this.config.cassette);
+
+        if (cassette && this.config.cassette?.mode === 'replay') {
+            const response = cassette.replay(request);
+            if (request.stream) {
+                onProgress?.(this.getResponseText(response));
+            }
+            return response;
+        }
+
+        const response = await this.send(request, onProgress);
+        await cassette?.record(request, response);
+        return response;
+    }
+
+    /**
+     * Sends a request to the provider
      */
-    async chat(request: LLMRequest): Promise<LLMResponse> {
-        const url = `${this.config.baseURL}/chat/completions`;
+    private async send(request: LLMRequest, onProgress?: (text: string) => void): Promise<LLMResponse> {
+        const context: ProviderContext = { config: this.config };
+        const httpRequest = this.provider.buildRequest(request, context);
 
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
+        let data: unknown;
         try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
-                },
-                body: JSON.stringify(request),
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
+            const response = this.provider.send
+                ? await this.provider.send(httpRequest, context, controller.signal)
+                : await sendJSON(httpRequest, controller.signal);
 
             if (!response.ok) {
-                await this.handleErrorResponse(response);
+                await this.handleErrorResponse(response, context);
             }
 
-            const data = await response.json();
-            return data as LLMResponse;
-        } catch (error) {
-            clearTimeout(timeoutId);
+            if (request.stream && this.provider.parseStreamChunk) {
+                return await this.readStream(response, context, onProgress);
+            }
 
+            data = await response.json();
+        } catch (error) {
             if (error instanceof LLMError) {
                 throw error;
             }
@@ -290,51 +373,85 @@ export class LLMClient {
                 undefined,
                 { originalError: (error as Error).message }
             );
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        try {
+            return this.provider.parseResponse(data, context);
+        } catch (error) {
+            if (error instanceof LLMError) {
+                throw error;
+            }
+
+            throw new LLMError(
+                `Invalid ${this.provider.name} response: ${(error as Error).message}`,
+                LLMErrorCodes.INVALID_RESPONSE,
+                undefined,
+                { error: (error as Error).message }
+            );
         }
     }
 
     /**
-     * Handles error responses from API
+     * Reads a streamed response through the adapter's chunk parser
      */
-    private async handleErrorResponse(response: Response): Promise<never> {
-        const status = response.status;
-        let errorMessage = `API error: ${status} ${response.statusText}`;
-        let errorCode: LLMErrorCode = LLMErrorCodes.API_ERROR;
-        const details: Record<string, unknown> = {};
+    private async readStream(
+        response: Response,
+        context: ProviderContext,
+        onProgress?: (text: string) => void
+    ): Promise<LLMResponse> {
+        if (!response.body) {
+            throw new LLMError(
+                `Invalid ${this.provider.name} response: streamed response has no body`,
+                LLMErrorCodes.INVALID_RESPONSE
+            );
+        }
 
-        try {
-            const errorData = await response.json() as { error?: { message?: string; type?: string } };
-            const rawMessage = errorData.error?.message || errorMessage;
-            errorMessage = rawMessage;
-            
-            // Detect context window/token limit errors from various providers
-            const msgLower = rawMessage.toLowerCase();
-            if (msgLower.includes('context length') || 
-                msgLower.includes('maximum context') ||
-                msgLower.includes('context_length_exceeded') ||
-                msgLower.includes('token limit') ||
-                msgLower.includes('too many tokens') ||
-                msgLower.includes('prompt is too long') ||
-                (msgLower.includes('context') && msgLower.includes('exceed'))) {
-                errorCode = LLMErrorCodes.TOKEN_LIMIT_EXCEEDED;
-                details.originalMessage = rawMessage;
+        const accumulator = new StreamAccumulator();
+
+        // Read errors (timeouts, dropped connections) propagate to chat()
+        for await (const event of readStreamEvents(response.body)) {
+            let chunk: LLMStreamChunk | undefined;
+            try {
+                chunk = this.provider.parseStreamChunk!(JSON.parse(event), context);
+            } catch (error) {
+                throw new LLMError(
+                    `Invalid ${this.provider.name} response: ${(error as Error).message}`,
+                    LLMErrorCodes.INVALID_RESPONSE,
+                    undefined,
+                    { error: (error as Error).message, event: event.slice(0, 200) }
+                );
             }
-        } catch {
-            // If we can't parse error JSON, use status text
-        }
 
-        if (status === 401 || status === 403) {
-            errorCode = LLMErrorCodes.AUTHENTICATION_ERROR;
-        } else if (status === 429) {
-            errorCode = LLMErrorCodes.RATE_LIMIT;
-            // Capture Retry-After header if present
-            const retryAfter = response.headers.get('Retry-After');
-            if (retryAfter) {
-                details.retryAfter = retryAfter;
+            if (chunk) {
+                accumulator.add(chunk);
+                onProgress?.(accumulator.text);
             }
         }
 
-        throw new LLMError(errorMessage, errorCode, status, details);
+        return accumulator.toResponse(this.config.model);
+    }
+
+    /**
+     * Handles error responses from API
+     */
+    private async handleErrorResponse(response: Response, context: ProviderContext): Promise<never> {
+        let body: unknown;
+        try {
+            body = await response.json();
+        } catch {
+            // If we can't parse error JSON, classify from the status alone
+        }
+
+        const errorResponse = {
+            status: response.status,
+            statusText: response.statusText,
+            body,
+            headers: response.headers,
+        };
+
+        throw this.provider.classifyError?.(errorResponse, context) ?? classifyHttpError(errorResponse);
     }
 
     /**
@@ -427,6 +544,25 @@ export class LLMClient {
         return jsonContent;
     }
 
+    /**
+     * Returns the text a response carries: the first tool call's arguments, or the message content
+     */
+    private getResponseText(response: LLMResponse): string {
+        const message = response.choices?.[0]?.message;
+        const toolCall = message?.tool_calls?.[0];
+        return toolCall ? this.getToolArguments(toolCall) : message?.content ?? '';
+    }
+
+    /**
+     * Returns a tool call's arguments as a JSON string
+     *
+     * Some providers return arguments as an already-parsed object.
+     */
+    private getToolArguments(toolCall: ToolCall): string {
+        const args: unknown = toolCall.function.arguments;
+        return typeof args === 'string' ? args : JSON.stringify(args ?? null);
+    }
+
     /**
      * Parses extraction response from LLM
      */
@@ -439,15 +575,20 @@ export class LLMClient {
         }
 
         const message = response.choices[0].message;
-        if (!message || !message.content) {
+        const toolCall = message?.tool_calls?.find(call => call.function?.name === EXTRACTION_TOOL_NAME)
+            ?? message?.tool_calls?.[0];
+
+        if (!message || (!message.content && !toolCall)) {
             throw new LLMError(
                 'No content in LLM response',
                 LLMErrorCodes.INVALID_RESPONSE
             );
         }
 
-        // Extract JSON from response (handles markdown wrapping)
-        const content = this.unwrapMarkdownJSON(message.content);
+        // Prefer tool call arguments; otherwise extract JSON from content (handles markdown wrapping)
+        const content = toolCall
+            ? this.getToolArguments(toolCall)
+            : this.unwrapMarkdownJSON(message.content);
 
         try {
             const parsed = JSON.parse(content);
@@ -468,6 +609,7 @@ export class LLMClient {
                 data: parsed.data,
                 confidence: parsed.confidence,
                 confidenceByField: parsed.confidenceByField,
+                ...(parsed.evidence && typeof parsed.evidence === 'object' && { evidence: parsed.evidence }),
             };
         } catch (error) {
             throw new LLMError(
@@ -512,4 +654,18 @@ export const LLMPresets = {
         apiKey,
         model,
     }),
+
+    anthropic: (apiKey: string, model: string = 'claude-3-5-haiku-latest'): LLMConfig => ({
+        baseURL: 'https://api.anthropic.com',
+        apiKey,
+        model,
+        provider: 'anthropic',
+    }),
+
+    mock: (options: MockOptions = {}): LLMConfig => ({
+        baseURL: 'mock://',
+        model: 'mock',
+        provider: 'mock',
+        mock: options,
+    }),
 };
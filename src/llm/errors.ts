@@ -10,6 +10,9 @@ export const LLMErrorCodes = {
     AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
     RATE_LIMIT: 'RATE_LIMIT',
     TOKEN_LIMIT_EXCEEDED: 'TOKEN_LIMIT_EXCEEDED',
+    UNKNOWN_PROVIDER: 'UNKNOWN_PROVIDER',
+    CASSETTE_ERROR: 'CASSETTE_ERROR',
+    INVALID_CONFIG: 'INVALID_CONFIG',
 } as const;
 
 export type LLMErrorCode = (typeof LLMErrorCodes)[keyof typeof LLMErrorCodes];
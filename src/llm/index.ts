@@ -4,8 +4,35 @@
 
 export { LLMClient, createLLMClient, LLMPresets } from './client.js';
 export { LLMError, LLMErrorCodes } from './errors.js';
-export { buildSystemPrompt, buildUserPrompt } from './prompt-builder.js';
-export { TokenCounter, estimateTokens } from './token-counter.js';
+export { buildSystemPrompt, buildUserPrompt, buildRepairPrompt } from './prompt-builder.js';
+export { TokenCounter, estimateTokens, heuristicTokenizer } from './token-counter.js';
+export {
+    BPETokenizer,
+    TOKENIZER_VOCABULARIES,
+    loadTokenizer,
+    getTokenizerName,
+    parseTiktokenRanks,
+    parseHuggingFaceMerges,
+} from './tokenizer.js';
+export {
+    buildResponseJsonSchema,
+    buildResponseFormat,
+    buildExtractionTool,
+    EXTRACTION_TOOL_NAME,
+} from './json-schema.js';
+export {
+    registerProvider,
+    unregisterProvider,
+    getProvider,
+    listProviders,
+    detectProvider,
+} from './providers/registry.js';
+export { openaiAdapter } from './providers/openai.js';
+export { ollamaAdapter } from './providers/ollama.js';
+export { anthropicAdapter } from './providers/anthropic.js';
+export { mockAdapter, buildPlaceholder } from './providers/mock.js';
+export { classifyHttpError } from './providers/http.js';
+export { Cassette, openCassette, closeCassettes, getRequestKey } from './cassette.js';
 export type {
     LLMConfig,
     RetryConfig,
@@ -15,5 +42,29 @@ export type {
     ExtractionOptions,
     ExtractionResponse,
     TokenBudget,
+    OllamaOptions,
+    ProviderName,
+    JsonSchemaResponseFormat,
+    ExtractionMode,
+    ToolCall,
+    ToolDefinition,
+    LLMStreamChunk,
+    CassetteConfig,
+    CassetteMode,
+    MockOptions,
+    MockFault,
+    Tokenizer,
+    TokenizerConfig,
+    TokenizerVocabulary,
+    LLMUsage,
 } from './types.js';
 export type { TokenUsage, TokenCounterConfig } from './token-counter.js';
+export type { JsonSchema, ResponseSchemaOptions } from './json-schema.js';
+export type { CassetteInteraction, CassetteFile } from './cassette.js';
+export type { SystemPromptOptions } from './prompt-builder.js';
+export type {
+    ProviderAdapter,
+    ProviderContext,
+    ProviderHttpRequest,
+    ProviderErrorResponse,
+} from './providers/types.js';
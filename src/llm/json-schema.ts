@@ -0,0 +1,251 @@
+/**
+ * JSON Schema generation for structured output
+ *
+ * Converts an Ordis schema into a JSON Schema describing the full extraction
+ * response ({ data, confidence, confidenceByField }), suitable for
+ * OpenAI-style `response_format: { type: "json_schema" }` and Ollama's
+ * `format` parameter.
+ */
+
+import type { Schema, FieldDefinition, ObjectProperties } from '../schemas/types.js';
+import type { JsonSchemaResponseFormat, ToolDefinition } from './types.js';
+
+/**
+ * A JSON Schema object
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Name of the tool used in tool extraction mode
+ */
+export const EXTRACTION_TOOL_NAME = 'record_extraction';
+
+/**
+ * Options for the generated response schema
+ */
+export interface ResponseSchemaOptions {
+    /** Include an `evidence` object with a quote (or null) per field */
+    grounding?: boolean;
+    /**
+     * Pass every string format and `uniqueItems` through, not only what
+     * providers enforce (for adapters that build responses from the schema,
+     * like the mock)
+     */
+    annotate?: boolean;
+}
+
+/**
+ * String formats passed through to the JSON Schema (others are left to validation)
+ */
+const SUPPORTED_FORMATS = new Set(['date-time', 'date', 'time', 'email', 'uuid']);
+
+/**
+ * Tracks whether the generated schema can be enforced in strict mode
+ *
+ * Strict mode requires every object to list its properties; free-form
+ * objects and arrays without item definitions rule it out.
+ */
+interface BuildState {
+    strict: boolean;
+    /** See ResponseSchemaOptions.annotate */
+    annotate: boolean;
+}
+
+/**
+ * Builds the JSON Schema for a single field
+ *
+ * Optional fields accept null in addition to their type.
+ */
+function buildFieldSchema(field: FieldDefinition, state: BuildState): JsonSchema {
+    const schema: JsonSchema = {};
+
+    if (field.description) {
+        schema.description = field.description;
+    }
+
+    // Alternatives become anyOf (strict mode has no oneOf); optional adds a null branch
+    const alternatives = field.oneOf ?? field.anyOf;
+    if (alternatives) {
+        schema.anyOf = alternatives.map(alternative => buildFieldSchema(alternative, state));
+        if (field.optional) {
+            (schema.anyOf as JsonSchema[]).push({ type: 'null' });
+        }
+        return schema;
+    }
+
+    switch (field.type) {
+        case 'object':
+            if (field.properties) {
+                Object.assign(schema, buildObjectSchema(field.properties, state));
+            } else {
+                schema.type = 'object';
+                state.strict = false;
+            }
+            break;
+
+        case 'array':
+            schema.type = 'array';
+            if (field.items) {
+                schema.items = buildFieldSchema(field.items, state);
+            } else {
+                state.strict = false;
+            }
+            if (field.minItems !== undefined) schema.minItems = field.minItems;
+            if (field.maxItems !== undefined) schema.maxItems = field.maxItems;
+            // Strict mode has no uniqueItems; it is left to validation
+            if (field.uniqueItems && state.annotate) schema.uniqueItems = true;
+            break;
+
+        case 'number':
+        case 'integer':
+            schema.type = field.type;
+            if (field.min !== undefined) schema.minimum = field.min;
+            if (field.max !== undefined) schema.maximum = field.max;
+            break;
+
+        case 'string':
+            schema.type = 'string';
+            if (field.enum) schema.enum = [...field.enum];
+            if (field.pattern) schema.pattern = field.pattern;
+            if (field.minLength !== undefined) schema.minLength = field.minLength;
+            if (field.maxLength !== undefined) schema.maxLength = field.maxLength;
+            if (field.format && (state.annotate || SUPPORTED_FORMATS.has(field.format))) schema.format = field.format;
+            break;
+
+        default:
+            schema.type = field.type;
+    }
+
+    if (field.optional) {
+        schema.type = [schema.type, 'null'];
+        if (Array.isArray(schema.enum)) {
+            schema.enum = [...schema.enum, null];
+        }
+    }
+
+    return schema;
+}
+
+/**
+ * Builds a closed object schema where every property is listed in `required`
+ * (optional properties are nullable instead of omittable)
+ */
+function buildObjectSchema(properties: ObjectProperties, state: BuildState): JsonSchema {
+    const schemaProperties: Record<string, JsonSchema> = {};
+    for (const [name, field] of Object.entries(properties)) {
+        schemaProperties[name] = buildFieldSchema(field, state);
+    }
+
+    return {
+        type: 'object',
+        properties: schemaProperties,
+        required: Object.keys(properties),
+        additionalProperties: false,
+    };
+}
+
+/**
+ * Builds a closed object schema with the same property schema for every field
+ */
+function buildPerFieldSchema(schema: Schema, property: JsonSchema): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    for (const name of Object.keys(schema.fields)) {
+        properties[name] = { ...property };
+    }
+
+    return {
+        type: 'object',
+        properties,
+        required: Object.keys(schema.fields),
+        additionalProperties: false,
+    };
+}
+
+/**
+ * Builds the JSON Schema for the extraction response
+ *
+ * @param schema - Ordis schema
+ * @param options - Set `grounding` to include the per-field `evidence` quotes
+ * @returns JSON Schema and whether it is compatible with strict enforcement
+ */
+export function buildResponseJsonSchema(
+    schema: Schema,
+    options: ResponseSchemaOptions = {}
+): { schema: JsonSchema; strict: boolean } {
+    const state: BuildState = { strict: true, annotate: options.annotate ?? false };
+    const data = buildObjectSchema(schema.fields, state);
+
+    const properties: Record<string, JsonSchema> = {
+        data,
+        confidence: { type: 'number', minimum: 0, maximum: 100 },
+        confidenceByField: buildPerFieldSchema(schema, { type: 'number', minimum: 0, maximum: 100 }),
+    };
+    if (options.grounding) {
+        properties.evidence = buildPerFieldSchema(schema, { type: ['string', 'null'] });
+    }
+
+    return {
+        schema: {
+            type: 'object',
+            properties,
+            required: Object.keys(properties),
+            additionalProperties: false,
+        },
+        strict: state.strict,
+    };
+}
+
+/**
+ * Builds an OpenAI-style `response_format` for structured output
+ *
+ * The schema name is derived from `schema.metadata.name` (sanitized), or
+ * "extraction" if the schema has no name.
+ *
+ * @param schema - Ordis schema
+ * @param options - Response schema options
+ * @returns Response format with the generated JSON Schema
+ */
+export function buildResponseFormat(
+    schema: Schema,
+    options: ResponseSchemaOptions = {}
+): JsonSchemaResponseFormat {
+    const { schema: jsonSchema, strict } = buildResponseJsonSchema(schema, options);
+    const name = (schema.metadata?.name ?? '')
+        .replace(/[^a-zA-Z0-9_-]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, 64);
+
+    return {
+        type: 'json_schema',
+        json_schema: {
+            name: name || 'extraction',
+            strict,
+            schema: jsonSchema,
+        },
+    };
+}
+
+/**
+ * Builds the function/tool definition used in tool extraction mode
+ *
+ * The tool's parameters are the extraction response schema, so the call
+ * arguments have the same shape as a prompt-mode JSON response.
+ *
+ * @param schema - Ordis schema
+ * @param options - Response schema options
+ * @returns Tool definition
+ */
+export function buildExtractionTool(schema: Schema, options: ResponseSchemaOptions = {}): ToolDefinition {
+    const { schema: parameters, strict } = buildResponseJsonSchema(schema, options);
+
+    return {
+        type: 'function',
+        function: {
+            name: EXTRACTION_TOOL_NAME,
+            description: schema.metadata?.description
+                ?? 'Record the data extracted from the input, with confidence scores',
+            parameters,
+            strict,
+        },
+    };
+}
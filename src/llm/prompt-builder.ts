@@ -3,13 +3,35 @@
  */
 
 import type { Schema, FieldDefinition, ObjectProperties } from '../schemas/types.js';
+import { getFormat } from '../schemas/formats.js';
 
 /**
  * Formats a field definition for the prompt
  */
 function formatFieldDefinition(fieldName: string, fieldDef: FieldDefinition, indent: string = ''): string {
-    let text = `${indent}- ${fieldName}: ${fieldDef.type}`;
-    
+    const nested = formatNestedFields(fieldDef, indent);
+    return `${indent}- ${fieldName}: ${formatType(fieldDef)}${formatConstraints(fieldDef)}${nested ? '\n' + nested : ''}`;
+}
+
+/**
+ * Formats a field's type ('one of'/'any of' for alternatives, listed below it)
+ */
+function formatType(fieldDef: FieldDefinition): string {
+    if (fieldDef.oneOf) {
+        return 'one of';
+    }
+    if (fieldDef.anyOf) {
+        return 'any of';
+    }
+    return fieldDef.type ?? 'unknown';
+}
+
+/**
+ * Formats the optional flag, description and value constraints of a field
+ */
+function formatConstraints(fieldDef: FieldDefinition): string {
+    let text = '';
+
     if (fieldDef.optional) {
         text += ' (optional)';
     }
@@ -27,31 +49,72 @@ function formatFieldDefinition(fieldName: string, fieldDef: FieldDefinition, ind
     if (fieldDef.pattern) {
         text += ` - pattern: ${fieldDef.pattern}`;
     }
+    if (fieldDef.format) {
+        const description = getFormat(fieldDef.format)?.description;
+        text += ` - format: ${fieldDef.format}${description ? ` (${description})` : ''}`;
+    }
+    if (fieldDef.minLength !== undefined || fieldDef.maxLength !== undefined) {
+        text += ` - length: ${formatBounds(fieldDef.minLength, fieldDef.maxLength)} characters`;
+    }
+    if (fieldDef.minItems !== undefined || fieldDef.maxItems !== undefined) {
+        text += ` - items: ${formatBounds(fieldDef.minItems, fieldDef.maxItems)}`;
+    }
+    if (fieldDef.uniqueItems) {
+        text += ' - no duplicate items';
+    }
+
+    return text;
+}
+
+/**
+ * Describes a count range, e.g. "exactly 2", "at least 1" or "1 to 5"
+ */
+function formatBounds(min: number | undefined, max: number | undefined): string {
+    if (min !== undefined && max !== undefined) {
+        return min === max ? `exactly ${min}` : `${min} to ${max}`;
+    }
+    return min !== undefined ? `at least ${min}` : `at most ${max}`;
+}
+
+/**
+ * Formats the alternatives, array items or object properties of a field, if it has any
+ */
+function formatNestedFields(fieldDef: FieldDefinition, indent: string): string | undefined {
+    // Handle oneOf/anyOf alternatives
+    const alternatives = fieldDef.oneOf ?? fieldDef.anyOf;
+    if (alternatives) {
+        return alternatives
+            .map((alternative, index) => formatAlternative(alternative, index, indent + '  '))
+            .join('\n');
+    }
 
     // Handle array type
     if (fieldDef.type === 'array' && fieldDef.items) {
-        text += '\n' + formatArrayItems(fieldDef.items, indent + '  ');
+        return formatArrayItems(fieldDef.items, indent + '  ');
     }
 
     // Handle object type
     if (fieldDef.type === 'object' && fieldDef.properties) {
-        text += '\n' + formatObjectProperties(fieldDef.properties, indent + '  ');
+        return formatObjectProperties(fieldDef.properties, indent + '  ');
     }
 
-    return text;
+    return undefined;
 }
 
 /**
- * Formats array items for the prompt
+ * Formats array items for the prompt (any field type, including nested arrays)
  */
-function formatArrayItems(items: { type: string; properties?: ObjectProperties }, indent: string): string {
-    let text = `${indent}items (${items.type}):`;
-    
-    if (items.properties) {
-        text += '\n' + formatObjectProperties(items.properties, indent + '  ');
-    }
+function formatArrayItems(items: FieldDefinition, indent: string): string {
+    const nested = formatNestedFields(items, indent);
+    return `${indent}items (${formatType(items)})${formatConstraints(items)}${nested ? ':\n' + nested : ''}`;
+}
 
-    return text;
+/**
+ * Formats one alternative of a oneOf/anyOf field for the prompt
+ */
+function formatAlternative(alternative: FieldDefinition, index: number, indent: string): string {
+    const nested = formatNestedFields(alternative, indent);
+    return `${indent}option ${index + 1}: ${formatType(alternative)}${formatConstraints(alternative)}${nested ? '\n' + nested : ''}`;
 }
 
 /**
@@ -67,14 +130,32 @@ function formatObjectProperties(properties: ObjectProperties, indent: string): s
     return lines.join('\n');
 }
 
+/**
+ * Checks whether a field or anything nested in it has oneOf/anyOf alternatives
+ */
+function hasNestedAlternatives(fieldDef: FieldDefinition): boolean {
+    return Boolean(fieldDef.oneOf || fieldDef.anyOf) ||
+        (fieldDef.items !== undefined && hasNestedAlternatives(fieldDef.items)) ||
+        Object.values(fieldDef.properties ?? {}).some(hasNestedAlternatives);
+}
+
+/**
+ * Options for building the system prompt
+ */
+export interface SystemPromptOptions {
+    /** Ask for a verbatim quote from the input supporting each field */
+    grounding?: boolean;
+}
+
 /**
  * Builds a system prompt for extraction
  */
-export function buildSystemPrompt(schema: Schema): string {
+export function buildSystemPrompt(schema: Schema, options: SystemPromptOptions = {}): string {
     const { fields, metadata, confidence, prompt } = schema;
 
     // Check if schema has any array fields
     const hasArrayFields = Object.values(fields).some(f => f.type === 'array');
+    const hasAlternatives = Object.values(fields).some(hasNestedAlternatives);
 
     let promptText = `You are a structured data extraction system. Extract information from text according to the schema below.
 
@@ -84,6 +165,11 @@ Rules:
 - Use null for missing or uncertain values
 - Include all fields in the response, even if null`;
 
+    if (options.grounding) {
+        promptText += `
+- For each field, copy the exact text from the input that supports its value into "evidence" (verbatim, without rewording; null if the value is null)`;
+    }
+
     // Add array-specific instructions if schema has array fields
     if (hasArrayFields) {
         promptText += `
@@ -91,6 +177,12 @@ Rules:
 - For enum fields: use the exact values from the allowed values list`;
     }
 
+    // Explain "one of"/"any of" fields if the schema has any
+    if (hasAlternatives) {
+        promptText += `
+- For "one of"/"any of" fields: return a value matching one of the listed options, in that option's shape`;
+    }
+
     promptText += `
 
 Schema:
@@ -161,7 +253,8 @@ Output:
 {
   "data": { ... all fields from schema ... },
   "confidence": <number 0-100>,
-  "confidenceByField": { ... confidence for each field ... }
+  "confidenceByField": { ... confidence for each field ... }${options.grounding ? `,
+  "evidence": { ... quote from the input for each field ... }` : ''}
 }`;
 
     return promptText;
@@ -173,3 +266,16 @@ Output:
 export function buildUserPrompt(input: string): string {
     return `Extract data from the following text:\n\n${input}`;
 }
+
+/**
+ * Builds a follow-up prompt asking the model to fix problems in its previous response
+ */
+export function buildRepairPrompt(problems: string): string {
+    return `Your previous response could not be accepted:
+
+${problems}
+
+Return the complete response again in the same JSON structure ("data", "confidence", "confidenceByField").
+Fix only the fields listed above and keep all other values unchanged.
+Return only valid JSON (no markdown, no explanation).`;
+}
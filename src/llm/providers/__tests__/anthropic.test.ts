@@ -0,0 +1,230 @@
+/**
+ * Tests for the Anthropic Messages API adapter (against a local mock server)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { LLMClient, LLMPresets } from '../../client.js';
+import { LLMErrorCodes } from '../../errors.js';
+import { detectProvider } from '../registry.js';
+import { getAnthropicMessagesURL, toAnthropicRequest, fromAnthropicResponse } from '../anthropic.js';
+import type { Schema } from '../../../schemas/types.js';
+
+interface RecordedRequest {
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+const schema: Schema = {
+    fields: {
+        name: { type: 'string' },
+        age: { type: 'number' },
+    },
+};
+
+describe('Anthropic adapter', () => {
+    let server: http.Server;
+    let baseURL: string;
+    let requests: RecordedRequest[];
+    let reply: (req: RecordedRequest) => { status: number; body: unknown };
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                const recorded = { url: req.url, headers: req.headers, body: JSON.parse(raw) };
+                requests.push(recorded);
+                const { status, body } = reply(recorded);
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(body));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        reply = () => ({
+            status: 200,
+            body: {
+                id: 'msg_01',
+                type: 'message',
+                role: 'assistant',
+                model: 'claude-test',
+                content: [{
+                    type: 'text',
+                    text: JSON.stringify({
+                        data: { name: 'Ada', age: 36 },
+                        confidence: 92,
+                        confidenceByField: { name: 95, age: 90 },
+                    }),
+                }],
+                stop_reason: 'end_turn',
+                usage: { input_tokens: 210, output_tokens: 40 },
+            },
+        });
+    });
+
+    it('should extract through /v1/messages with Anthropic headers', async () => {
+        const client = new LLMClient({
+            baseURL,
+            model: 'claude-test',
+            apiKey: 'sk-ant-test',
+            provider: 'anthropic',
+        });
+
+        const result = await client.extract({ schema, input: 'Ada, 36' });
+
+        expect(result.data).toEqual({ name: 'Ada', age: 36 });
+        expect(requests).toHaveLength(1);
+
+        const [request] = requests;
+        expect(request.url).toBe('/v1/messages');
+        expect(request.headers['x-api-key']).toBe('sk-ant-test');
+        expect(request.headers['anthropic-version']).toBe('2023-06-01');
+        expect(request.headers.authorization).toBeUndefined();
+        expect(request.body.system).toContain('data extraction');
+        expect(request.body.messages).toEqual([
+            { role: 'user', content: expect.stringContaining('Ada, 36') },
+        ]);
+        expect(request.body.max_tokens).toBe(2000);
+        expect(request.body.temperature).toBe(0);
+    });
+
+    it('should map response content, stop reason and usage', async () => {
+        const client = new LLMClient({ baseURL: `${baseURL}/v1`, model: 'claude-test', provider: 'anthropic' });
+
+        const response = await client.chat({
+            model: 'claude-test',
+            messages: [{ role: 'user', content: 'hi' }],
+        });
+
+        expect(requests[0].url).toBe('/v1/messages');
+        expect(response.choices[0].message).toEqual({ role: 'assistant', content: expect.stringContaining('"Ada"') });
+        expect(response.choices[0].finish_reason).toBe('stop');
+        expect(response.usage).toEqual({ prompt_tokens: 210, completion_tokens: 40, total_tokens: 250 });
+    });
+
+    it('should leave usage unset when the response has none', async () => {
+        const withUsage = reply;
+        reply = (req) => {
+            const { body } = withUsage(req);
+            return { status: 200, body: { ...(body as object), usage: undefined } };
+        };
+        const client = new LLMClient({ baseURL, model: 'claude-test', provider: 'anthropic' });
+
+        await client.extract({ schema, input: 'Ada, 36' });
+
+        expect(client.usage.unreportedRequests).toBe(1);
+        expect(client.usage.promptTokens).toBe(0);
+    });
+
+    it('should classify API errors from the error envelope', async () => {
+        reply = () => ({
+            status: 401,
+            body: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } },
+        });
+        const client = new LLMClient({ baseURL, model: 'claude-test', apiKey: 'bad', provider: 'anthropic' });
+
+        await expect(client.extract({ schema, input: 'x' })).rejects.toMatchObject({
+            code: LLMErrorCodes.AUTHENTICATION_ERROR,
+            message: 'invalid x-api-key',
+        });
+    });
+
+    it('should detect prompt-too-long errors as token limit errors', async () => {
+        reply = () => ({
+            status: 400,
+            body: { type: 'error', error: { type: 'invalid_request_error', message: 'prompt is too long: 210000 tokens > 200000 maximum' } },
+        });
+        const client = new LLMClient({ baseURL, model: 'claude-test', provider: 'anthropic' });
+
+        await expect(client.extract({ schema, input: 'x' })).rejects.toMatchObject({
+            code: LLMErrorCodes.TOKEN_LIMIT_EXCEEDED,
+        });
+    });
+
+    describe('request and response mapping', () => {
+        it('should build the messages URL from either root', () => {
+            expect(getAnthropicMessagesURL('https://api.anthropic.com')).toBe('https://api.anthropic.com/v1/messages');
+            expect(getAnthropicMessagesURL('https://api.anthropic.com/v1/')).toBe('https://api.anthropic.com/v1/messages');
+        });
+
+        it('should merge consecutive turns with the same role', () => {
+            const request = toAnthropicRequest({
+                model: 'claude-test',
+                messages: [
+                    { role: 'system', content: 'sys' },
+                    { role: 'user', content: 'a' },
+                    { role: 'user', content: 'b' },
+                    { role: 'assistant', content: 'c' },
+                ],
+            });
+
+            expect(request.system).toBe('sys');
+            expect(request.max_tokens).toBe(4096);
+            expect(request.messages).toEqual([
+                { role: 'user', content: 'a\n\nb' },
+                { role: 'assistant', content: 'c' },
+            ]);
+        });
+
+        it('should join text blocks and map max_tokens and tool_use stop reasons', () => {
+            const base = { id: 'm', type: 'message' as const, role: 'assistant' as const, model: 'c' };
+
+            const truncated = fromAnthropicResponse({
+                ...base,
+                content: [{ type: 'text', text: '{"a":' }, { type: 'text', text: '1}' }],
+                stop_reason: 'max_tokens',
+            });
+            expect(truncated.choices[0].message.content).toBe('{"a":1}');
+            expect(truncated.choices[0].finish_reason).toBe('length');
+
+            const tool = fromAnthropicResponse({ ...base, content: [{ type: 'tool_use', id: 't' }], stop_reason: 'tool_use' });
+            expect(tool.choices[0].finish_reason).toBe('tool_calls');
+        });
+
+        it('should map tools and tool_use blocks', () => {
+            const request = toAnthropicRequest({
+                model: 'claude-test',
+                messages: [{ role: 'user', content: 'a' }],
+                tools: [{
+                    type: 'function',
+                    function: { name: 'record_extraction', description: 'Record', parameters: { type: 'object' } },
+                }],
+                tool_choice: { type: 'function', function: { name: 'record_extraction' } },
+            });
+
+            expect(request.tools).toEqual([{ name: 'record_extraction', description: 'Record', input_schema: { type: 'object' } }]);
+            expect(request.tool_choice).toEqual({ type: 'tool', name: 'record_extraction' });
+
+            const response = fromAnthropicResponse({
+                id: 'm',
+                type: 'message',
+                role: 'assistant',
+                model: 'c',
+                content: [{ type: 'tool_use', id: 'toolu_1', name: 'record_extraction', input: { data: {} } }],
+                stop_reason: 'tool_use',
+            });
+
+            expect(response.choices[0].message.tool_calls).toEqual([{
+                id: 'toolu_1',
+                type: 'function',
+                function: { name: 'record_extraction', arguments: '{"data":{}}' },
+            }]);
+        });
+
+        it('should be auto-detected and provided as a preset', () => {
+            expect(detectProvider('https://api.anthropic.com')).toBe('anthropic');
+            expect(LLMPresets.anthropic('key').provider).toBe('anthropic');
+        });
+    });
+});
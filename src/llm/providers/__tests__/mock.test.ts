@@ -0,0 +1,189 @@
+/**
+ * Tests for the offline mock provider
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { LLMClient, LLMPresets } from '../../client.js';
+import { LLMErrorCodes } from '../../errors.js';
+import { detectProvider } from '../registry.js';
+import { buildPlaceholder } from '../mock.js';
+import { extract } from '../../../core/pipeline.js';
+import { listFormats } from '../../../schemas/formats.js';
+import type { Schema } from '../../../schemas/types.js';
+
+const schema: Schema = {
+    fields: {
+        name: { type: 'string' },
+        age: { type: 'integer', min: 18 },
+        status: { type: 'string', enum: ['active', 'inactive'] },
+        joined: { type: 'string', format: 'date', optional: true },
+        verified: { type: 'boolean' },
+        tags: { type: 'array' },
+        address: {
+            type: 'object',
+            properties: {
+                city: { type: 'string' },
+            },
+        },
+    },
+};
+
+const noRetries = { maxRetries: 0, initialDelay: 0, maxDelay: 0, backoffFactor: 1 };
+
+describe('mock provider', () => {
+    beforeEach(() => {
+        global.fetch = vi.fn();
+    });
+
+    it('should be detected from mock: URLs', () => {
+        expect(detectProvider('mock://')).toBe('mock');
+        expect(detectProvider('http://localhost:11434/v1')).not.toBe('mock');
+    });
+
+    it('should fabricate schema-conformant placeholders without network access', async () => {
+        const client = new LLMClient(LLMPresets.mock());
+        const result = await client.extract({ schema, input: 'anything' });
+
+        expect(result.data).toEqual({
+            name: '',
+            age: 18,
+            status: 'active',
+            joined: '1970-01-01',
+            verified: false,
+            tags: [],
+            address: { city: '' },
+        });
+        expect(result.confidence).toBe(100);
+        expect(result.confidenceByField.status).toBe(100);
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should return valid placeholders for every registered format', async () => {
+        const formatSchema: Schema = {
+            fields: Object.fromEntries(listFormats().map(format => [format.replace(/-/g, '_'), { type: 'string', format }])),
+        };
+
+        const result = await extract({ input: 'anything', schema: formatSchema, llmConfig: LLMPresets.mock() });
+
+        expect(result.errors).toEqual([]);
+        expect(result.success).toBe(true);
+        expect(result.data?.iso_country).toBe('US');
+    });
+
+    it('should return placeholders that meet length and item constraints', async () => {
+        const constrained: Schema = {
+            fields: {
+                code: { type: 'string', minLength: 3, maxLength: 3 },
+                line_items: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 2, uniqueItems: true },
+                scores: { type: 'array', items: { type: 'integer', min: 1 }, minItems: 2, uniqueItems: true },
+            },
+        };
+
+        const result = await extract({ input: 'anything', schema: constrained, llmConfig: LLMPresets.mock() });
+
+        expect(result.errors).toEqual([]);
+        expect(result.data).toEqual({ code: 'xxx', line_items: ['x', 'x1'], scores: [1, 2] });
+    });
+
+    it('should return canned data from options or a fixture file', async () => {
+        const canned = new LLMClient(LLMPresets.mock({ data: { name: 'Ada', tags: ['x'] }, confidence: 70 }));
+        const cannedResult = await canned.extract({ schema, input: 'anything' });
+
+        expect(cannedResult.data.name).toBe('Ada');
+        expect(cannedResult.data.tags).toEqual(['x']);
+        expect(cannedResult.data.status).toBe('active');
+        expect(cannedResult.confidence).toBe(70);
+
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-mock-'));
+        try {
+            const fixture = path.join(dir, 'person.json');
+            await fs.writeFile(fixture, JSON.stringify({ name: 'Grace', age: 85 }));
+
+            const client = new LLMClient(LLMPresets.mock({ fixture }));
+            const result = await client.extract({ schema, input: 'anything' });
+
+            expect(result.data).toMatchObject({ name: 'Grace', age: 85 });
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should fail once without retrying when the fixture file cannot be read', async () => {
+        // Default retry config: up to 3 retries for retryable errors
+        const client = new LLMClient(LLMPresets.mock({ fixture: '/nonexistent/person.json' }));
+
+        await expect(client.extract({ schema, input: 'anything' })).rejects.toMatchObject({
+            code: LLMErrorCodes.INVALID_CONFIG,
+            message: expect.stringContaining('Cannot read mock fixture'),
+        });
+        expect(client.usage.retries).toBe(0);
+    });
+
+    it('should answer tool calls and include evidence in grounding mode', async () => {
+        const client = new LLMClient({ ...LLMPresets.mock({ data: { name: 'Ada' } }), extractionMode: 'tool' });
+        const result = await client.extract({ schema, input: 'Ada', grounding: true });
+
+        expect(result.data.name).toBe('Ada');
+        expect(result.evidence).toMatchObject({ name: null, age: null });
+    });
+
+    describe('fault injection', () => {
+        it('should fail with 429 until faultCount requests have been made', async () => {
+            const client = new LLMClient({
+                ...LLMPresets.mock({ fault: 'rate_limit', faultCount: 2 }),
+                retries: { maxRetries: 3, initialDelay: 0, maxDelay: 0, backoffFactor: 1 },
+            });
+
+            const result = await client.extract({ schema, input: 'anything' });
+
+            expect(result.data.status).toBe('active');
+        });
+
+        it('should report server errors once retries are exhausted', async () => {
+            const client = new LLMClient({ ...LLMPresets.mock({ fault: 'server_error' }), retries: noRetries });
+
+            await expect(client.extract({ schema, input: 'anything' })).rejects.toMatchObject({
+                code: LLMErrorCodes.API_ERROR,
+                statusCode: 500,
+            });
+        });
+
+        it('should time out', async () => {
+            const client = new LLMClient({ ...LLMPresets.mock({ fault: 'timeout' }), timeout: 20, retries: noRetries });
+
+            await expect(client.extract({ schema, input: 'anything' })).rejects.toMatchObject({
+                code: LLMErrorCodes.TIMEOUT,
+            });
+        });
+
+        it('should return malformed JSON that the repair loop recovers from', async () => {
+            const client = new LLMClient({ ...LLMPresets.mock({ fault: 'malformed_json' }), retries: noRetries });
+
+            await expect(client.extract({ schema, input: 'anything' })).rejects.toMatchObject({
+                code: LLMErrorCodes.INVALID_RESPONSE,
+            });
+
+            const result = await extract({
+                input: 'anything',
+                schema,
+                llmConfig: LLMPresets.mock({ fault: 'malformed_json', faultCount: 1 }),
+                repair: true,
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.metadata.repairAttempts).toBe(1);
+        });
+    });
+});
+
+describe('buildPlaceholder', () => {
+    it('should prefer non-null types and enum values', () => {
+        expect(buildPlaceholder({ type: ['string', 'null'], enum: [null, 'b'] })).toBe('b');
+        expect(buildPlaceholder({ type: ['number', 'null'] })).toBe(0);
+        expect(buildPlaceholder({ type: 'string', format: 'date-time' })).toBe('1970-01-01T00:00:00Z');
+        expect(buildPlaceholder({ type: 'object' })).toEqual({});
+    });
+});
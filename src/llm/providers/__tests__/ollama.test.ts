@@ -0,0 +1,231 @@
+/**
+ * Tests for the native Ollama /api/chat transport
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LLMClient } from '../../client.js';
+import { LLMError, LLMErrorCodes } from '../../errors.js';
+import {
+    isNativeOllamaURL,
+    getOllamaChatURL,
+    toOllamaChatRequest,
+    fromOllamaChatResponse,
+    type OllamaChatResponse,
+} from '../ollama.js';
+import type { Schema } from '../../../schemas/types.js';
+
+global.fetch = vi.fn();
+
+const schema: Schema = {
+    fields: {
+        name: { type: 'string' },
+    },
+};
+
+function nativeResponse(overrides: Partial<OllamaChatResponse> = {}): OllamaChatResponse {
+    return {
+        model: 'llama3',
+        created_at: '2026-01-14T10:00:00.000Z',
+        message: {
+            role: 'assistant',
+            content: JSON.stringify({
+                data: { name: 'Ada' },
+                confidence: 90,
+                confidenceByField: { name: 90 },
+            }),
+        },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 120,
+        eval_count: 30,
+        ...overrides,
+    };
+}
+
+describe('Ollama native transport', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('URL handling', () => {
+        it('should treat URLs without /v1 as native', () => {
+            expect(isNativeOllamaURL('http://localhost:11434')).toBe(true);
+            expect(isNativeOllamaURL('http://localhost:11434/api')).toBe(true);
+            expect(isNativeOllamaURL('http://localhost:11434/v1')).toBe(false);
+        });
+
+        it('should build the /api/chat URL from the server or API root', () => {
+            expect(getOllamaChatURL('http://localhost:11434')).toBe('http://localhost:11434/api/chat');
+            expect(getOllamaChatURL('http://localhost:11434/api')).toBe('http://localhost:11434/api/chat');
+            expect(getOllamaChatURL('http://localhost:11434/api/')).toBe('http://localhost:11434/api/chat');
+        });
+    });
+
+    describe('toOllamaChatRequest', () => {
+        it('should move sampling settings into options', () => {
+            const request = toOllamaChatRequest({
+                model: 'llama3',
+                messages: [{ role: 'user', content: 'hi' }],
+                temperature: 0,
+                max_tokens: 500,
+                options: { num_ctx: 8192 },
+            });
+
+            expect(request).toEqual({
+                model: 'llama3',
+                messages: [{ role: 'user', content: 'hi' }],
+                stream: false,
+                options: { num_ctx: 8192, temperature: 0, num_predict: 500 },
+            });
+        });
+
+        it('should pass a JSON Schema format through unchanged', () => {
+            const format = { type: 'object', properties: { name: { type: 'string' } } };
+            const request = toOllamaChatRequest({
+                model: 'llama3',
+                messages: [],
+                format,
+            });
+
+            expect(request.format).toEqual(format);
+        });
+
+        it('should map response_format json_object to format json', () => {
+            const request = toOllamaChatRequest({
+                model: 'llama3',
+                messages: [],
+                response_format: { type: 'json_object' },
+            });
+
+            expect(request.format).toBe('json');
+            expect(request).not.toHaveProperty('response_format');
+        });
+    });
+
+    describe('fromOllamaChatResponse', () => {
+        it('should map the native response to the OpenAI-compatible shape', () => {
+            const response = fromOllamaChatResponse(nativeResponse());
+
+            expect(response.model).toBe('llama3');
+            expect(response.created).toBe(Date.parse('2026-01-14T10:00:00.000Z') / 1000);
+            expect(response.choices[0].finish_reason).toBe('stop');
+            expect(response.choices[0].message.role).toBe('assistant');
+            expect(response.usage).toEqual({ prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 });
+        });
+
+        it('should fall back when done_reason and counts are missing', () => {
+            const response = fromOllamaChatResponse(nativeResponse({
+                done_reason: undefined,
+                prompt_eval_count: undefined,
+                eval_count: undefined,
+            }));
+
+            expect(response.choices[0].finish_reason).toBe('stop');
+            expect(response.usage).toBeUndefined();
+        });
+    });
+
+    describe('LLMClient', () => {
+        it('should POST to /api/chat with the native request shape', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => nativeResponse(),
+            } as Response);
+
+            const client = new LLMClient({
+                baseURL: 'http://localhost:11434',
+                model: 'llama3',
+                jsonMode: true,
+                ollamaOptions: { num_ctx: 16384 },
+            });
+
+            const result = await client.extract({ schema, input: 'Name: Ada' });
+
+            expect(result.data.name).toBe('Ada');
+
+            const [url, init] = vi.mocked(fetch).mock.calls[0];
+            expect(url).toBe('http://localhost:11434/api/chat');
+
+            const body = JSON.parse((init as RequestInit).body as string);
+            expect(body.stream).toBe(false);
+            expect(body.format).toBe('json');
+            expect(body.options).toEqual({ num_ctx: 16384, temperature: 0, num_predict: 2000 });
+            expect(body).not.toHaveProperty('max_tokens');
+            expect(body).not.toHaveProperty('response_format');
+        });
+
+        it('should keep using /chat/completions for the /v1 endpoint', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => fromOllamaChatResponse(nativeResponse()),
+            } as Response);
+
+            const client = new LLMClient({
+                baseURL: 'http://localhost:11434/v1',
+                model: 'llama3',
+            });
+
+            await client.extract({ schema, input: 'Name: Ada' });
+
+            expect(vi.mocked(fetch).mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+        });
+
+        it('should pass tools through and map native tool calls', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => nativeResponse({
+                    message: {
+                        role: 'assistant',
+                        content: '',
+                        tool_calls: [{
+                            function: {
+                                name: 'record_extraction',
+                                arguments: { data: { name: 'Ada' }, confidence: 90, confidenceByField: { name: 90 } },
+                            },
+                        }],
+                    },
+                }),
+            } as Response);
+
+            const client = new LLMClient({
+                baseURL: 'http://localhost:11434',
+                model: 'llama3',
+                extractionMode: 'tool',
+                jsonMode: true,
+            });
+            const result = await client.extract({ schema, input: 'Name: Ada' });
+
+            expect(result.data.name).toBe('Ada');
+
+            const body = JSON.parse((vi.mocked(fetch).mock.calls[0][1] as RequestInit).body as string);
+            expect(body.tools[0].function.name).toBe('record_extraction');
+            expect(body).not.toHaveProperty('tool_choice');
+            expect(body).not.toHaveProperty('format');
+        });
+
+        it('should surface native error messages', async () => {
+            vi.mocked(fetch).mockResolvedValueOnce({
+                ok: false,
+                status: 404,
+                statusText: 'Not Found',
+                json: async () => ({ error: "model 'missing' not found" }),
+            } as Response);
+
+            const client = new LLMClient({
+                baseURL: 'http://localhost:11434/api',
+                model: 'missing',
+                provider: 'ollama',
+                retries: { maxRetries: 0, initialDelay: 0, maxDelay: 0, backoffFactor: 1 },
+            });
+
+            try {
+                await client.extract({ schema, input: 'test' });
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect(error).toBeInstanceOf(LLMError);
+                expect((error as LLMError).code).toBe(LLMErrorCodes.API_ERROR);
+                expect((error as LLMError).message).toBe("model 'missing' not found");
+            }
+        });
+    });
+});
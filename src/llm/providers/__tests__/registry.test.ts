@@ -0,0 +1,209 @@
+/**
+ * Tests for provider adapter registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LLMClient } from '../../client.js';
+import { LLMError, LLMErrorCodes } from '../../errors.js';
+import {
+    registerProvider,
+    unregisterProvider,
+    getProvider,
+    listProviders,
+    detectProvider,
+} from '../registry.js';
+import { classifyHttpError } from '../http.js';
+import type { ProviderAdapter } from '../types.js';
+import type { LLMResponse } from '../../types.js';
+import type { Schema } from '../../../schemas/types.js';
+
+global.fetch = vi.fn();
+
+const schema: Schema = {
+    fields: {
+        name: { type: 'string' },
+    },
+};
+
+const extraction = JSON.stringify({
+    data: { name: 'Ada' },
+    confidence: 90,
+    confidenceByField: { name: 90 },
+});
+
+/**
+ * Example gateway with a custom auth header and a wrapped envelope
+ */
+const gatewayAdapter: ProviderAdapter = {
+    name: 'gateway',
+    detect: (baseURL) => baseURL.includes('gateway.internal'),
+    buildRequest: (request, { config }) => ({
+        url: `${config.baseURL}/invoke`,
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Gateway-Token': config.apiKey ?? '',
+        },
+        body: { payload: request },
+    }),
+    parseResponse: (body) => {
+        const { result } = body as { result: { text: string } };
+        return {
+            id: 'gw',
+            object: 'chat.completion',
+            created: 0,
+            model: 'gateway-model',
+            choices: [{ index: 0, message: { role: 'assistant', content: result.text }, finish_reason: 'stop' }],
+        } satisfies LLMResponse;
+    },
+    classifyError: (response) => {
+        if (response.status === 418) {
+            return new LLMError('Gateway quota exhausted', LLMErrorCodes.RATE_LIMIT, 418);
+        }
+        return undefined;
+    },
+};
+
+describe('provider registry', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        unregisterProvider('gateway');
+    });
+
+    it('should include the built-in adapters', () => {
+        expect(listProviders()).toEqual(expect.arrayContaining(['openai', 'ollama']));
+        expect(getProvider('openai').name).toBe('openai');
+    });
+
+    it('should throw UNKNOWN_PROVIDER for unregistered names', () => {
+        try {
+            getProvider('nope');
+            expect.fail('Should have thrown');
+        } catch (error) {
+            expect(error).toBeInstanceOf(LLMError);
+            expect((error as LLMError).code).toBe(LLMErrorCodes.UNKNOWN_PROVIDER);
+        }
+
+        expect(() => new LLMClient({ baseURL: 'http://x', model: 'm', provider: 'nope' })).toThrow('Unknown provider "nope"');
+    });
+
+    it('should detect built-in providers from the base URL', () => {
+        expect(detectProvider('http://localhost:11434/v1')).toBe('ollama');
+        expect(detectProvider('http://localhost:1234/v1')).toBe('openai');
+        expect(detectProvider('http://localhost:1234')).toBe('openai');
+        expect(detectProvider('https://api.openai.com/v1')).toBe('openai');
+    });
+
+    it('should let registered adapters claim URLs before built-ins', () => {
+        registerProvider(gatewayAdapter);
+
+        expect(detectProvider('https://gateway.internal:11434')).toBe('gateway');
+    });
+
+    it('should send requests through a registered adapter', async () => {
+        registerProvider(gatewayAdapter);
+        vi.mocked(fetch).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ result: { text: extraction } }),
+        } as Response);
+
+        const client = new LLMClient({
+            baseURL: 'https://llm.example.com',
+            model: 'internal',
+            apiKey: 'secret',
+            provider: 'gateway',
+        });
+        const result = await client.extract({ schema, input: 'Name: Ada' });
+
+        expect(result.data.name).toBe('Ada');
+
+        const [url, init] = vi.mocked(fetch).mock.calls[0];
+        expect(url).toBe('https://llm.example.com/invoke');
+        expect((init as RequestInit).headers).toEqual({
+            'Content-Type': 'application/json',
+            'X-Gateway-Token': 'secret',
+        });
+        expect(JSON.parse((init as RequestInit).body as string).payload.model).toBe('internal');
+    });
+
+    it('should use a custom send implementation', async () => {
+        const send = vi.fn(async () => ({
+            ok: true,
+            json: async () => ({ result: { text: extraction } }),
+        } as Response));
+        registerProvider({ ...gatewayAdapter, send });
+
+        const client = new LLMClient({ baseURL: 'https://llm.example.com', model: 'internal', provider: 'gateway' });
+        await client.extract({ schema, input: 'Name: Ada' });
+
+        expect(send).toHaveBeenCalledOnce();
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should use adapter error classification with default fallback', async () => {
+        registerProvider(gatewayAdapter);
+        const client = new LLMClient({
+            baseURL: 'https://llm.example.com',
+            model: 'internal',
+            provider: 'gateway',
+            retries: { maxRetries: 0, initialDelay: 0, maxDelay: 0, backoffFactor: 1 },
+        });
+
+        vi.mocked(fetch).mockResolvedValueOnce({
+            ok: false,
+            status: 418,
+            statusText: "I'm a teapot",
+            json: async () => ({}),
+        } as Response);
+        await expect(client.extract({ schema, input: 'x' })).rejects.toMatchObject({
+            code: LLMErrorCodes.RATE_LIMIT,
+            message: 'Gateway quota exhausted',
+        });
+
+        vi.mocked(fetch).mockResolvedValueOnce({
+            ok: false,
+            status: 401,
+            statusText: 'Unauthorized',
+            json: async () => ({ message: 'bad token' }),
+        } as Response);
+        await expect(client.extract({ schema, input: 'x' })).rejects.toMatchObject({
+            code: LLMErrorCodes.AUTHENTICATION_ERROR,
+            message: 'bad token',
+        });
+    });
+
+    it('should report malformed provider responses as INVALID_RESPONSE', async () => {
+        registerProvider(gatewayAdapter);
+        vi.mocked(fetch).mockResolvedValueOnce({
+            ok: true,
+            json: async () => ({ unexpected: true }),
+        } as Response);
+
+        const client = new LLMClient({ baseURL: 'https://llm.example.com', model: 'internal', provider: 'gateway' });
+
+        await expect(client.extract({ schema, input: 'x' })).rejects.toMatchObject({
+            code: LLMErrorCodes.INVALID_RESPONSE,
+        });
+    });
+});
+
+describe('classifyHttpError', () => {
+    it('should detect token limit messages', () => {
+        const error = classifyHttpError({
+            status: 400,
+            statusText: 'Bad Request',
+            body: { error: { message: "This model's maximum context length is 8192 tokens" } },
+        });
+
+        expect(error.code).toBe(LLMErrorCodes.TOKEN_LIMIT_EXCEEDED);
+    });
+
+    it('should fall back to the status text', () => {
+        const error = classifyHttpError({ status: 500, statusText: 'Internal Server Error', body: undefined });
+
+        expect(error.code).toBe(LLMErrorCodes.API_ERROR);
+        expect(error.message).toBe('API error: 500 Internal Server Error');
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * Anthropic Messages API adapter
+ *
+ * Translates OpenAI-shaped requests to POST /v1/messages: system messages
+ * move to the top-level `system` parameter, auth uses `x-api-key`, tools
+ * map to `tools`/`tool_choice`, and response `content` blocks are joined
+ * into a single assistant message (`tool_use` blocks become tool calls).
+ */
+
+import type { ChatMessage, LLMRequest, LLMResponse, ToolCall } from '../types.js';
+import type { ProviderAdapter } from './types.js';
+
+/**
+ * API version sent in the `anthropic-version` header
+ */
+export const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Output token limit used when the request does not set max_tokens
+ * (the Messages API requires one)
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Request body for the Messages API
+ */
+export interface AnthropicMessagesRequest {
+    model: string;
+    max_tokens: number;
+    system?: string;
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+    temperature?: number;
+    tools?: Array<{ name: string; description?: string; input_schema: Record<string, unknown> }>;
+    tool_choice?: { type: 'auto' | 'any' | 'none' } | { type: 'tool'; name: string };
+}
+
+/**
+ * Maps an OpenAI tool_choice onto the Anthropic equivalent
+ */
+function toAnthropicToolChoice(choice: LLMRequest['tool_choice']): AnthropicMessagesRequest['tool_choice'] {
+    if (!choice) return undefined;
+    if (typeof choice === 'object') return { type: 'tool', name: choice.function.name };
+    return { type: choice === 'required' ? 'any' : choice };
+}
+
+/**
+ * Content block in a Messages API response
+ */
+export interface AnthropicContentBlock {
+    type: string;
+    text?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Response from the Messages API
+ */
+export interface AnthropicMessagesResponse {
+    id: string;
+    type: 'message';
+    role: 'assistant';
+    model: string;
+    content: AnthropicContentBlock[];
+    stop_reason: string | null;
+    stop_sequence?: string | null;
+    usage?: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+/**
+ * Maps Anthropic stop reasons onto OpenAI finish reasons
+ */
+const STOP_REASONS: Record<string, string> = {
+    end_turn: 'stop',
+    stop_sequence: 'stop',
+    max_tokens: 'length',
+    tool_use: 'tool_calls',
+};
+
+/**
+ * Builds the /v1/messages URL from a base URL
+ *
+ * Accepts both the API root (https://api.anthropic.com) and the versioned
+ * root (https://api.anthropic.com/v1).
+ */
+export function getAnthropicMessagesURL(baseURL: string): string {
+    const root = baseURL.replace(/\/+$/, '');
+    return root.endsWith('/v1') ? `${root}/messages` : `${root}/v1/messages`;
+}
+
+/**
+ * Translates an OpenAI-shaped request into a Messages API request
+ *
+ * System messages are joined into `system`; consecutive messages with the
+ * same role are merged, since the API requires alternating turns.
+ */
+export function toAnthropicRequest(request: LLMRequest): AnthropicMessagesRequest {
+    const system = request.messages
+        .filter(message => message.role === 'system')
+        .map(message => message.content);
+
+    const messages: AnthropicMessagesRequest['messages'] = [];
+    for (const message of request.messages) {
+        if (message.role === 'system') continue;
+
+        const previous = messages[messages.length - 1];
+        if (previous && previous.role === message.role) {
+            previous.content += '\n\n' + message.content;
+        } else {
+            messages.push({ role: message.role, content: message.content });
+        }
+    }
+
+    return {
+        model: request.model,
+        max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+        ...(system.length > 0 && { system: system.join('\n\n') }),
+        messages,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.tools && {
+            tools: request.tools.map(tool => ({
+                name: tool.function.name,
+                ...(tool.function.description && { description: tool.function.description }),
+                input_schema: tool.function.parameters,
+            })),
+        }),
+        ...(request.tool_choice && { tool_choice: toAnthropicToolChoice(request.tool_choice) }),
+    };
+}
+
+/**
+ * Maps a Messages API response to the OpenAI-compatible response shape
+ */
+export function fromAnthropicResponse(response: AnthropicMessagesResponse): LLMResponse {
+    if (!Array.isArray(response.content)) {
+        throw new Error('Response missing content blocks');
+    }
+
+    const toolCalls: ToolCall[] = response.content
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({
+            id: String(block.id),
+            type: 'function',
+            function: {
+                name: String(block.name),
+                arguments: JSON.stringify(block.input ?? {}),
+            },
+        }));
+    const message: ChatMessage = {
+        role: 'assistant',
+        content: response.content
+            .filter(block => block.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text)
+            .join(''),
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+    };
+
+    return {
+        id: response.id,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: response.model,
+        choices: [
+            {
+                index: 0,
+                message,
+                finish_reason: response.stop_reason
+                    ? STOP_REASONS[response.stop_reason] ?? response.stop_reason
+                    : 'stop',
+            },
+        ],
+        usage: response.usage && {
+            prompt_tokens: response.usage.input_tokens,
+            completion_tokens: response.usage.output_tokens,
+            total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+        },
+    };
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+    name: 'anthropic',
+
+    detect: (baseURL) => baseURL.toLowerCase().includes('anthropic.com'),
+
+    // The Messages API has no JSON mode; the prompt already asks for JSON only
+    buildRequest: (request, { config }) => ({
+        url: getAnthropicMessagesURL(config.baseURL),
+        headers: {
+            'Content-Type': 'application/json',
+            'anthropic-version': ANTHROPIC_VERSION,
+            ...(config.apiKey && { 'x-api-key': config.apiKey }),
+        },
+        body: toAnthropicRequest(request),
+    }),
+
+    parseResponse: (body) => fromAnthropicResponse(body as AnthropicMessagesResponse),
+};
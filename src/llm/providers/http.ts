@@ -0,0 +1,84 @@
+/**
+ * Shared HTTP helpers for provider adapters
+ */
+
+import { LLMError, LLMErrorCodes, type LLMErrorCode } from '../errors.js';
+import type { ProviderErrorResponse, ProviderHttpRequest } from './types.js';
+
+/**
+ * Sends a JSON request with fetch
+ */
+export function sendJSON(request: ProviderHttpRequest, signal: AbortSignal): Promise<Response> {
+    return fetch(request.url, {
+        method: request.method ?? 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal,
+    });
+}
+
+/**
+ * Extracts an error message from common error body shapes
+ *
+ * Handles `{ error: { message } }` (OpenAI-style), `{ error: "..." }`
+ * (Ollama native) and `{ message }`.
+ */
+export function getErrorMessage(body: unknown): string | undefined {
+    if (!body || typeof body !== 'object') {
+        return undefined;
+    }
+
+    const data = body as { error?: string | { message?: string }; message?: string };
+    if (typeof data.error === 'string') {
+        return data.error;
+    }
+    return data.error?.message || data.message;
+}
+
+/**
+ * Checks whether an error message describes a context window/token limit error
+ */
+export function isTokenLimitMessage(message: string): boolean {
+    const msgLower = message.toLowerCase();
+    return msgLower.includes('context length') ||
+        msgLower.includes('maximum context') ||
+        msgLower.includes('context_length_exceeded') ||
+        msgLower.includes('token limit') ||
+        msgLower.includes('too many tokens') ||
+        msgLower.includes('prompt is too long') ||
+        (msgLower.includes('context') && msgLower.includes('exceed'));
+}
+
+/**
+ * Default classification of failed HTTP responses
+ *
+ * 401/403 → AUTHENTICATION_ERROR, 429 → RATE_LIMIT (with Retry-After),
+ * token limit messages → TOKEN_LIMIT_EXCEEDED, anything else → API_ERROR.
+ */
+export function classifyHttpError(response: ProviderErrorResponse): LLMError {
+    const { status } = response;
+    let errorCode: LLMErrorCode = LLMErrorCodes.API_ERROR;
+    const details: Record<string, unknown> = {};
+
+    const rawMessage = getErrorMessage(response.body);
+    const errorMessage = rawMessage || `API error: ${status} ${response.statusText}`;
+
+    // Detect context window/token limit errors from various providers
+    if (rawMessage && isTokenLimitMessage(rawMessage)) {
+        errorCode = LLMErrorCodes.TOKEN_LIMIT_EXCEEDED;
+        details.originalMessage = rawMessage;
+    }
+
+    if (status === 401 || status === 403) {
+        errorCode = LLMErrorCodes.AUTHENTICATION_ERROR;
+    } else if (status === 429) {
+        errorCode = LLMErrorCodes.RATE_LIMIT;
+        // Capture Retry-After header if present
+        const retryAfter = response.headers?.get('Retry-After');
+        if (retryAfter) {
+            details.retryAfter = retryAfter;
+        }
+    }
+
+    return new LLMError(errorMessage, errorCode, status, details);
+}
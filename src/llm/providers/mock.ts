@@ -0,0 +1,293 @@
+/**
+ * Mock provider adapter for offline development
+ *
+ * Never touches the network: responses are fabricated from the response
+ * JSON Schema the client sends (type-correct placeholders, first enum
+ * value, arrays of `minItems` items), optionally filled with canned field values from
+ * `LLMConfig.mock`. Faults (malformed JSON, 429, 500, timeout) can be
+ * injected to exercise retry and repair handling.
+ */
+
+import * as fs from 'node:fs/promises';
+import type { LLMConfig, LLMRequest, LLMResponse, MockOptions } from '../types.js';
+import type { ProviderAdapter, ProviderContext } from './types.js';
+import { LLMError, LLMErrorCodes } from '../errors.js';
+import { EXTRACTION_TOOL_NAME, type JsonSchema } from '../json-schema.js';
+import { getFormat } from '../../schemas/formats.js';
+
+/**
+ * Model name reported when the config does not set one
+ */
+const MOCK_MODEL = 'mock';
+
+/**
+ * Requests answered so far, by client config (for `faultCount`)
+ */
+const requestCounts = new WeakMap<LLMConfig, number>();
+
+/**
+ * Fixture file contents, loaded once per mock options object
+ */
+const fixtures = new WeakMap<MockOptions, Promise<Record<string, unknown>>>();
+
+/**
+ * Returns the first non-null type of a JSON Schema `type` (which may be a list)
+ */
+function getType(schema: JsonSchema): string | undefined {
+    const type = schema.type;
+    if (Array.isArray(type)) {
+        return type.find(t => t !== 'null');
+    }
+    return type as string | undefined;
+}
+
+/**
+ * Builds a type-correct placeholder value for a JSON Schema
+ *
+ * @param schema - JSON Schema of the value
+ * @param data - Canned value to use instead, for objects: canned property values
+ */
+export function buildPlaceholder(schema: JsonSchema, data?: unknown): unknown {
+    const type = getType(schema);
+
+    if (type === 'object') {
+        const canned = data && typeof data === 'object' && !Array.isArray(data)
+            ? data as Record<string, unknown>
+            : {};
+        const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+        return Object.fromEntries(
+            Object.entries(properties).map(([name, property]) => [
+                name,
+                name in canned ? canned[name] : buildPlaceholder(property),
+            ])
+        );
+    }
+
+    if (data !== undefined) {
+        return data;
+    }
+
+    if (Array.isArray(schema.enum)) {
+        return schema.enum.find(value => value !== null) ?? null;
+    }
+
+    switch (type) {
+        case 'string': {
+            // Format examples pass format validation (the client sends every format to this adapter)
+            const value = (typeof schema.format === 'string' && getFormat(schema.format)?.example) || '';
+            return typeof schema.minLength === 'number' ? value.padEnd(schema.minLength, 'x') : value;
+        }
+        case 'number':
+        case 'integer':
+            return typeof schema.minimum === 'number' ? schema.minimum : 0;
+        case 'boolean':
+            return false;
+        case 'array':
+            return buildItems(schema);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Builds `minItems` placeholder items (none by default), made distinct
+ * when the schema requires unique items
+ */
+function buildItems(schema: JsonSchema): unknown[] {
+    const count = typeof schema.minItems === 'number' ? schema.minItems : 0;
+    const itemSchema = (schema.items ?? {}) as JsonSchema;
+
+    return Array.from({ length: count }, (_, index) => {
+        const item = buildPlaceholder(itemSchema);
+        if (!schema.uniqueItems || index === 0) {
+            return item;
+        }
+        if (Array.isArray(itemSchema.enum)) {
+            const values = itemSchema.enum.filter(value => value !== null);
+            return values[index % values.length];
+        }
+        if (typeof item === 'number') {
+            return item + index;
+        }
+        return typeof item === 'string' ? `${item}${index}` : item;
+    });
+}
+
+/**
+ * Returns the response JSON Schema carried by a request (structured output or tool parameters)
+ */
+function getResponseSchema(request: LLMRequest): JsonSchema | undefined {
+    if (request.response_format?.type === 'json_schema') {
+        return request.response_format.json_schema.schema;
+    }
+    return request.tools?.find(tool => tool.function.name === EXTRACTION_TOOL_NAME)?.function.parameters;
+}
+
+/**
+ * Reads and parses a fixture file
+ *
+ * @throws LLMError (INVALID_CONFIG) if the file cannot be read or parsed
+ */
+async function readFixture(fixture: string): Promise<Record<string, unknown>> {
+    try {
+        return JSON.parse(await fs.readFile(fixture, 'utf-8'));
+    } catch (error) {
+        throw new LLMError(
+            `Cannot read mock fixture: ${(error as Error).message}`,
+            LLMErrorCodes.INVALID_CONFIG,
+            undefined,
+            { fixture }
+        );
+    }
+}
+
+/**
+ * Loads the canned field values from `data` or the fixture file
+ */
+async function loadCannedData(options: MockOptions): Promise<Record<string, unknown> | undefined> {
+    if (options.data) {
+        return options.data;
+    }
+    if (options.fixture) {
+        let fixture = fixtures.get(options);
+        if (!fixture) {
+            fixture = readFixture(options.fixture);
+            fixtures.set(options, fixture);
+        }
+        return fixture;
+    }
+    return undefined;
+}
+
+/**
+ * Builds the extraction response envelope ({ data, confidence, confidenceByField, evidence? })
+ */
+async function buildEnvelope(request: LLMRequest, options: MockOptions): Promise<Record<string, unknown>> {
+    const canned = await loadCannedData(options);
+    const schema = getResponseSchema(request);
+    const confidence = options.confidence ?? 100;
+
+    const dataSchema = (schema?.properties as Record<string, JsonSchema> | undefined)?.data;
+    const data = (dataSchema ? buildPlaceholder(dataSchema, canned) : canned ?? {}) as Record<string, unknown>;
+    const fields = Object.keys(data);
+
+    return {
+        data,
+        confidence,
+        confidenceByField: Object.fromEntries(fields.map(field => [field, confidence])),
+        ...((schema?.properties as Record<string, unknown> | undefined)?.evidence !== undefined && {
+            evidence: Object.fromEntries(fields.map(field => [field, null])),
+        }),
+    };
+}
+
+/**
+ * Builds an OpenAI-compatible response carrying the given text
+ * (as a tool call when the request forces the extraction tool)
+ */
+function buildResponse(request: LLMRequest, text: string): LLMResponse {
+    const toolMode = request.tools?.some(tool => tool.function.name === EXTRACTION_TOOL_NAME);
+
+    return {
+        id: `mock-${Date.now()}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: request.model || MOCK_MODEL,
+        choices: [{
+            index: 0,
+            message: toolMode
+                ? {
+                    role: 'assistant',
+                    content: '',
+                    tool_calls: [{
+                        id: 'mock_call',
+                        type: 'function',
+                        function: { name: EXTRACTION_TOOL_NAME, arguments: text },
+                    }],
+                }
+                : { role: 'assistant', content: text },
+            finish_reason: toolMode ? 'tool_calls' : 'stop',
+        }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+}
+
+/**
+ * Waits for the given time (or until aborted, without a time), rejecting
+ * with an AbortError when the signal fires
+ */
+function wait(ms: number | undefined, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abort = () => {
+            clearTimeout(timer);
+            const error = new Error('The operation was aborted');
+            error.name = 'AbortError';
+            reject(error);
+        };
+        const timer = ms === undefined ? undefined : setTimeout(() => {
+            signal.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+
+        if (signal.aborted) {
+            abort();
+        } else {
+            signal.addEventListener('abort', abort, { once: true });
+        }
+    });
+}
+
+/**
+ * Produces the mock HTTP response for a request
+ */
+async function respond(request: LLMRequest, context: ProviderContext, signal: AbortSignal): Promise<Response> {
+    const options = context.config.mock ?? {};
+    const count = (requestCounts.get(context.config) ?? 0) + 1;
+    requestCounts.set(context.config, count);
+
+    const fault = options.fault && count <= (options.faultCount ?? Infinity) ? options.fault : undefined;
+
+    if (fault === 'timeout') {
+        await wait(undefined, signal);
+    }
+    if (options.latency) {
+        await wait(options.latency, signal);
+    }
+
+    const json = (body: unknown, status: number, statusText: string) => new Response(JSON.stringify(body), {
+        status,
+        statusText,
+        headers: { 'Content-Type': 'application/json' },
+    });
+
+    const text = JSON.stringify(await buildEnvelope(request, options));
+
+    switch (fault) {
+        case 'rate_limit':
+            return json({ error: { message: 'Rate limit exceeded (mock)' } }, 429, 'Too Many Requests');
+        case 'server_error':
+            return json({ error: { message: 'Internal server error (mock)' } }, 500, 'Internal Server Error');
+        case 'malformed_json':
+            return json(buildResponse(request, text.slice(0, Math.ceil(text.length / 2))), 200, 'OK');
+        default:
+            return json(buildResponse(request, text), 200, 'OK');
+    }
+}
+
+export const mockAdapter: ProviderAdapter = {
+    name: 'mock',
+
+    needsResponseSchema: true,
+
+    detect: (baseURL) => baseURL.toLowerCase().startsWith('mock:'),
+
+    buildRequest: (request, { config }) => ({
+        url: config.baseURL,
+        headers: {},
+        body: request,
+    }),
+
+    send: (request, context, signal) => respond(request.body as LLMRequest, context, signal),
+
+    parseResponse: (body) => body as LLMResponse,
+};
@@ -0,0 +1,241 @@
+/**
+ * Ollama adapter
+ *
+ * Base URLs containing /v1 use Ollama's OpenAI-compatible endpoint; all
+ * others use the native /api/chat transport, which translates OpenAI-shaped
+ * requests to Ollama's native chat API and maps native responses back to
+ * LLMResponse.
+ */
+
+import type {
+    ChatMessage,
+    LLMRequest,
+    LLMResponse,
+    LLMStreamChunk,
+    OllamaOptions,
+    ToolCall,
+    ToolDefinition,
+} from '../types.js';
+import type { ProviderAdapter } from './types.js';
+import { buildChatCompletionsRequest, parseChatCompletionChunk, type ChatCompletionChunk } from './openai.js';
+
+/**
+ * Request body for Ollama's native /api/chat endpoint
+ */
+export interface OllamaChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    stream: boolean;
+    /** "json" for JSON mode, or a JSON Schema object for structured output */
+    format?: 'json' | Record<string, unknown>;
+    /** Tools the model may call (same shape as OpenAI; tool_choice is not supported) */
+    tools?: ToolDefinition[];
+    /** Runtime options (sampling, context window, output length, ...) */
+    options?: OllamaOptions & {
+        temperature?: number;
+        num_predict?: number;
+    };
+}
+
+/**
+ * Response from Ollama's native /api/chat endpoint (also the shape of each
+ * NDJSON line when streaming; only the last line has `done: true` and counts)
+ */
+export interface OllamaChatResponse {
+    model: string;
+    created_at: string;
+    message: {
+        role: ChatMessage['role'];
+        content: string;
+        /** Tool calls, with arguments as parsed objects */
+        tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+    };
+    done: boolean;
+    /** Why generation stopped ("stop", "length", ...) */
+    done_reason?: string;
+    total_duration?: number;
+    load_duration?: number;
+    /** Number of tokens in the prompt */
+    prompt_eval_count?: number;
+    prompt_eval_duration?: number;
+    /** Number of tokens generated */
+    eval_count?: number;
+    eval_duration?: number;
+}
+
+/**
+ * Checks whether a base URL targets Ollama's native API rather than its
+ * OpenAI-compatible /v1 endpoint
+ */
+export function isNativeOllamaURL(baseURL: string): boolean {
+    return !baseURL.includes('/v1');
+}
+
+/**
+ * Builds the /api/chat URL from a base URL
+ *
+ * Accepts both the server root (http://localhost:11434) and the API root
+ * (http://localhost:11434/api).
+ */
+export function getOllamaChatURL(baseURL: string): string {
+    const root = baseURL.replace(/\/+$/, '').replace(/\/api$/, '');
+    return `${root}/api/chat`;
+}
+
+/**
+ * Translates an OpenAI-shaped request into a native Ollama chat request
+ *
+ * `temperature` and `max_tokens` move into `options` (as `temperature` and
+ * `num_predict`) alongside any Ollama-specific options.
+ */
+export function toOllamaChatRequest(request: LLMRequest): OllamaChatRequest {
+    const options: OllamaChatRequest['options'] = {
+        ...request.options,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.max_tokens !== undefined && { num_predict: request.max_tokens }),
+    };
+
+    // Ollama's native API has no response_format; map it to format
+    const responseFormat = request.response_format;
+    const format = request.format
+        ?? (responseFormat?.type === 'json_schema' ? responseFormat.json_schema.schema : undefined)
+        ?? (responseFormat?.type === 'json_object' ? 'json' : undefined);
+
+    return {
+        model: request.model,
+        messages: request.messages,
+        stream: request.stream ?? false,
+        ...(format !== undefined && { format }),
+        ...(request.tools && { tools: request.tools }),
+        ...(Object.keys(options).length > 0 && { options }),
+    };
+}
+
+/**
+ * Maps native Ollama tool calls to OpenAI tool calls (arguments as JSON strings)
+ */
+function toToolCalls(calls: NonNullable<OllamaChatResponse['message']['tool_calls']>): ToolCall[] {
+    return calls.map((call, index) => ({
+        id: `call_${index}`,
+        type: 'function',
+        function: {
+            name: call.function.name,
+            arguments: typeof call.function.arguments === 'string'
+                ? call.function.arguments
+                : JSON.stringify(call.function.arguments ?? {}),
+        },
+    }));
+}
+
+/**
+ * Returns usage from the prompt/eval counts, if the response has them
+ */
+function toUsage(response: OllamaChatResponse): LLMResponse['usage'] {
+    const promptTokens = response.prompt_eval_count;
+    const completionTokens = response.eval_count;
+    if (promptTokens === undefined || completionTokens === undefined) {
+        return undefined;
+    }
+    return {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+    };
+}
+
+/**
+ * Maps a native Ollama chat response to the OpenAI-compatible response shape
+ */
+export function fromOllamaChatResponse(response: OllamaChatResponse): LLMResponse {
+    const createdAt = Date.parse(response.created_at);
+
+    const { tool_calls: nativeToolCalls, ...rest } = response.message;
+    const toolCalls = nativeToolCalls && toToolCalls(nativeToolCalls);
+    const message: ChatMessage = {
+        ...rest,
+        ...(toolCalls && toolCalls.length > 0 && { tool_calls: toolCalls }),
+    };
+
+    return {
+        id: `ollama-${response.created_at}`,
+        object: 'chat.completion',
+        created: Number.isNaN(createdAt) ? Math.floor(Date.now() / 1000) : Math.floor(createdAt / 1000),
+        model: response.model,
+        choices: [
+            {
+                index: 0,
+                message,
+                finish_reason: message.tool_calls
+                    ? 'tool_calls'
+                    : response.done_reason ?? (response.done ? 'stop' : 'length'),
+            },
+        ],
+        usage: toUsage(response),
+    };
+}
+
+/**
+ * Maps one NDJSON line of a streamed native chat response to an incremental update
+ */
+export function fromOllamaStreamChunk(chunk: OllamaChatResponse): LLMStreamChunk {
+    const toolCalls = chunk.message?.tool_calls && toToolCalls(chunk.message.tool_calls);
+
+    return {
+        model: chunk.model,
+        content: chunk.message?.content,
+        toolCalls: toolCalls?.map((call, index) => ({
+            index,
+            id: call.id,
+            name: call.function.name,
+            arguments: call.function.arguments,
+        })),
+        ...(chunk.done && {
+            finishReason: toolCalls ? 'tool_calls' : chunk.done_reason ?? 'stop',
+            usage: toUsage(chunk),
+        }),
+    };
+}
+
+export const ollamaAdapter: ProviderAdapter = {
+    name: 'ollama',
+
+    detect(baseURL) {
+        const url = baseURL.toLowerCase();
+        // Ollama's default port; other local servers (e.g. LM Studio on port 1234)
+        // only speak the OpenAI-compatible API and are left to the openai adapter
+        return url.includes(':11434');
+    },
+
+    buildRequest(request, context) {
+        const { config } = context;
+        if (!isNativeOllamaURL(config.baseURL)) {
+            return buildChatCompletionsRequest(request, context);
+        }
+
+        const body = toOllamaChatRequest(request);
+        if (config.jsonMode && body.format === undefined && !body.tools) {
+            body.format = 'json';
+        }
+
+        return {
+            url: getOllamaChatURL(config.baseURL),
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+            },
+            body,
+        };
+    },
+
+    parseResponse(body, context) {
+        return isNativeOllamaURL(context.config.baseURL)
+            ? fromOllamaChatResponse(body as OllamaChatResponse)
+            : body as LLMResponse;
+    },
+
+    parseStreamChunk(chunk, context) {
+        return isNativeOllamaURL(context.config.baseURL)
+            ? fromOllamaStreamChunk(chunk as OllamaChatResponse)
+            : parseChatCompletionChunk(chunk as ChatCompletionChunk);
+    },
+};
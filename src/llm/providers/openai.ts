@@ -0,0 +1,84 @@
+/**
+ * OpenAI-compatible chat completions adapter
+ *
+ * Used for OpenAI and every provider exposing /chat/completions
+ * (Deepseek, OpenRouter, Azure OpenAI, vLLM, Ollama's /v1 endpoint, ...).
+ */
+
+import type { LLMRequest, LLMResponse, LLMStreamChunk } from '../types.js';
+import type { ProviderAdapter, ProviderContext, ProviderHttpRequest } from './types.js';
+
+/**
+ * Builds an OpenAI-compatible /chat/completions request
+ *
+ * Adds `Authorization: Bearer` when an API key is configured and
+ * `response_format: { type: "json_object" }` in JSON mode.
+ */
+export function buildChatCompletionsRequest(request: LLMRequest, context: ProviderContext): ProviderHttpRequest {
+    const { config } = context;
+    const body: LLMRequest = { ...request };
+
+    // JSON mode doesn't apply when the result comes back as tool call arguments
+    if (config.jsonMode && !body.response_format && !body.tools) {
+        body.response_format = { type: 'json_object' };
+    }
+
+    return {
+        url: `${config.baseURL}/chat/completions`,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+        },
+        body,
+    };
+}
+
+/**
+ * Streamed chat completion chunk (`data:` payload of the SSE stream)
+ */
+export interface ChatCompletionChunk {
+    id?: string;
+    model?: string;
+    choices?: Array<{
+        index: number;
+        delta?: {
+            content?: string | null;
+            tool_calls?: Array<{
+                index: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+            }>;
+        };
+        finish_reason?: string | null;
+    }>;
+    usage?: LLMResponse['usage'] | null;
+}
+
+/**
+ * Maps a streamed chat completion chunk to an incremental update
+ */
+export function parseChatCompletionChunk(chunk: ChatCompletionChunk): LLMStreamChunk {
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta;
+
+    return {
+        id: chunk.id,
+        model: chunk.model,
+        content: delta?.content ?? undefined,
+        toolCalls: delta?.tool_calls?.map(call => ({
+            index: call.index,
+            id: call.id,
+            name: call.function?.name,
+            arguments: call.function?.arguments,
+        })),
+        finishReason: choice?.finish_reason ?? undefined,
+        usage: chunk.usage ?? undefined,
+    };
+}
+
+export const openaiAdapter: ProviderAdapter = {
+    name: 'openai',
+    buildRequest: buildChatCompletionsRequest,
+    parseResponse: (body) => body as LLMResponse,
+    parseStreamChunk: (chunk) => parseChatCompletionChunk(chunk as ChatCompletionChunk),
+};
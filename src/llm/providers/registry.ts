@@ -0,0 +1,92 @@
+/**
+ * Provider adapter registry
+ */
+
+import { LLMError, LLMErrorCodes } from '../errors.js';
+import type { ProviderAdapter } from './types.js';
+import { openaiAdapter } from './openai.js';
+import { ollamaAdapter } from './ollama.js';
+import { anthropicAdapter } from './anthropic.js';
+import { mockAdapter } from './mock.js';
+
+/**
+ * Provider used when no registered adapter detects the base URL
+ */
+export const DEFAULT_PROVIDER = 'openai';
+
+const adapters = new Map<string, ProviderAdapter>([
+    [openaiAdapter.name, openaiAdapter],
+    [ollamaAdapter.name, ollamaAdapter],
+    [anthropicAdapter.name, anthropicAdapter],
+    [mockAdapter.name, mockAdapter],
+]);
+
+/**
+ * Registers a provider adapter under its name
+ *
+ * Registering a name that already exists replaces the previous adapter,
+ * including built-ins.
+ *
+ * @param adapter - Adapter to register
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+    if (!adapter.name) {
+        throw new Error('Provider adapter must have a name');
+    }
+    adapters.set(adapter.name, adapter);
+}
+
+/**
+ * Removes a registered provider adapter
+ *
+ * @param name - Adapter name
+ * @returns True if an adapter was removed
+ */
+export function unregisterProvider(name: string): boolean {
+    return adapters.delete(name);
+}
+
+/**
+ * Looks up a provider adapter by name
+ *
+ * @param name - Adapter name
+ * @returns The adapter
+ * @throws LLMError with UNKNOWN_PROVIDER if no adapter is registered under the name
+ */
+export function getProvider(name: string): ProviderAdapter {
+    const adapter = adapters.get(name);
+    if (!adapter) {
+        throw new LLMError(
+            `Unknown provider "${name}". Registered providers: ${listProviders().join(', ')}`,
+            LLMErrorCodes.UNKNOWN_PROVIDER,
+            undefined,
+            { provider: name }
+        );
+    }
+    return adapter;
+}
+
+/**
+ * Lists registered provider names in registration order
+ */
+export function listProviders(): string[] {
+    return [...adapters.keys()];
+}
+
+/**
+ * Detects the provider for a base URL
+ *
+ * Adapters registered later are checked first, so custom adapters can claim
+ * URLs before the built-ins. Falls back to the OpenAI-compatible adapter.
+ *
+ * @param baseURL - API base URL
+ * @returns Name of the detected provider
+ */
+export function detectProvider(baseURL: string): string {
+    for (const adapter of [...adapters.values()].reverse()) {
+        if (adapter.detect?.(baseURL)) {
+            return adapter.name;
+        }
+    }
+    return DEFAULT_PROVIDER;
+}
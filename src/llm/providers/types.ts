@@ -0,0 +1,97 @@
+/**
+ * Provider adapter type definitions
+ */
+
+import type { LLMConfig, LLMRequest, LLMResponse, LLMStreamChunk } from '../types.js';
+import type { LLMError } from '../errors.js';
+
+/**
+ * Context passed to every adapter call
+ */
+export interface ProviderContext {
+    /** Client configuration with defaults applied */
+    config: LLMConfig;
+}
+
+/**
+ * HTTP request produced by an adapter
+ */
+export interface ProviderHttpRequest {
+    url: string;
+    /** HTTP method (default: POST) */
+    method?: string;
+    headers: Record<string, string>;
+    /** Request body, serialized as JSON */
+    body: unknown;
+}
+
+/**
+ * Failed HTTP response passed to error classification
+ */
+export interface ProviderErrorResponse {
+    status: number;
+    statusText: string;
+    /** Parsed JSON body, or undefined if the body was not JSON */
+    body: unknown;
+    headers?: Headers;
+}
+
+/**
+ * Translates between Ordis' OpenAI-shaped requests/responses and a
+ * provider's wire format
+ *
+ * Only `buildRequest` and `parseResponse` are required; the client supplies
+ * default transport (fetch with timeout) and error classification.
+ */
+export interface ProviderAdapter {
+    /** Name used in `LLMConfig.provider` */
+    readonly name: string;
+
+    /**
+     * Always send the schema-derived JSON Schema as `response_format`, even
+     * without `structuredOutput` (for adapters that build responses from it)
+     */
+    readonly needsResponseSchema?: boolean;
+
+    /**
+     * Returns true if a base URL looks like this provider (used for
+     * auto-detection when `LLMConfig.provider` is not set)
+     */
+    detect?(baseURL: string): boolean;
+
+    /**
+     * Builds the HTTP request for a chat completion
+     *
+     * Responsible for provider-specific URL, auth headers, body envelope
+     * and JSON mode parameters.
+     */
+    buildRequest(request: LLMRequest, context: ProviderContext): ProviderHttpRequest;
+
+    /**
+     * Sends the request (default: fetch with JSON body)
+     *
+     * Must honour the abort signal so client timeouts work.
+     */
+    send?(request: ProviderHttpRequest, context: ProviderContext, signal: AbortSignal): Promise<Response>;
+
+    /**
+     * Maps a successful response body to the OpenAI-compatible response shape
+     */
+    parseResponse(body: unknown, context: ProviderContext): LLMResponse;
+
+    /**
+     * Maps one event of a streamed response (an SSE `data:` payload or an
+     * NDJSON line, already JSON-parsed) to an incremental update
+     *
+     * Adapters without it don't support streaming; the client then sends
+     * a regular request.
+     */
+    parseStreamChunk?(chunk: unknown, context: ProviderContext): LLMStreamChunk | undefined;
+
+    /**
+     * Maps a failed response to an LLMError
+     *
+     * Return undefined to fall back to the default classification.
+     */
+    classifyError?(response: ProviderErrorResponse, context: ProviderContext): LLMError | undefined;
+}
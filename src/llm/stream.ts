@@ -0,0 +1,141 @@
+/**
+ * Streaming response helpers
+ *
+ * Reads SSE (`data: {...}` events, OpenAI-compatible endpoints) and
+ * NDJSON (one JSON object per line, Ollama native) bodies and accumulates
+ * parsed chunks into a complete LLMResponse.
+ */
+
+import type { ChatMessage, LLMResponse, LLMStreamChunk, ToolCall } from './types.js';
+
+/**
+ * Marks the end-of-stream sentinel (`data: [DONE]`)
+ */
+const DONE = Symbol('done');
+
+/**
+ * Extracts the payload from one line of a streamed body
+ *
+ * @returns The payload text, DONE for the end sentinel, or undefined for lines without data
+ */
+function parseStreamLine(rawLine: string): string | typeof DONE | undefined {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(':') || /^(event|id|retry):/.test(line)) {
+        return undefined;
+    }
+
+    const data = line.startsWith('data:') ? line.slice(5).trim() : line;
+    return data === '[DONE]' ? DONE : data;
+}
+
+/**
+ * Yields the payloads of a streamed response body (one JSON document each)
+ *
+ * Lines prefixed with `data:` are treated as SSE payloads; other SSE fields
+ * (`event:`, `id:`, comments) and blank lines are skipped, and any other
+ * line is treated as NDJSON. Stops at the `[DONE]` sentinel.
+ *
+ * @param body - Response body stream
+ */
+export async function* readStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            const lines = buffer.split('\n');
+            buffer = done ? '' : lines.pop() ?? '';
+
+            for (const rawLine of lines) {
+                const payload = parseStreamLine(rawLine);
+                if (payload === DONE) {
+                    return;
+                }
+                if (payload !== undefined) {
+                    yield payload;
+                }
+            }
+
+            if (done) {
+                return;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Accumulates streamed chunks into a complete response
+ */
+export class StreamAccumulator {
+    private id?: string;
+    private model?: string;
+    private content = '';
+    private toolCalls: ToolCall[] = [];
+    private finishReason?: string;
+    private usage?: LLMResponse['usage'];
+
+    /**
+     * Applies one chunk
+     */
+    add(chunk: LLMStreamChunk): void {
+        this.id ??= chunk.id;
+        this.model ??= chunk.model;
+        this.content += chunk.content ?? '';
+
+        for (const fragment of chunk.toolCalls ?? []) {
+            const call = this.toolCalls[fragment.index] ??= {
+                id: fragment.id ?? `call_${fragment.index}`,
+                type: 'function',
+                function: { name: '', arguments: '' },
+            };
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.name) call.function.name = fragment.name;
+            call.function.arguments += fragment.arguments ?? '';
+        }
+
+        if (chunk.finishReason) this.finishReason = chunk.finishReason;
+        if (chunk.usage) this.usage = chunk.usage;
+    }
+
+    /**
+     * Text received so far: the arguments of the first tool call once the
+     * model has started calling one, otherwise the message content
+     */
+    get text(): string {
+        const toolCall = this.toolCalls.find(call => call);
+        return toolCall ? toolCall.function.arguments : this.content;
+    }
+
+    /**
+     * Builds the complete response from the chunks received
+     */
+    toResponse(fallbackModel: string): LLMResponse {
+        const toolCalls = this.toolCalls.filter(call => call);
+        const message: ChatMessage = {
+            role: 'assistant',
+            content: this.content,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        };
+
+        return {
+            id: this.id ?? `stream-${Date.now()}`,
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model: this.model ?? fallbackModel,
+            choices: [
+                {
+                    index: 0,
+                    message,
+                    finish_reason: this.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+                },
+            ],
+            ...(this.usage && { usage: this.usage }),
+        };
+    }
+}
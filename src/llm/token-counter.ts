@@ -2,6 +2,8 @@
  * Token counting and budget management
  */
 
+import type { Tokenizer } from './types.js';
+
 /**
  * Token budget breakdown
  */
@@ -30,6 +32,12 @@ export interface TokenUsage {
     maxContextTokens: number;
     /** Percentage of budget used */
     usagePercent: number;
+    /** System prompt token limit (only set when a token budget is configured) */
+    systemBudget?: number;
+    /** Input token limit (only set when a token budget is configured) */
+    inputBudget?: number;
+    /** Tokenizer the counts come from ('heuristic' for the ~4 characters per token estimate) */
+    estimator: string;
 }
 
 /**
@@ -38,10 +46,12 @@ export interface TokenUsage {
 export interface TokenCounterConfig {
     /** Maximum context tokens (default: 32768) */
     maxContextTokens?: number;
-    /** Token budget breakdown */
+    /** Token budget breakdown; when set, the system and input limits are enforced too */
     tokenBudget?: TokenBudget;
     /** Warn when usage exceeds this percentage (default: 90) */
     warnThreshold?: number;
+    /** Tokenizer used to count tokens (default: heuristicTokenizer) */
+    tokenizer?: Tokenizer;
 }
 
 /**
@@ -62,11 +72,22 @@ export function estimateTokens(text: string): number {
     return Math.ceil(text.length / charsPerToken);
 }
 
+/**
+ * Tokenizer based on estimateTokens, used when no vocabulary is configured
+ * or it cannot be loaded
+ */
+export const heuristicTokenizer: Tokenizer = {
+    name: 'heuristic',
+    count: estimateTokens,
+};
+
 /**
  * Token counter for managing LLM context budgets
  */
 export class TokenCounter {
     private config: Required<TokenCounterConfig>;
+    /** Whether the system and input budgets were configured (and are enforced) */
+    private enforceBudget: boolean;
 
     constructor(config: TokenCounterConfig = {}) {
         const defaultBudget: TokenBudget = {
@@ -79,15 +100,24 @@ export class TokenCounter {
             maxContextTokens: config.maxContextTokens || 32768,
             tokenBudget: config.tokenBudget || defaultBudget,
             warnThreshold: config.warnThreshold || 90,
+            tokenizer: config.tokenizer || heuristicTokenizer,
         };
+        this.enforceBudget = config.tokenBudget !== undefined;
+    }
+
+    /**
+     * Count the tokens of a text with the configured tokenizer
+     */
+    countTokens(text: string): number {
+        return text ? this.config.tokenizer.count(text) : 0;
     }
 
     /**
      * Calculate token usage for system prompt and input
      */
     calculateUsage(systemPrompt: string, input: string): TokenUsage {
-        const systemTokens = estimateTokens(systemPrompt);
-        const inputTokens = estimateTokens(input);
+        const systemTokens = this.countTokens(systemPrompt);
+        const inputTokens = this.countTokens(input);
         const outputTokens = this.config.tokenBudget.output;
         const totalTokens = systemTokens + inputTokens + outputTokens;
         const usagePercent = (totalTokens / this.config.maxContextTokens) * 100;
@@ -99,14 +129,58 @@ export class TokenCounter {
             totalTokens,
             maxContextTokens: this.config.maxContextTokens,
             usagePercent,
+            estimator: this.config.tokenizer.name,
+            ...(this.enforceBudget && {
+                systemBudget: this.config.tokenBudget.system,
+                inputBudget: this.config.tokenBudget.input,
+            }),
         };
     }
 
     /**
-     * Check if usage exceeds maximum context
+     * Get tokens left for user input after the system prompt and output
+     * reservation (capped at the input budget when one is configured)
+     */
+    getInputBudget(systemPrompt: string): number {
+        const remaining = this.config.maxContextTokens - this.countTokens(systemPrompt) - this.config.tokenBudget.output;
+        return this.enforceBudget ? Math.min(remaining, this.config.tokenBudget.input) : remaining;
+    }
+
+    /**
+     * Get tokens of user input that keep usage below the warning threshold
+     * (at most the input budget)
+     */
+    getQuietInputBudget(systemPrompt: string): number {
+        const maxQuietTokens = Math.ceil(this.config.maxContextTokens * this.config.warnThreshold / 100) - 1;
+        const remaining = maxQuietTokens - this.countTokens(systemPrompt) - this.config.tokenBudget.output;
+        return Math.min(remaining, this.getInputBudget(systemPrompt));
+    }
+
+    /**
+     * Check if usage exceeds maximum context, or the system or input budget
      */
     exceedsLimit(usage: TokenUsage): boolean {
-        return usage.totalTokens > usage.maxContextTokens;
+        return this.getOverruns(usage).length > 0;
+    }
+
+    /**
+     * Describe each limit the usage exceeds
+     */
+    private getOverruns(usage: TokenUsage): string[] {
+        const overruns: string[] = [];
+        if (usage.totalTokens > usage.maxContextTokens) {
+            const overflow = usage.totalTokens - usage.maxContextTokens;
+            overruns.push(`${usage.totalTokens}/${usage.maxContextTokens} tokens (${overflow} over limit)`);
+        }
+        if (usage.systemBudget !== undefined && usage.systemTokens > usage.systemBudget) {
+            const overflow = usage.systemTokens - usage.systemBudget;
+            overruns.push(`system prompt ${usage.systemTokens}/${usage.systemBudget} tokens (${overflow} over budget)`);
+        }
+        if (usage.inputBudget !== undefined && usage.inputTokens > usage.inputBudget) {
+            const overflow = usage.inputTokens - usage.inputBudget;
+            overruns.push(`input ${usage.inputTokens}/${usage.inputBudget} tokens (${overflow} over budget)`);
+        }
+        return overruns;
     }
 
     /**
@@ -125,6 +199,7 @@ export class TokenCounter {
             `  System prompt: ${usage.systemTokens} tokens`,
             `  Input: ${usage.inputTokens} tokens`,
             `  Reserved for output: ${usage.outputTokens} tokens`,
+            `  Estimator: ${usage.estimator}`,
         ];
         return lines.join('\n');
     }
@@ -133,9 +208,8 @@ export class TokenCounter {
      * Get error message when limit exceeded
      */
     getErrorMessage(usage: TokenUsage): string {
-        const overflow = usage.totalTokens - usage.maxContextTokens;
         return [
-            `Token budget exceeded: ${usage.totalTokens}/${usage.maxContextTokens} tokens (${overflow} over limit)`,
+            `Token budget exceeded: ${this.getOverruns(usage).join('; ')}`,
             ``,
             `Breakdown:`,
             `  System prompt: ${usage.systemTokens} tokens`,
@@ -146,7 +220,8 @@ export class TokenCounter {
             `  - Reduce input size (currently ${usage.inputTokens} tokens)`,
             `  - Simplify schema to reduce system prompt (currently ${usage.systemTokens} tokens)`,
             `  - Use a model with larger context window`,
-            `  - Consider chunking large inputs (future feature)`,
+            `  - Split the input into chunks: --chunk (CLI) or chunking: true (API)`,
+            `  - Trim the input to fit: --truncate <strategy> (CLI) or truncation (API)`,
         ].join('\n');
     }
 
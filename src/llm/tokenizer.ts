@@ -0,0 +1,270 @@
+/**
+ * Tokenizers for token budget checks
+ * Byte-level BPE for common vocabularies, loaded from local vocabulary
+ * files, with the ~4 characters per token heuristic as fallback
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Tokenizer, TokenizerConfig, TokenizerVocabulary } from './types.js';
+import { heuristicTokenizer } from './token-counter.js';
+
+/**
+ * English contractions, matched case-insensitively
+ * (inline `(?i:...)` groups are not supported by JavaScript regular expressions)
+ */
+const CONTRACTIONS = `'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])`;
+
+/**
+ * Pre-tokenization patterns splitting text into the pieces BPE runs on
+ */
+const PATTERNS: Record<TokenizerVocabulary, string> = {
+    cl100k: `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    o200k: [
+        `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+        `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+        `\\p{N}{1,3}`,
+        ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+        `\\s*[\\r\\n]+`,
+        `\\s+(?!\\S)`,
+        `\\s+`,
+    ].join('|'),
+    llama3: `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    qwen2: `${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+};
+
+/**
+ * Names of the built-in vocabularies
+ */
+export const TOKENIZER_VOCABULARIES = Object.keys(PATTERNS) as TokenizerVocabulary[];
+
+/**
+ * Pieces whose token counts are remembered (the cache is cleared when full)
+ */
+const PIECE_CACHE_SIZE = 10000;
+
+/**
+ * Byte-level BPE tokenizer
+ *
+ * Merge ranks are keyed by the merged token's bytes (as a latin1 string);
+ * a lower rank merges first, as in tiktoken.
+ */
+export class BPETokenizer implements Tokenizer {
+    readonly name: string;
+    private ranks: Map<string, number>;
+    private pattern: RegExp;
+    private cache = new Map<string, number>();
+
+    constructor(name: string, ranks: Map<string, number>, pattern: string) {
+        this.name = name;
+        this.ranks = ranks;
+        this.pattern = new RegExp(pattern, 'gu');
+    }
+
+    /**
+     * Loads a vocabulary file: a tiktoken ranks file (`<base64 token> <rank>`
+     * per line) or a Hugging Face byte-level BPE tokenizer.json
+     *
+     * @throws Error if the file cannot be read or has an unsupported format
+     */
+    static async load(vocabulary: TokenizerVocabulary, filePath: string): Promise<BPETokenizer> {
+        if (!TOKENIZER_VOCABULARIES.includes(vocabulary)) {
+            throw new Error(`Unknown tokenizer vocabulary "${vocabulary}". Supported: ${TOKENIZER_VOCABULARIES.join(', ')}`);
+        }
+
+        const content = await fs.readFile(filePath, 'utf-8');
+        const ranks = content.trimStart().startsWith('{')
+            ? parseHuggingFaceMerges(content)
+            : parseTiktokenRanks(content);
+
+        if (ranks.size === 0) {
+            throw new Error(`No tokens found in ${filePath}`);
+        }
+        return new BPETokenizer(vocabulary, ranks, PATTERNS[vocabulary]);
+    }
+
+    count(text: string): number {
+        let tokens = 0;
+        for (const [piece] of text.matchAll(this.pattern)) {
+            tokens += this.countPiece(piece);
+        }
+        return tokens;
+    }
+
+    /**
+     * Returns the number of tokens BPE produces for one pre-tokenized piece
+     */
+    private countPiece(piece: string): number {
+        const cached = this.cache.get(piece);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const bytes = Buffer.from(piece, 'utf-8').toString('latin1');
+        const tokens = this.ranks.has(bytes) ? 1 : this.merge(bytes);
+
+        if (this.cache.size >= PIECE_CACHE_SIZE) {
+            this.cache.clear();
+        }
+        this.cache.set(piece, tokens);
+        return tokens;
+    }
+
+    /**
+     * Merges adjacent parts by lowest rank until no pair is in the vocabulary
+     *
+     * @returns Number of remaining parts
+     */
+    private merge(bytes: string): number {
+        // Part boundaries: part i spans bounds[i]..bounds[i + 1]
+        const bounds = Array.from({ length: bytes.length + 1 }, (_, i) => i);
+        const pairRank = (i: number) => i + 2 < bounds.length
+            ? this.ranks.get(bytes.slice(bounds[i], bounds[i + 2])) ?? Infinity
+            : Infinity;
+        const pairRanks = bounds.slice(0, -2).map((_, i) => pairRank(i));
+
+        while (pairRanks.length > 0) {
+            let best = 0;
+            for (let i = 1; i < pairRanks.length; i++) {
+                if (pairRanks[i] < pairRanks[best]) {
+                    best = i;
+                }
+            }
+            if (pairRanks[best] === Infinity) {
+                break;
+            }
+
+            bounds.splice(best + 1, 1);
+            pairRanks.splice(best, 1);
+            if (best < pairRanks.length) {
+                pairRanks[best] = pairRank(best);
+            }
+            if (best > 0) {
+                pairRanks[best - 1] = pairRank(best - 1);
+            }
+        }
+
+        return bounds.length - 1;
+    }
+}
+
+/**
+ * Parses a tiktoken ranks file (`<base64 token> <rank>` per line)
+ *
+ * @throws Error on malformed lines
+ */
+export function parseTiktokenRanks(content: string): Map<string, number> {
+    const ranks = new Map<string, number>();
+
+    for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+
+        const [token, rank] = line.trim().split(' ');
+        if (!token || !/^\d+$/.test(rank ?? '')) {
+            throw new Error(`Invalid tiktoken ranks line: "${line.slice(0, 50)}"`);
+        }
+        ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+    }
+
+    return ranks;
+}
+
+/**
+ * Parses the merges of a Hugging Face byte-level BPE tokenizer.json,
+ * ranking each merged token by its merge's position
+ *
+ * @throws Error if the file is not a byte-level BPE tokenizer
+ */
+export function parseHuggingFaceMerges(content: string): Map<string, number> {
+    const json = JSON.parse(content);
+    const model = json?.model;
+    if (model?.type !== 'BPE' || !Array.isArray(model.merges)) {
+        throw new Error('Unsupported tokenizer.json: expected a BPE model with merges');
+    }
+
+    const decoder = getByteDecoder();
+    const toBytes = (token: string) => {
+        let bytes = '';
+        for (const char of token) {
+            const byte = decoder.get(char);
+            if (byte === undefined) {
+                throw new Error('Unsupported tokenizer.json: tokens are not byte-level encoded');
+            }
+            bytes += String.fromCharCode(byte);
+        }
+        return bytes;
+    };
+
+    const ranks = new Map<string, number>();
+    (model.merges as Array<string | [string, string]>).forEach((merge, index) => {
+        const [left, right] = typeof merge === 'string' ? merge.split(' ') : merge;
+        const bytes = toBytes(left + right);
+        if (!ranks.has(bytes)) {
+            ranks.set(bytes, index);
+        }
+    });
+
+    return ranks;
+}
+
+/**
+ * Maps the printable characters byte-level BPE vocabularies use for bytes
+ * back to the bytes (the GPT-2 byte-to-unicode table)
+ */
+function getByteDecoder(): Map<string, number> {
+    const decoder = new Map<string, number>();
+    let shifted = 0;
+
+    for (let byte = 0; byte < 256; byte++) {
+        const printable = (byte >= 0x21 && byte <= 0x7e) || (byte >= 0xa1 && byte <= 0xac) || byte >= 0xae;
+        decoder.set(String.fromCharCode(printable ? byte : 256 + shifted++), byte);
+    }
+
+    return decoder;
+}
+
+/**
+ * Returns the name of the tokenizer a config selects (without loading it)
+ */
+export function getTokenizerName(tokenizer: Tokenizer | TokenizerConfig | undefined): string {
+    if (!tokenizer) {
+        return heuristicTokenizer.name;
+    }
+    return 'count' in tokenizer ? tokenizer.name : tokenizer.vocabulary;
+}
+
+/**
+ * Tokenizers loaded in this process, by vocabulary and absolute path
+ */
+const loadedTokenizers = new Map<string, Promise<Tokenizer>>();
+
+/**
+ * Resolves the tokenizer for a config, loading each vocabulary file once
+ * per process
+ *
+ * Falls back to the heuristic (with a warning) when the file cannot be loaded.
+ */
+export function loadTokenizer(tokenizer: Tokenizer | TokenizerConfig | undefined): Promise<Tokenizer> {
+    if (!tokenizer) {
+        return Promise.resolve(heuristicTokenizer);
+    }
+    if ('count' in tokenizer) {
+        return Promise.resolve(tokenizer);
+    }
+
+    const filePath = path.resolve(tokenizer.path);
+    const key = `${tokenizer.vocabulary}:${filePath}`;
+
+    let loaded = loadedTokenizers.get(key);
+    if (!loaded) {
+        loaded = BPETokenizer.load(tokenizer.vocabulary, filePath).catch((error: Error) => {
+            console.warn(
+                `⚠ Could not load ${tokenizer.vocabulary} tokenizer from ${filePath}: ${error.message}\n` +
+                `  Token counts are estimated at ~4 characters per token`
+            );
+            return heuristicTokenizer;
+        });
+        loadedTokenizers.set(key, loaded);
+    }
+    return loaded;
+}
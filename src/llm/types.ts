@@ -26,6 +26,23 @@ export interface TokenBudget {
     output: number;
 }
 
+/**
+ * Ollama runtime options
+ */
+export interface OllamaOptions {
+    /** Context window size in tokens (default varies by model) */
+    num_ctx?: number;
+    /** Number of tokens to keep from the prompt (default: 4) */
+    num_keep?: number;
+    /** Number of layers to run on GPU (-1 = all, 0 = none) */
+    num_gpu?: number;
+}
+
+/**
+ * Provider adapter name: a built-in adapter or one added with registerProvider()
+ */
+export type ProviderName = 'openai' | 'ollama' | 'anthropic' | 'mock' | (string & {});
+
 /**
  * Configuration for LLM client
  */
@@ -43,23 +60,139 @@ export interface LLMConfig {
     tokenBudget?: TokenBudget;
     /** Warn when token usage exceeds this percentage (default: 90) */
     warnThreshold?: number;
+    /**
+     * Tokenizer for token budget checks and chunking: a vocabulary file to
+     * load, or a custom implementation (default: ~4 characters per token)
+     */
+    tokenizer?: Tokenizer | TokenizerConfig;
     /** Enable debug logging for token usage */
     debugTokens?: boolean;
     /** Enable verbose debug output (shows full request/response) */
     debug?: boolean;
     /** Ollama-specific options (e.g., num_ctx for context window) */
-    ollamaOptions?: {
-        /** Context window size in tokens (default varies by model) */
-        num_ctx?: number;
-        /** Number of tokens to keep from the prompt (default: 4) */
-        num_keep?: number;
-        /** Number of layers to run on GPU (-1 = all, 0 = none) */
-        num_gpu?: number;
-    };
+    ollamaOptions?: OllamaOptions;
     /** Enable JSON mode to force valid JSON responses */
     jsonMode?: boolean;
-    /** Provider type for JSON mode compatibility (auto-detected if not specified) */
-    provider?: 'openai' | 'ollama';
+    /**
+     * Send a JSON Schema generated from the extraction schema so the provider
+     * enforces the response envelope and field types (takes precedence over jsonMode)
+     */
+    structuredOutput?: boolean;
+    /**
+     * How the model returns results: 'prompt' (JSON in message content, default)
+     * or 'tool' (arguments of a forced function/tool call)
+     */
+    extractionMode?: ExtractionMode;
+    /** Provider adapter name (auto-detected from baseURL if not specified) */
+    provider?: ProviderName;
+    /** Record LLM traffic to a cassette file, or replay it from one without calling the provider */
+    cassette?: CassetteConfig;
+    /** Options for the offline `mock` provider */
+    mock?: MockOptions;
+}
+
+/**
+ * Counts tokens the way a model vocabulary splits text
+ */
+export interface Tokenizer {
+    /** Name reported as the estimator in token usage */
+    readonly name: string;
+    /** Returns the number of tokens in a text */
+    count(text: string): number;
+}
+
+/**
+ * Built-in BPE vocabularies
+ *
+ * - `cl100k`: GPT-4 / GPT-3.5 (`cl100k_base.tiktoken`)
+ * - `o200k`: GPT-4o and later (`o200k_base.tiktoken`)
+ * - `llama3`: Llama 3 (`tokenizer.json`)
+ * - `qwen2`: Qwen 2 / 2.5 (`tokenizer.json`)
+ */
+export type TokenizerVocabulary = 'cl100k' | 'o200k' | 'llama3' | 'qwen2';
+
+/**
+ * Tokenizer loaded from a local vocabulary file
+ */
+export interface TokenizerConfig {
+    vocabulary: TokenizerVocabulary;
+    /** Path of a tiktoken ranks file or a Hugging Face tokenizer.json */
+    path: string;
+}
+
+/**
+ * Failure the mock provider can simulate
+ *
+ * - `malformed_json`: a successful response whose content is cut-off JSON
+ * - `rate_limit`: HTTP 429
+ * - `server_error`: HTTP 500
+ * - `timeout`: no response until the client times out
+ */
+export type MockFault = 'malformed_json' | 'rate_limit' | 'server_error' | 'timeout';
+
+/**
+ * Mock provider configuration
+ */
+export interface MockOptions {
+    /** Field values to return; fields not listed get type-correct placeholders */
+    data?: Record<string, unknown>;
+    /** JSON file with field values to return (used when `data` is not set) */
+    fixture?: string;
+    /** Confidence reported overall and for every field (default: 100) */
+    confidence?: number;
+    /** Failure to simulate */
+    fault?: MockFault;
+    /** Number of requests per client that fail before responses succeed (default: all of them) */
+    faultCount?: number;
+    /** Delay before each response in milliseconds (default: 0) */
+    latency?: number;
+}
+
+/**
+ * Cassette mode: 'record' saves each request/response pair, 'replay'
+ * answers requests from the file and never calls the provider
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Record/replay configuration
+ */
+export interface CassetteConfig {
+    /** Path of the cassette file (JSON) */
+    path: string;
+    mode: CassetteMode;
+}
+
+/**
+ * How extraction results are returned by the model
+ */
+export type ExtractionMode = 'prompt' | 'tool';
+
+/**
+ * Tool call in an assistant message (OpenAI format)
+ */
+export interface ToolCall {
+    id: string;
+    type: 'function';
+    function: {
+        name: string;
+        /** JSON-encoded arguments */
+        arguments: string;
+    };
+}
+
+/**
+ * Function/tool definition (OpenAI format)
+ */
+export interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description?: string;
+        /** JSON Schema for the arguments */
+        parameters: Record<string, unknown>;
+        strict?: boolean;
+    };
 }
 
 /**
@@ -68,6 +201,22 @@ export interface LLMConfig {
 export interface ChatMessage {
     role: 'system' | 'user' | 'assistant';
     content: string;
+    /** Tool calls made by the assistant (responses only) */
+    tool_calls?: ToolCall[];
+}
+
+/**
+ * OpenAI-style json_schema response format
+ */
+export interface JsonSchemaResponseFormat {
+    type: 'json_schema';
+    json_schema: {
+        /** Schema name (letters, digits, underscores and dashes, max 64 characters) */
+        name: string;
+        /** Whether the provider should enforce the schema exactly */
+        strict: boolean;
+        schema: Record<string, unknown>;
+    };
 }
 
 /**
@@ -79,17 +228,17 @@ export interface LLMRequest {
     temperature?: number;
     max_tokens?: number;
     /** OpenAI-compatible response format (e.g., { type: "json_object" }) */
-    response_format?: {
-        type: 'json_object' | 'text';
-    };
-    /** Ollama-specific format parameter ("json" for JSON mode) */
-    format?: 'json';
+    response_format?: { type: 'json_object' | 'text' } | JsonSchemaResponseFormat;
+    /** Tools the model may call */
+    tools?: ToolDefinition[];
+    /** Which tool the model must call */
+    tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+    /** Stream the response incrementally (SSE or NDJSON, depending on the provider) */
+    stream?: boolean;
+    /** Ollama-specific format parameter ("json" for JSON mode, or a JSON Schema object) */
+    format?: 'json' | Record<string, unknown>;
     /** Ollama-specific options (passed through on Ollama endpoints) */
-    options?: {
-        num_ctx?: number;
-        num_keep?: number;
-        num_gpu?: number;
-    };
+    options?: OllamaOptions;
 }
 
 /**
@@ -112,6 +261,45 @@ export interface LLMResponse {
     };
 }
 
+/**
+ * Incremental update parsed from one chunk of a streamed response
+ */
+export interface LLMStreamChunk {
+    id?: string;
+    model?: string;
+    /** Message content added by this chunk */
+    content?: string;
+    /** Tool call fragments; `arguments` is appended to the call with the same index */
+    toolCalls?: Array<{
+        index: number;
+        id?: string;
+        name?: string;
+        arguments?: string;
+    }>;
+    finishReason?: string;
+    usage?: LLMResponse['usage'];
+}
+
+/**
+ * Token usage and retries accumulated over LLM requests
+ */
+export interface LLMUsage {
+    /** Requests that received a response */
+    requests: number;
+    /** Failed attempts that were retried */
+    retries: number;
+    /** Prompt tokens counted by the tokenizer before sending */
+    estimatedPromptTokens: number;
+    /** Completion tokens counted by the tokenizer in the response text */
+    estimatedCompletionTokens: number;
+    /** Prompt tokens reported by the provider */
+    promptTokens: number;
+    /** Completion tokens reported by the provider */
+    completionTokens: number;
+    /** Responses without reported usage (not included in promptTokens/completionTokens) */
+    unreportedRequests: number;
+}
+
 /**
  * Extracted data with confidence scores
  */
@@ -119,6 +307,8 @@ export interface ExtractionResponse {
     data: Record<string, unknown>;
     confidence: number;
     confidenceByField: Record<string, number>;
+    /** Verbatim quote from the input supporting each field (grounding mode only) */
+    evidence?: Record<string, string | null>;
 }
 
 /**
@@ -128,4 +318,14 @@ export interface ExtractionOptions {
     schema: Schema;
     input: string;
     systemPrompt?: string;
+    /** Follow-up conversation turns sent after the initial user prompt (e.g., repair requests) */
+    history?: ChatMessage[];
+    /** Ask the model for a verbatim quote from the input supporting each field */
+    grounding?: boolean;
+    /**
+     * Streams the response and calls this with the text received so far
+     * (message content, or tool call arguments in tool mode). Ignored when
+     * the provider adapter does not support streaming.
+     */
+    onProgress?: (text: string) => void;
 }
@@ -0,0 +1,180 @@
+/**
+ * Tests for the string format registry
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { getFormat, listFormats, registerFormat, unregisterFormat, parseDate } from '../formats.js';
+import { validateSchema } from '../validator.js';
+import { SchemaValidationError, ErrorCodes } from '../errors.js';
+import { validateExtractedData } from '../../core/validator.js';
+import { coerceExtractedData } from '../../core/coercion.js';
+import { buildSystemPrompt } from '../../llm/prompt-builder.js';
+import type { Schema } from '../types.js';
+
+const validate = (format: string, value: string) => getFormat(format)!.validate(value);
+const normalize = (format: string, value: string) => getFormat(format)!.normalize?.(value);
+
+describe('String Formats', () => {
+    describe('built-in formats', () => {
+        it('should list the built-in formats', () => {
+            expect(listFormats()).toEqual([
+                'date', 'date-time', 'time', 'email', 'uri', 'uuid', 'phone', 'iso-country', 'iso-currency', 'iban',
+            ]);
+        });
+
+        it('should validate calendar dates strictly', () => {
+            expect(validate('date', '2024-02-29')).toBe(true);
+            expect(validate('date', '2023-02-29')).toBe(false);
+            expect(validate('date', '2024-1-5')).toBe(false);
+            expect(normalize('date', 'Jan 5, 2024')).toBe('2024-01-05');
+            expect(parseDate('31/02/2024')).toBeUndefined();
+        });
+
+        it('should validate date-times and normalize offsets', () => {
+            expect(validate('date-time', '2024-01-15T10:30:00Z')).toBe(true);
+            expect(validate('date-time', '2024-01-15T10:30:00.250+05:30')).toBe(true);
+            expect(validate('date-time', '2024-01-15T10:30:00')).toBe(false);
+            expect(validate('date-time', '2024-01-15')).toBe(false);
+            expect(validate('date-time', '2024-02-30T10:30:00Z')).toBe(false);
+            expect(validate('date-time', '2024-01-15T25:00:00Z')).toBe(false);
+
+            expect(normalize('date-time', '2024-01-15 10:30 UTC')).toBe('2024-01-15T10:30:00Z');
+            expect(normalize('date-time', '2024-01-15T10:30:00+0100')).toBe('2024-01-15T10:30:00+01:00');
+            expect(normalize('date-time', '2024-01-15 2:30 pm -05')).toBe('2024-01-15T14:30:00-05:00');
+        });
+
+        it('should normalize times of day', () => {
+            expect(validate('time', '23:59:59')).toBe(true);
+            expect(validate('time', '24:00:00')).toBe(false);
+            expect(normalize('time', '9:05')).toBe('09:05:00');
+            expect(normalize('time', '12:15 AM')).toBe('00:15:00');
+        });
+
+        it('should validate and normalize emails, URIs and UUIDs', () => {
+            expect(normalize('email', 'mailto:Ada@Example.COM')).toBe('Ada@example.com');
+            expect(validate('email', 'ada@example')).toBe(false);
+
+            expect(validate('uri', 'https://example.com/a?b=c')).toBe(true);
+            expect(validate('uri', 'example.com')).toBe(false);
+            expect(normalize('uri', 'www.example.com')).toBe('https://www.example.com');
+
+            expect(normalize('uuid', '{123E4567E89B12D3A456426614174000}')).toBe('123e4567-e89b-12d3-a456-426614174000');
+            expect(validate('uuid', '123E4567-E89B-12D3-A456-426614174000')).toBe(false);
+        });
+
+        it('should normalize phone numbers with a country code to E.164', () => {
+            expect(normalize('phone', '+1 (415) 555-2671')).toBe('+14155552671');
+            expect(normalize('phone', '0044 20 7946 0958')).toBe('+442079460958');
+            expect(normalize('phone', '(415) 555-2671')).toBeUndefined();
+            expect(validate('phone', '+14155552671')).toBe(true);
+            expect(validate('phone', '4155552671')).toBe(false);
+        });
+
+        it('should accept ISO country and currency codes and names', () => {
+            expect(validate('iso-country', 'DE')).toBe(true);
+            expect(validate('iso-country', 'XX')).toBe(false);
+            expect(normalize('iso-country', 'de')).toBe('DE');
+            expect(normalize('iso-country', 'Germany')).toBe('DE');
+
+            expect(validate('iso-currency', 'EUR')).toBe(true);
+            expect(validate('iso-currency', 'ABC')).toBe(false);
+            expect(normalize('iso-currency', '€')).toBe('EUR');
+            expect(normalize('iso-currency', 'usd')).toBe('USD');
+        });
+
+        it('should check IBAN checksums', () => {
+            expect(normalize('iban', 'IBAN gb82 west 1234 5698 7654 32')).toBe('GB82WEST12345698765432');
+            expect(validate('iban', 'GB82WEST12345698765432')).toBe(true);
+            expect(validate('iban', 'GB83WEST12345698765432')).toBe(false);
+        });
+    });
+
+    describe('registry', () => {
+        afterEach(() => {
+            unregisterFormat('sku');
+        });
+
+        it('should accept custom formats in schemas once registered', () => {
+            const schema = { fields: { sku: { type: 'string', format: 'sku' } } };
+            expect(() => validateSchema(schema)).toThrow(/unknown format "sku"/);
+
+            registerFormat({
+                name: 'sku',
+                description: 'product SKU like ABC-123',
+                validate: (value) => /^[A-Z]{3}-\d+$/.test(value),
+                normalize: (value) => value.trim().toUpperCase(),
+            });
+
+            expect(() => validateSchema(schema)).not.toThrow();
+            const result = validateExtractedData({ sku: ' abc-42 ' }, schema as Schema);
+            expect(result.valid).toBe(true);
+            expect(result.coercedData?.sku).toBe('ABC-42');
+        });
+
+        it('should reject formats without a name or validator', () => {
+            expect(() => registerFormat({ name: '', validate: () => true })).toThrow(/must have a name/);
+            expect(() => registerFormat({ name: 'sku' } as any)).toThrow(/must have a validate function/);
+        });
+    });
+
+    describe('schema validation', () => {
+        it('should reject unknown formats with the known ones listed', () => {
+            try {
+                validateSchema({ fields: { ssn: { type: 'string', format: 'ssn' } } });
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as SchemaValidationError).code).toBe(ErrorCodes.UNKNOWN_FORMAT);
+                expect((error as SchemaValidationError).message).toContain('Known formats: date, date-time');
+            }
+        });
+
+        it('should reject formats on non-string fields', () => {
+            expect(() => validateSchema({ fields: { amount: { type: 'number', format: 'iso-currency' } } }))
+                .toThrow(/with type 'number' cannot have 'format'/);
+        });
+    });
+
+    describe('extraction', () => {
+        const schema: Schema = {
+            fields: {
+                phone: { type: 'string', format: 'phone' },
+                country: { type: 'string', format: 'iso-country' },
+            },
+        };
+
+        it('should normalize values during coercion', () => {
+            const { data, warnings } = coerceExtractedData({ phone: '+44 20 7946 0958', country: 'United Kingdom' }, schema.fields);
+
+            expect(data).toEqual({ phone: '+442079460958', country: 'GB' });
+            expect(warnings[0].message).toBe("Normalized '+44 20 7946 0958' to phone format '+442079460958'");
+        });
+
+        it('should report values that cannot be normalized', () => {
+            const result = validateExtractedData({ phone: '555-2671', country: 'US' }, schema);
+
+            expect(result.errors).toMatchObject([
+                { field: 'phone', code: 'INVALID_FORMAT', expected: 'phone', actual: '555-2671' },
+            ]);
+        });
+
+        it('should normalize date-only and local date-times to UTC', () => {
+            const dateSchema: Schema = { fields: { issued: { type: 'string', format: 'date-time' } } };
+
+            for (const [input, expected] of [
+                ['2024-01-15', '2024-01-15T00:00:00Z'],
+                ['01/15/2024', '2024-01-15T00:00:00Z'],
+                ['2024-01-15T10:30:00', '2024-01-15T10:30:00Z'],
+                ['2024-01-15 2:30 pm', '2024-01-15T14:30:00Z'],
+                ['2024-01-15 10:30 +0100', '2024-01-15T10:30:00+01:00'],
+            ]) {
+                const result = validateExtractedData({ issued: input }, dateSchema);
+                expect(result.errors).toEqual([]);
+                expect(result.coercedData?.issued).toBe(expected);
+            }
+        });
+
+        it('should describe formats in the prompt', () => {
+            expect(buildSystemPrompt(schema)).toContain('- phone: string - format: phone (E.164 phone number like +14155552671)');
+        });
+    });
+});
@@ -194,6 +194,137 @@ describe('Schema Loader', () => {
         });
     });
 
+    describe('$ref resolution', () => {
+        const address = {
+            type: 'object',
+            description: 'Postal address',
+            properties: {
+                street: { type: 'string' },
+                city: { type: 'string' },
+            },
+        };
+
+        it('should inline definitions, with sibling keys overriding them', () => {
+            const schema = loadSchemaFromObject({
+                definitions: { address },
+                fields: {
+                    shipping: { $ref: '#/definitions/address' },
+                    billing: { $ref: '#/definitions/address', optional: true, description: 'Billing address' },
+                },
+            });
+
+            expect(schema.fields.shipping).toEqual(address);
+            expect(schema.fields.billing).toEqual({ ...address, optional: true, description: 'Billing address' });
+        });
+
+        it('should resolve refs nested in properties, array items and other definitions', () => {
+            const schema = parseSchema(JSON.stringify({
+                definitions: {
+                    address,
+                    party: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string' },
+                            address: { $ref: '#/definitions/address' },
+                        },
+                    },
+                },
+                fields: {
+                    contract: {
+                        type: 'object',
+                        properties: { seller: { $ref: '#/definitions/party' } },
+                    },
+                    signatories: { type: 'array', items: { $ref: '#/definitions/party' } },
+                },
+            }));
+
+            expect(schema.fields.contract.properties?.seller.properties?.address).toEqual(address);
+            expect(schema.fields.signatories.items?.properties.address).toEqual(address);
+        });
+
+        it('should resolve refs to other schema files relative to the referencing file', async () => {
+            await fs.mkdir(path.join(TEST_DIR, 'shared'), { recursive: true });
+            await fs.writeFile(path.join(TEST_DIR, 'shared', 'common.schema.json'), JSON.stringify({
+                definitions: {
+                    address,
+                    party: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string' },
+                            address: { $ref: '#/definitions/address' },
+                        },
+                    },
+                },
+            }));
+            const filePath = path.join(TEST_DIR, 'contract.schema.json');
+            await fs.writeFile(filePath, JSON.stringify({
+                fields: {
+                    buyer: { $ref: 'shared/common.schema.json#/definitions/party' },
+                },
+            }));
+
+            const schema = await loadSchema(filePath);
+
+            expect(schema.fields.buyer.properties?.address).toEqual(address);
+        });
+
+        it('should reject unknown definitions with the field path', () => {
+            try {
+                loadSchemaFromObject({
+                    definitions: { address },
+                    fields: {
+                        customer: { type: 'object', properties: { home: { $ref: '#/definitions/adress' } } },
+                    },
+                });
+                expect.fail('Should have thrown an error');
+            } catch (error) {
+                expect(error).toBeInstanceOf(SchemaValidationError);
+                expect((error as SchemaValidationError).code).toBe(ErrorCodes.INVALID_REF);
+                expect((error as SchemaValidationError).field).toBe('customer.home');
+                expect((error as SchemaValidationError).message).toContain('Available definitions: address');
+            }
+        });
+
+        it('should reject malformed refs', () => {
+            expect(() => loadSchemaFromObject({
+                fields: { name: { $ref: 'definitions/name' } },
+            })).toThrow(/invalid \$ref/);
+        });
+
+        it('should detect circular refs', () => {
+            try {
+                loadSchemaFromObject({
+                    definitions: {
+                        node: {
+                            type: 'object',
+                            properties: { child: { $ref: '#/definitions/node' } },
+                        },
+                    },
+                    fields: { tree: { $ref: '#/definitions/node' } },
+                });
+                expect.fail('Should have thrown an error');
+            } catch (error) {
+                expect((error as SchemaValidationError).code).toBe(ErrorCodes.CIRCULAR_REF);
+                expect((error as SchemaValidationError).message).toContain('node -> node');
+            }
+        });
+
+        it('should reject refs to other files outside of loadSchema', () => {
+            expect(() => loadSchemaFromObject({
+                fields: { buyer: { $ref: 'common.schema.json#/definitions/party' } },
+            })).toThrow(/only supported when loading a schema file/);
+        });
+
+        it('should reject refs to missing files', async () => {
+            const filePath = path.join(TEST_DIR, 'missing-ref.schema.json');
+            await fs.writeFile(filePath, JSON.stringify({
+                fields: { buyer: { $ref: 'nope.schema.json#/definitions/party' } },
+            }));
+
+            await expect(loadSchema(filePath)).rejects.toMatchObject({ code: ErrorCodes.INVALID_REF });
+        });
+    });
+
     describe('Error handling', () => {
         it('should provide file path in error details', async () => {
             const filePath = path.join(TEST_DIR, 'bad-json.json');
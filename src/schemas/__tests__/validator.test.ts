@@ -389,6 +389,48 @@ describe('Schema Validator', () => {
         });
     });
 
+    describe('Length and Item Constraints', () => {
+        it('should accept string length and array item constraints', () => {
+            const schema = {
+                fields: {
+                    country: { type: 'string', minLength: 2, maxLength: 2 },
+                    line_items: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 50, uniqueItems: true },
+                },
+            };
+
+            expect(() => validateSchema(schema)).not.toThrow();
+        });
+
+        it('should reject negative or non-integer counts', () => {
+            expect(() => validateSchema({ fields: { code: { type: 'string', minLength: -1 } } }))
+                .toThrow(/minLength constraint must be a non-negative integer/);
+            expect(() => validateSchema({ fields: { tags: { type: 'array', items: { type: 'string' }, maxItems: 1.5 } } }))
+                .toThrow(/maxItems constraint must be a non-negative integer/);
+        });
+
+        it('should reject a minimum greater than the maximum', () => {
+            try {
+                validateSchema({ fields: { code: { type: 'string', minLength: 5, maxLength: 2 } } });
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as SchemaValidationError).code).toBe(ErrorCodes.CONSTRAINT_MISMATCH);
+                expect((error as SchemaValidationError).message).toContain('minLength (5) cannot be greater than maxLength (2)');
+            }
+        });
+
+        it('should reject constraints on the wrong field type', () => {
+            expect(() => validateSchema({ fields: { total: { type: 'number', maxLength: 3 } } }))
+                .toThrow(/with type 'number' cannot have 'minLength' or 'maxLength'/);
+            expect(() => validateSchema({ fields: { name: { type: 'string', minItems: 1 } } }))
+                .toThrow(/with type 'string' cannot have 'minItems', 'maxItems' or 'uniqueItems'/);
+        });
+
+        it('should reject a non-boolean uniqueItems', () => {
+            expect(() => validateSchema({ fields: { tags: { type: 'array', items: { type: 'string' }, uniqueItems: 'yes' } } }))
+                .toThrow(/uniqueItems property must be a boolean/);
+        });
+    });
+
     describe('Metadata Validation', () => {
         it('should validate complete metadata', () => {
             const schema = {
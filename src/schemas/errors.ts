@@ -8,6 +8,8 @@ export const ErrorCodes = {
   MISSING_FIELDS: 'MISSING_FIELDS',
   INVALID_FIELD_TYPE: 'INVALID_FIELD_TYPE',
   INVALID_FIELD_NAME: 'INVALID_FIELD_NAME',
+  INVALID_REF: 'INVALID_REF',
+  CIRCULAR_REF: 'CIRCULAR_REF',
   
   // Field constraint errors
   INVALID_ENUM_VALUE: 'INVALID_ENUM_VALUE',
@@ -17,6 +19,7 @@ export const ErrorCodes = {
   INVALID_PATTERN: 'INVALID_PATTERN',
   CONSTRAINT_MISMATCH: 'CONSTRAINT_MISMATCH',
   DUPLICATE_ENUM_VALUE: 'DUPLICATE_ENUM_VALUE',
+  UNKNOWN_FORMAT: 'UNKNOWN_FORMAT',
   
   // Confidence-related errors
   CONFIDENCE_BELOW_THRESHOLD: 'CONFIDENCE_BELOW_THRESHOLD',
@@ -0,0 +1,419 @@
+/**
+ * String format registry - validators and normalizers for `format` values
+ *
+ * Built-in formats cover dates and times, emails, URIs, UUIDs, phone numbers
+ * (E.164), ISO country and currency codes and IBANs. Custom formats can be
+ * registered with registerFormat().
+ */
+
+/**
+ * A named string format
+ */
+export interface StringFormat {
+    /** Name used as the `format` value in schemas */
+    readonly name: string;
+    /** Short description shown in prompts, e.g. "E.164 phone number like +14155552671" */
+    readonly description?: string;
+    /** A valid value, used as the placeholder by the mock provider */
+    readonly example?: string;
+    /** Returns true if a value is valid in this format */
+    validate(value: string): boolean;
+    /**
+     * Converts a value to the format's canonical form, or returns undefined
+     * if it cannot (the value is then left to validation)
+     */
+    normalize?(value: string): string | undefined;
+}
+
+/**
+ * ISO 3166-1 alpha-2 country codes
+ */
+const COUNTRY_CODES = new Set((
+    'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ ' +
+    'CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR ' +
+    'GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP ' +
+    'KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT ' +
+    'MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+    'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ ' +
+    'UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' '));
+
+/**
+ * ISO 4217 currency codes in circulation
+ */
+const CURRENCY_CODES = new Set((
+    'AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BRL BSD BTN BWP BYN BZD CAD CDF CHF ' +
+    'CLP CNY COP CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD GNF GTQ GYD HKD HNL HTG ' +
+    'HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA ' +
+    'MKD MMK MNT MOP MRU MUR MVR MWK MXN MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD ' +
+    'RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SOS SRD SSP STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX ' +
+    'USD UYU UZS VES VND VUV WST XAF XCD XCG XOF XPF YER ZAR ZMW ZWG'
+).split(' '));
+
+/**
+ * Currency symbols that identify a single currency
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    '€': 'EUR',
+    '£': 'GBP',
+    '₹': 'INR',
+    '₩': 'KRW',
+    '₽': 'RUB',
+    '₺': 'TRY',
+    '₪': 'ILS',
+    '₫': 'VND',
+    '₴': 'UAH',
+};
+
+const MONTH_NAMES: Record<string, number> = {
+    january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3,
+    april: 4, apr: 4, may: 5, june: 6, jun: 6,
+    july: 7, jul: 7, august: 8, aug: 8, september: 9, sep: 9, sept: 9,
+    october: 10, oct: 10, november: 11, nov: 11, december: 12, dec: 12,
+};
+
+/**
+ * Common date format patterns and their parsing logic
+ * Supports: MM/DD/YY, MM/DD/YYYY, DD-MM-YYYY, YYYY-MM-DD, etc.
+ */
+const DATE_PATTERNS: Array<{
+    regex: RegExp;
+    parse: (match: RegExpMatchArray) => { year: number; month: number; day: number } | null;
+}> = [
+    // ISO format: YYYY-MM-DD or YYYY-MM-DDTHH:MM:SS
+    {
+        regex: /^(\d{4})-(\d{1,2})-(\d{1,2})(?:T[\d:]+)?$/,
+        parse: (m) => ({ year: parseInt(m[1]), month: parseInt(m[2]), day: parseInt(m[3]) }),
+    },
+    // US format: MM/DD/YYYY or MM/DD/YY
+    {
+        regex: /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/,
+        parse: (m) => {
+            let year = parseInt(m[3]);
+            if (year < 100) year += year < 50 ? 2000 : 1900;
+            return { year, month: parseInt(m[1]), day: parseInt(m[2]) };
+        },
+    },
+    // European format: DD-MM-YYYY or DD.MM.YYYY
+    {
+        regex: /^(\d{1,2})[-.](\d{1,2})[-.](\d{4})$/,
+        parse: (m) => ({ year: parseInt(m[3]), month: parseInt(m[2]), day: parseInt(m[1]) }),
+    },
+    // Written format: January 15, 2024 or Jan 15, 2024
+    {
+        regex: /^([A-Za-z]+)\s+(\d{1,2}),?\s+(\d{4})$/,
+        parse: (m) => {
+            const month = MONTH_NAMES[m[1].toLowerCase()];
+            return month ? { year: parseInt(m[3]), month, day: parseInt(m[2]) } : null;
+        },
+    },
+    // Written format: 15 January 2024 or 15 Jan 2024
+    {
+        regex: /^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/,
+        parse: (m) => {
+            const month = MONTH_NAMES[m[2].toLowerCase()];
+            return month ? { year: parseInt(m[3]), month, day: parseInt(m[1]) } : null;
+        },
+    },
+];
+
+/**
+ * Returns true if year/month/day is a real calendar date
+ */
+function isCalendarDate(year: number, month: number, day: number): boolean {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Parses a date written in a common format into an ISO date (YYYY-MM-DD)
+ *
+ * Years outside 1900-2100 are rejected to avoid misreading other numbers as
+ * dates. The time of an ISO date-time is dropped.
+ *
+ * @param value - Date string
+ * @returns ISO date, or undefined if the value is not a recognized date
+ */
+export function parseDate(value: string): string | undefined {
+    const trimmed = value.trim();
+
+    for (const pattern of DATE_PATTERNS) {
+        const match = trimmed.match(pattern.regex);
+        const parsed = match ? pattern.parse(match) : null;
+        if (parsed && parsed.year >= 1900 && parsed.year <= 2100 &&
+            isCalendarDate(parsed.year, parsed.month, parsed.day)) {
+            return `${parsed.year}-${String(parsed.month).padStart(2, '0')}-${String(parsed.day).padStart(2, '0')}`;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Normalizes a timezone designator to `Z` or `+HH:MM`
+ */
+function normalizeOffset(offset: string): string | undefined {
+    if (/^(z|utc|gmt)$/i.test(offset)) {
+        return 'Z';
+    }
+    const match = /^([+-])(\d{2}):?(\d{2})?$/.exec(offset);
+    return match ? `${match[1]}${match[2]}:${match[3] ?? '00'}` : undefined;
+}
+
+/**
+ * Normalizes a time of day to HH:MM:SS, keeping fractions and offsets
+ * (12-hour clock times are converted)
+ */
+function normalizeTime(value: string): string | undefined {
+    const match = /^(\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?\s*([ap]\.?m\.?)?\s*(z|utc|gmt|[+-]\d{2}(?::?\d{2})?)?$/i
+        .exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    let hours = parseInt(match[1]);
+    const meridiem = match[5]?.[0].toLowerCase();
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return undefined;
+        hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+    }
+
+    const offset = match[6] ? normalizeOffset(match[6]) : '';
+    if (offset === undefined) {
+        return undefined;
+    }
+    return `${String(hours).padStart(2, '0')}:${match[2]}:${match[3] ?? '00'}${match[4] ?? ''}${offset}`;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)?$/;
+
+/**
+ * Timezone designator at the end of a normalized time
+ */
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Offset assumed for date-times written without one
+ */
+const DEFAULT_OFFSET = 'Z';
+
+/**
+ * Returns true for a strict ISO date (YYYY-MM-DD) that exists in the calendar
+ */
+function isIsoDate(value: string): boolean {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    return match !== null && isCalendarDate(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
+}
+
+/**
+ * Lowercase names (in English) of the codes in a list, built on first use
+ */
+function buildNameIndex(codes: Set<string>, type: 'region' | 'currency'): () => Map<string, string> {
+    let index: Map<string, string> | undefined;
+    return () => {
+        if (!index) {
+            index = new Map();
+            try {
+                const names = new Intl.DisplayNames(['en'], { type });
+                for (const code of codes) {
+                    const name = names.of(code);
+                    if (name && name !== code) {
+                        index.set(name.toLowerCase(), code);
+                    }
+                }
+            } catch {
+                // Runtime without Intl.DisplayNames: codes only
+            }
+        }
+        return index;
+    };
+}
+
+const countryNames = buildNameIndex(COUNTRY_CODES, 'region');
+const currencyNames = buildNameIndex(CURRENCY_CODES, 'currency');
+
+/**
+ * Returns true if an IBAN passes the ISO 13616 mod-97 check
+ */
+function hasValidIbanChecksum(iban: string): boolean {
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+        for (const digit of digits) {
+            remainder = (remainder * 10 + Number(digit)) % 97;
+        }
+    }
+    return remainder === 1;
+}
+
+const BUILT_IN_FORMATS: StringFormat[] = [
+    {
+        name: 'date',
+        description: 'ISO 8601 date like 2024-01-15',
+        example: '1970-01-01',
+        validate: isIsoDate,
+        normalize: parseDate,
+    },
+    {
+        name: 'date-time',
+        description: 'RFC 3339 date-time with timezone like 2024-01-15T10:30:00Z',
+        example: '1970-01-01T00:00:00Z',
+        validate: (value) => {
+            const [date, time, ...rest] = value.split('T');
+            return rest.length === 0 && isIsoDate(date) && time !== undefined &&
+                TIME_PATTERN.test(time) && OFFSET_PATTERN.test(time);
+        },
+        normalize: (value) => {
+            // Date and time separated by T or a space; times without an offset
+            // are taken as UTC, and a date alone as midnight UTC
+            const match = /^(\d{4}-\d{2}-\d{2})[Tt ](.+)$/.exec(value.trim());
+            if (!match) {
+                const date = parseDate(value);
+                return date && `${date}T00:00:00${DEFAULT_OFFSET}`;
+            }
+            const time = normalizeTime(match[2]);
+            if (!time || !isIsoDate(match[1])) {
+                return undefined;
+            }
+            return `${match[1]}T${time}${OFFSET_PATTERN.test(time) ? '' : DEFAULT_OFFSET}`;
+        },
+    },
+    {
+        name: 'time',
+        description: 'time of day like 14:30:00',
+        example: '00:00:00',
+        validate: (value) => TIME_PATTERN.test(value),
+        normalize: normalizeTime,
+    },
+    {
+        name: 'email',
+        description: 'email address',
+        example: 'user@example.com',
+        validate: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+        normalize: (value) => {
+            const trimmed = value.trim().replace(/^mailto:/i, '');
+            const at = trimmed.lastIndexOf('@');
+            return at > 0 ? trimmed.slice(0, at) + trimmed.slice(at).toLowerCase() : undefined;
+        },
+    },
+    {
+        name: 'uri',
+        description: 'absolute URI like https://example.com/page',
+        example: 'https://example.com',
+        validate: (value) => {
+            if (!/^[a-z][a-z\d+.-]*:\S+$/i.test(value)) return false;
+            try {
+                new URL(value);
+                return true;
+            } catch {
+                return false;
+            }
+        },
+        normalize: (value) => {
+            const trimmed = value.trim();
+            return /^www\./i.test(trimmed) ? `https://${trimmed}` : trimmed;
+        },
+    },
+    {
+        name: 'uuid',
+        description: 'lowercase UUID',
+        example: '00000000-0000-0000-0000-000000000000',
+        validate: (value) => /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/.test(value),
+        normalize: (value) => {
+            const hex = value.trim().replace(/^urn:uuid:/i, '').replace(/^\{(.*)\}$/, '$1').replace(/-/g, '').toLowerCase();
+            return /^[\da-f]{32}$/.test(hex)
+                ? `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+                : undefined;
+        },
+    },
+    {
+        name: 'phone',
+        description: 'E.164 phone number like +14155552671',
+        example: '+10000000000',
+        validate: (value) => /^\+[1-9]\d{6,14}$/.test(value),
+        normalize: (value) => {
+            // Only numbers written with a country code (+ or 00) can be normalized
+            const compact = value.trim().replace(/[\s().\-/]/g, '').replace(/^00/, '+');
+            return /^\+\d+$/.test(compact) ? compact : undefined;
+        },
+    },
+    {
+        name: 'iso-country',
+        description: 'ISO 3166-1 alpha-2 country code like US',
+        example: 'US',
+        validate: (value) => COUNTRY_CODES.has(value),
+        normalize: (value) => {
+            const trimmed = value.trim();
+            const code = trimmed.toUpperCase();
+            return COUNTRY_CODES.has(code) ? code : countryNames().get(trimmed.toLowerCase());
+        },
+    },
+    {
+        name: 'iso-currency',
+        description: 'ISO 4217 currency code like USD',
+        example: 'USD',
+        validate: (value) => CURRENCY_CODES.has(value),
+        normalize: (value) => {
+            const trimmed = value.trim();
+            const code = trimmed.toUpperCase();
+            if (CURRENCY_CODES.has(code)) return code;
+            return CURRENCY_SYMBOLS[trimmed] ?? currencyNames().get(trimmed.toLowerCase());
+        },
+    },
+    {
+        name: 'iban',
+        description: 'IBAN without spaces like GB82WEST12345698765432',
+        example: 'GB82WEST12345698765432',
+        validate: (value) => /^[A-Z]{2}\d{2}[A-Z\d]{11,30}$/.test(value) && hasValidIbanChecksum(value),
+        normalize: (value) => value.trim().replace(/^IBAN:?/i, '').replace(/[\s-]/g, '').toUpperCase(),
+    },
+];
+
+const formats = new Map<string, StringFormat>(BUILT_IN_FORMATS.map(format => [format.name, format]));
+
+/**
+ * Registers a string format under its name
+ *
+ * Registering a name that already exists replaces the previous format,
+ * including built-ins. Schemas are checked against the registry when they
+ * are validated, so register custom formats before loading schemas.
+ *
+ * @param format - Format to register
+ */
+export function registerFormat(format: StringFormat): void {
+    if (!format.name) {
+        throw new Error('String format must have a name');
+    }
+    if (typeof format.validate !== 'function') {
+        throw new Error(`String format "${format.name}" must have a validate function`);
+    }
+    formats.set(format.name, format);
+}
+
+/**
+ * Removes a registered string format
+ *
+ * @param name - Format name
+ * @returns True if a format was removed
+ */
+export function unregisterFormat(name: string): boolean {
+    return formats.delete(name);
+}
+
+/**
+ * Looks up a string format by name
+ *
+ * @param name - Format name
+ * @returns The format, or undefined if none is registered under the name
+ */
+export function getFormat(name: string): StringFormat | undefined {
+    return formats.get(name);
+}
+
+/**
+ * Lists registered format names in registration order
+ */
+export function listFormats(): string[] {
+    return [...formats.keys()];
+}
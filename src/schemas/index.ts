@@ -4,5 +4,8 @@
 
 export { loadSchema, parseSchema, loadSchemaFromObject } from './loader.js';
 export { validateSchema } from './validator.js';
+export { resolveSchemaRefs, resolveSchemaFileRefs } from './resolver.js';
+export { registerFormat, unregisterFormat, getFormat, listFormats } from './formats.js';
+export type { StringFormat } from './formats.js';
 export { SchemaValidationError, ErrorCodes } from './errors.js';
 export type { Schema, FieldDefinition, FieldType, ValidationError, ValidationResult } from './types.js';
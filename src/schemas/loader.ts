@@ -6,14 +6,15 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { Schema } from './types.js';
 import { validateSchema } from './validator.js';
+import { resolveSchemaRefs, resolveSchemaFileRefs } from './resolver.js';
 import { SchemaValidationError, ErrorCodes } from './errors.js';
 
 /**
  * Loads a schema from a file path
  * 
  * @param filePath - Path to the schema JSON file
- * @returns Validated schema object
- * @throws {SchemaValidationError} If the file cannot be read or schema is invalid
+ * @returns Validated schema object, with `$ref` fields resolved (also from other files)
+ * @throws {SchemaValidationError} If the file cannot be read, a reference is invalid or the schema is invalid
  */
 export async function loadSchema(filePath: string): Promise<Schema> {
     try {
@@ -54,17 +55,20 @@ export async function loadSchema(filePath: string): Promise<Schema> {
         );
     }
 
+    // Inline shared definitions, including those in other schema files
+    const resolved = await resolveSchemaFileRefs(schema, filePath);
+
     // Validate schema structure
-    validateSchema(schema);
+    validateSchema(resolved);
 
-    return schema;
+    return resolved;
 }
 
 /**
  * Parses a schema from a JSON string
  * 
  * @param jsonString - JSON string containing the schema
- * @returns Validated schema object
+ * @returns Validated schema object, with `$ref` fields resolved
  * @throws {SchemaValidationError} If the JSON is invalid or schema is malformed
  */
 export function parseSchema(jsonString: string): Schema {
@@ -79,18 +83,20 @@ export function parseSchema(jsonString: string): Schema {
         );
     }
 
-    validateSchema(schema);
-    return schema;
+    const resolved = resolveSchemaRefs(schema);
+    validateSchema(resolved);
+    return resolved;
 }
 
 /**
  * Loads a schema from an object (useful for testing or programmatic usage)
  * 
  * @param obj - Schema object
- * @returns Validated schema object
- * @throws {SchemaValidationError} If the schema is invalid
+ * @returns Validated schema object, with `$ref` fields resolved
+ * @throws {SchemaValidationError} If a reference is invalid or the schema is invalid
  */
 export function loadSchemaFromObject(obj: unknown): Schema {
-    validateSchema(obj);
-    return obj;
+    const resolved = resolveSchemaRefs(obj);
+    validateSchema(resolved);
+    return resolved;
 }
@@ -0,0 +1,298 @@
+/**
+ * Schema reference resolver - inlines `$ref` fields from shared definitions
+ *
+ * A reference is `#/definitions/<name>` (a definition in the same schema) or
+ * `<path>#/definitions/<name>` (a definition in another schema file, relative
+ * to the referencing file). Keys next to `$ref` override the definition's,
+ * e.g. to mark a shared block optional or describe it for one field.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { SchemaValidationError, ErrorCodes } from './errors.js';
+
+/**
+ * Reference syntax: optional file path, then the definition name
+ */
+const REF_PATTERN = /^([^#]*)#\/definitions\/([^/]+)$/;
+
+/**
+ * Key of the schema that was not loaded from a file
+ */
+const ROOT_DOCUMENT = '';
+
+/**
+ * Parsed schema documents by absolute path (ROOT_DOCUMENT for an in-memory schema)
+ */
+type DocumentMap = Map<string, Record<string, unknown>>;
+
+/**
+ * Where a field definition is being resolved
+ */
+interface ResolveContext {
+    documents: DocumentMap;
+    /** Document the field was written in */
+    document: string;
+    /** Field path used in error messages */
+    field: string;
+    /** References being resolved, outermost first (for cycle detection) */
+    stack: string[];
+}
+
+/**
+ * A parsed `$ref`
+ */
+interface ParsedRef {
+    /** Absolute path of the referenced file, or the referencing document */
+    document: string;
+    name: string;
+}
+
+/**
+ * Returns a copy of a schema with every `$ref` replaced by its definition
+ * (or the schema itself if it has no references)
+ *
+ * Only references within the schema are supported; use
+ * resolveSchemaFileRefs() for schemas that reference other files.
+ *
+ * @param schema - Parsed schema (not yet validated)
+ * @throws {SchemaValidationError} If a reference is invalid or circular
+ */
+export function resolveSchemaRefs(schema: unknown): unknown {
+    if (!isObject(schema) || collectRefs(schema).length === 0) {
+        return schema;
+    }
+    return resolveDocument(new Map([[ROOT_DOCUMENT, schema]]), ROOT_DOCUMENT);
+}
+
+/**
+ * Returns a copy of a schema loaded from a file with every `$ref` replaced
+ * by its definition, reading referenced schema files as needed
+ *
+ * @param schema - Parsed schema (not yet validated)
+ * @param filePath - Path of the schema file, which relative references resolve against
+ * @throws {SchemaValidationError} If a reference is invalid or circular, or a referenced file cannot be loaded
+ */
+export async function resolveSchemaFileRefs(schema: unknown, filePath: string): Promise<unknown> {
+    if (!isObject(schema) || collectRefs(schema).length === 0) {
+        return schema;
+    }
+
+    const rootPath = path.resolve(filePath);
+    const documents: DocumentMap = new Map([[rootPath, schema]]);
+    await loadReferencedDocuments(schema, rootPath, documents);
+
+    return resolveDocument(documents, rootPath);
+}
+
+/**
+ * Reads every schema file a document references, directly or through
+ * other referenced files
+ */
+async function loadReferencedDocuments(value: unknown, document: string, documents: DocumentMap): Promise<void> {
+    for (const ref of collectRefs(value)) {
+        const match = REF_PATTERN.exec(ref);
+        if (!match || !match[1]) continue;
+
+        const target = path.resolve(path.dirname(document), match[1]);
+        if (documents.has(target)) continue;
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(await fs.readFile(target, 'utf-8'));
+        } catch (error) {
+            throw new SchemaValidationError(
+                `Cannot load referenced schema file ${target}: ${(error as Error).message}`,
+                ErrorCodes.INVALID_REF,
+                undefined,
+                { ref, filePath: target }
+            );
+        }
+        if (!isObject(parsed)) {
+            throw new SchemaValidationError(
+                `Referenced schema file ${target} must contain a JSON object`,
+                ErrorCodes.INVALID_REF,
+                undefined,
+                { ref, filePath: target }
+            );
+        }
+
+        documents.set(target, parsed);
+        await loadReferencedDocuments(parsed, target, documents);
+    }
+}
+
+/**
+ * Returns every `$ref` string in a parsed value
+ */
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+    if (Array.isArray(value)) {
+        value.forEach(item => collectRefs(item, refs));
+    } else if (isObject(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            if (key === '$ref' && typeof child === 'string') {
+                refs.push(child);
+            } else {
+                collectRefs(child, refs);
+            }
+        }
+    }
+    return refs;
+}
+
+/**
+ * Resolves the fields and definitions of one document
+ */
+function resolveDocument(documents: DocumentMap, document: string): Record<string, unknown> {
+    const schema = documents.get(document)!;
+    const resolved: Record<string, unknown> = { ...schema };
+
+    for (const key of ['definitions', 'fields'] as const) {
+        const fields = schema[key];
+        if (!isObject(fields)) continue;
+
+        resolved[key] = Object.fromEntries(
+            Object.entries(fields).map(([name, field]) => [
+                name,
+                resolveField(field, {
+                    documents,
+                    document,
+                    field: key === 'definitions' ? `definitions.${name}` : name,
+                    stack: [],
+                }),
+            ])
+        );
+    }
+
+    return resolved;
+}
+
+/**
+ * Resolves a field definition's `$ref`, then the fields nested in it
+ */
+function resolveField(field: unknown, context: ResolveContext): unknown {
+    if (!isObject(field)) {
+        return field;
+    }
+    if (field.$ref === undefined) {
+        return resolveNested(field, context);
+    }
+
+    const ref = parseRef(field.$ref, context);
+    const key = `${ref.document}#${ref.name}`;
+    if (context.stack.includes(key)) {
+        const chain = [...context.stack, key].map(entry => entry.replace(/^.*#/, ''));
+        throw new SchemaValidationError(
+            `Field '${context.field}' has a circular $ref: ${chain.join(' -> ')}`,
+            ErrorCodes.CIRCULAR_REF,
+            context.field,
+            { ref: field.$ref, chain }
+        );
+    }
+
+    const definition = resolveField(lookupDefinition(ref, field.$ref as string, context), {
+        ...context,
+        document: ref.document,
+        stack: [...context.stack, key],
+    }) as Record<string, unknown>;
+
+    // Overrides are written in this document, so their nested refs resolve here
+    const { $ref: _ref, ...overrides } = field;
+    return { ...definition, ...resolveNested(overrides, context) };
+}
+
+/**
+ * Resolves the object properties, array items and alternatives of a field definition
+ */
+function resolveNested(field: Record<string, unknown>, context: ResolveContext): Record<string, unknown> {
+    const resolved = { ...field };
+
+    if (isObject(field.properties)) {
+        resolved.properties = Object.fromEntries(
+            Object.entries(field.properties).map(([name, property]) => [
+                name,
+                resolveField(property, { ...context, field: `${context.field}.${name}` }),
+            ])
+        );
+    }
+    if (isObject(field.items)) {
+        resolved.items = resolveField(field.items, { ...context, field: `${context.field}.items` });
+    }
+    for (const keyword of ['oneOf', 'anyOf'] as const) {
+        const alternatives = field[keyword];
+        if (Array.isArray(alternatives)) {
+            resolved[keyword] = alternatives.map((alternative, index) =>
+                resolveField(alternative, { ...context, field: `${context.field}.${keyword}[${index}]` })
+            );
+        }
+    }
+
+    return resolved;
+}
+
+/**
+ * Parses a `$ref` value
+ *
+ * @throws {SchemaValidationError} If the reference is malformed or points to another file where files are not available
+ */
+function parseRef(ref: unknown, context: ResolveContext): ParsedRef {
+    const match = typeof ref === 'string' ? REF_PATTERN.exec(ref) : null;
+    if (!match) {
+        throw new SchemaValidationError(
+            `Field '${context.field}' has an invalid $ref ${JSON.stringify(ref)}. ` +
+                `Expected '#/definitions/<name>' or '<file>#/definitions/<name>'`,
+            ErrorCodes.INVALID_REF,
+            context.field,
+            { ref }
+        );
+    }
+
+    if (!match[1]) {
+        return { document: context.document, name: match[2] };
+    }
+    if (context.document === ROOT_DOCUMENT) {
+        throw new SchemaValidationError(
+            `Field '${context.field}' references another file (${ref}), which is only supported when loading a schema file`,
+            ErrorCodes.INVALID_REF,
+            context.field,
+            { ref }
+        );
+    }
+    return { document: path.resolve(path.dirname(context.document), match[1]), name: match[2] };
+}
+
+/**
+ * Returns the definition a reference points to
+ *
+ * @throws {SchemaValidationError} If the definition does not exist or is not an object
+ */
+function lookupDefinition(ref: ParsedRef, raw: string, context: ResolveContext): Record<string, unknown> {
+    const definitions = context.documents.get(ref.document)?.definitions;
+    const definition = isObject(definitions) && Object.hasOwn(definitions, ref.name)
+        ? definitions[ref.name]
+        : undefined;
+
+    if (definition === undefined) {
+        const available = isObject(definitions) ? Object.keys(definitions) : [];
+        throw new SchemaValidationError(
+            `Field '${context.field}' references unknown definition '${ref.name}' ($ref: ${raw})` +
+                (available.length > 0 ? `. Available definitions: ${available.join(', ')}` : ''),
+            ErrorCodes.INVALID_REF,
+            context.field,
+            { ref: raw, available }
+        );
+    }
+    if (!isObject(definition)) {
+        throw new SchemaValidationError(
+            `Definition '${ref.name}' referenced by field '${context.field}' must be an object`,
+            ErrorCodes.INVALID_REF,
+            context.field,
+            { ref: raw }
+        );
+    }
+    return definition;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
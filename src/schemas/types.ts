@@ -19,17 +19,16 @@ export interface ObjectProperties {
 
 /**
  * Array items definition
+ * @deprecated Array items accept any field definition; use FieldDefinition
  */
-export interface ArrayItemDefinition {
-    type: 'object';
-    properties: ObjectProperties;
-}
+export type ArrayItemDefinition = FieldDefinition;
 
 /**
  * Field definition within a schema
  */
 export interface FieldDefinition {
-    type: FieldType;
+    /** Value type (omitted for `oneOf`/`anyOf` fields, whose alternatives have types) */
+    type?: FieldType;
     description?: string;
     optional?: boolean;
     format?: string;
@@ -37,10 +36,30 @@ export interface FieldDefinition {
     min?: number;
     max?: number;
     pattern?: string;
-    /** For array type: definition of array items */
-    items?: ArrayItemDefinition;
+    /** For string type: minimum length in characters */
+    minLength?: number;
+    /** For string type: maximum length in characters */
+    maxLength?: number;
+    /** For array type: minimum number of items */
+    minItems?: number;
+    /** For array type: maximum number of items */
+    maxItems?: number;
+    /** For array type: reject arrays containing equal items */
+    uniqueItems?: boolean;
+    /** For array type: definition of array items (any field type, including arrays) */
+    items?: FieldDefinition;
     /** For object type: nested properties */
     properties?: ObjectProperties;
+    /** Alternatives of which the value must match exactly one */
+    oneOf?: FieldDefinition[];
+    /** Alternatives of which the value must match at least one */
+    anyOf?: FieldDefinition[];
+    /**
+     * Reference to a shared definition (`#/definitions/<name>` or
+     * `<file>#/definitions/<name>`), replaced by the definition when the
+     * schema is loaded; other keys override the definition's
+     */
+    $ref?: string;
 }
 
 /**
@@ -48,6 +67,8 @@ export interface FieldDefinition {
  */
 export interface Schema {
     fields: Record<string, FieldDefinition>;
+    /** Shared field definitions, referenced from fields with `$ref` */
+    definitions?: Record<string, FieldDefinition>;
     metadata?: {
         name?: string;
         version?: string;
@@ -4,6 +4,7 @@
 
 import type { Schema, FieldDefinition, FieldType } from './types.js';
 import { SchemaValidationError, ErrorCodes } from './errors.js';
+import { getFormat, listFormats } from './formats.js';
 
 const VALID_FIELD_TYPES: FieldType[] = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
 
@@ -55,6 +56,11 @@ export function validateSchema(schema: unknown): asserts schema is Schema {
         validateFieldDefinition(fieldName, fieldDef);
     }
 
+    // Validate shared definitions if present
+    if (schemaObj.definitions !== undefined) {
+        validateDefinitions(schemaObj.definitions);
+    }
+
     // Validate metadata if present
     if (schemaObj.metadata !== undefined) {
         validateMetadata(schemaObj.metadata);
@@ -101,6 +107,40 @@ function validateFieldDefinition(fieldName: string, fieldDef: unknown): void {
 
     const def = fieldDef as Record<string, unknown>;
 
+    // References are resolved by the loader before validation
+    if (def.$ref !== undefined) {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' has an unresolved $ref. Load the schema with loadSchema(), parseSchema() or loadSchemaFromObject() to resolve it`,
+            ErrorCodes.INVALID_REF,
+            fieldName,
+            { ref: def.$ref }
+        );
+    }
+
+    // Validate optional property if present
+    if (def.optional !== undefined && typeof def.optional !== 'boolean') {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' optional property must be a boolean`,
+            ErrorCodes.INVALID_CONSTRAINT,
+            fieldName
+        );
+    }
+
+    // Validate description if present
+    if (def.description !== undefined && typeof def.description !== 'string') {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' description must be a string`,
+            ErrorCodes.INVALID_CONSTRAINT,
+            fieldName
+        );
+    }
+
+    // oneOf/anyOf fields take their types from their alternatives
+    if (def.oneOf !== undefined || def.anyOf !== undefined) {
+        validateAlternatives(fieldName, def);
+        return;
+    }
+
     // Check for required 'type' property
     if (!def.type) {
         throw new SchemaValidationError(
@@ -128,27 +168,28 @@ function validateFieldDefinition(fieldName: string, fieldDef: unknown): void {
         );
     }
 
-    // Validate optional property if present
-    if (def.optional !== undefined && typeof def.optional !== 'boolean') {
+    // Type-specific validations
+    const fieldType = def.type as FieldType;
+
+    // Length constraints only apply to strings, item constraints to arrays
+    if (fieldType !== 'string' && (def.minLength !== undefined || def.maxLength !== undefined)) {
         throw new SchemaValidationError(
-            `Field '${fieldName}' optional property must be a boolean`,
+            `Field '${fieldName}' with type '${fieldType}' cannot have 'minLength' or 'maxLength' properties`,
             ErrorCodes.INVALID_CONSTRAINT,
             fieldName
         );
     }
-
-    // Validate description if present
-    if (def.description !== undefined && typeof def.description !== 'string') {
+    if (def.format !== undefined) {
+        validateFormat(fieldName, fieldType, def.format);
+    }
+    if (fieldType !== 'array' && (def.minItems !== undefined || def.maxItems !== undefined || def.uniqueItems !== undefined)) {
         throw new SchemaValidationError(
-            `Field '${fieldName}' description must be a string`,
+            `Field '${fieldName}' with type '${fieldType}' cannot have 'minItems', 'maxItems' or 'uniqueItems' properties`,
             ErrorCodes.INVALID_CONSTRAINT,
             fieldName
         );
     }
 
-    // Type-specific validations
-    const fieldType = def.type as FieldType;
-
     if (fieldType === 'number' || fieldType === 'integer') {
         validateNumberField(fieldName, def);
     }
@@ -170,6 +211,65 @@ function validateFieldDefinition(fieldName: string, fieldDef: unknown): void {
     }
 }
 
+/**
+ * Validates a format: string fields only, and registered (built-in or
+ * added with registerFormat())
+ */
+function validateFormat(fieldName: string, fieldType: FieldType, format: unknown): void {
+    if (fieldType !== 'string') {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' with type '${fieldType}' cannot have 'format' property`,
+            ErrorCodes.INVALID_CONSTRAINT,
+            fieldName
+        );
+    }
+
+    if (typeof format !== 'string' || !getFormat(format)) {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' has unknown format ${JSON.stringify(format)}. Known formats: ${listFormats().join(', ')}`,
+            ErrorCodes.UNKNOWN_FORMAT,
+            fieldName,
+            { format, knownFormats: listFormats() }
+        );
+    }
+}
+
+/**
+ * Validates the alternatives of a oneOf/anyOf field
+ */
+function validateAlternatives(fieldName: string, def: Record<string, unknown>): void {
+    if (def.oneOf !== undefined && def.anyOf !== undefined) {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' cannot have both 'oneOf' and 'anyOf'`,
+            ErrorCodes.INVALID_CONSTRAINT,
+            fieldName
+        );
+    }
+
+    const keyword = def.oneOf !== undefined ? 'oneOf' : 'anyOf';
+    const alternatives = def[keyword];
+
+    if (def.type !== undefined) {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' cannot have both 'type' and '${keyword}'; set the type on each alternative`,
+            ErrorCodes.INVALID_CONSTRAINT,
+            fieldName
+        );
+    }
+
+    if (!Array.isArray(alternatives) || alternatives.length < 2) {
+        throw new SchemaValidationError(
+            `Field '${fieldName}' ${keyword} must be an array of at least two field definitions`,
+            ErrorCodes.INVALID_CONSTRAINT,
+            fieldName
+        );
+    }
+
+    alternatives.forEach((alternative, index) => {
+        validateFieldDefinition(`${fieldName}.${keyword}[${index}]`, alternative);
+    });
+}
+
 /**
  * Validates enum constraint on string fields
  */
@@ -285,80 +385,83 @@ function validateStringField(fieldName: string, def: Record<string, unknown>): v
         }
     }
 
-    // min/max not valid for string type (could be added for length later)
+    // min/max not valid for string type (length uses minLength/maxLength)
     if (def.min !== undefined || def.max !== undefined) {
         throw new SchemaValidationError(
-            `Field '${fieldName}' with type 'string' cannot have 'min' or 'max' properties`,
+            `Field '${fieldName}' with type 'string' cannot have 'min' or 'max' properties. Use 'minLength' and 'maxLength' to constrain its length`,
             ErrorCodes.INVALID_CONSTRAINT,
             fieldName
         );
     }
+
+    validateCountConstraints(fieldName, def, 'minLength', 'maxLength');
 }
 
 /**
- * Validates array field definition
+ * Validates a pair of count constraints (minLength/maxLength, minItems/maxItems):
+ * each must be a non-negative integer, and the minimum cannot exceed the maximum
  */
-function validateArrayField(fieldName: string, def: Record<string, unknown>): void {
-    // Array must have items definition
-    if (!def.items) {
-        throw new SchemaValidationError(
-            `Array field '${fieldName}' must have an 'items' property defining the array element type`,
-            ErrorCodes.INVALID_CONSTRAINT,
-            fieldName
-        );
+function validateCountConstraints(
+    fieldName: string,
+    def: Record<string, unknown>,
+    minKey: 'minLength' | 'minItems',
+    maxKey: 'maxLength' | 'maxItems'
+): void {
+    for (const key of [minKey, maxKey]) {
+        const value = def[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+            throw new SchemaValidationError(
+                `Field '${fieldName}' ${key} constraint must be a non-negative integer`,
+                ErrorCodes.INVALID_CONSTRAINT,
+                fieldName,
+                { [key]: value }
+            );
+        }
     }
 
-    if (typeof def.items !== 'object' || def.items === null) {
+    if (def[minKey] !== undefined && def[maxKey] !== undefined && (def[minKey] as number) > (def[maxKey] as number)) {
         throw new SchemaValidationError(
-            `Array field '${fieldName}' items must be an object`,
-            ErrorCodes.INVALID_CONSTRAINT,
-            fieldName
+            `Field '${fieldName}' ${minKey} (${def[minKey]}) cannot be greater than ${maxKey} (${def[maxKey]})`,
+            ErrorCodes.CONSTRAINT_MISMATCH,
+            fieldName,
+            { [minKey]: def[minKey], [maxKey]: def[maxKey] }
         );
     }
+}
 
-    const items = def.items as Record<string, unknown>;
-
-    // Currently only support object items
-    if (items.type !== 'object') {
+/**
+ * Validates array field definition
+ */
+function validateArrayField(fieldName: string, def: Record<string, unknown>): void {
+    // Array must have items definition
+    if (!def.items) {
         throw new SchemaValidationError(
-            `Array field '${fieldName}' items type must be 'object'. Got: ${items.type}`,
+            `Array field '${fieldName}' must have an 'items' property defining the array element type`,
             ErrorCodes.INVALID_CONSTRAINT,
             fieldName
         );
     }
 
-    // Validate the nested object properties
-    if (!items.properties) {
+    if (typeof def.items !== 'object' || def.items === null || Array.isArray(def.items)) {
         throw new SchemaValidationError(
-            `Array field '${fieldName}' items must have 'properties' defining the object structure`,
+            `Array field '${fieldName}' items must be an object`,
             ErrorCodes.INVALID_CONSTRAINT,
             fieldName
         );
     }
 
-    if (typeof items.properties !== 'object' || items.properties === null) {
-        throw new SchemaValidationError(
-            `Array field '${fieldName}' items properties must be an object`,
-            ErrorCodes.INVALID_CONSTRAINT,
-            fieldName
-        );
-    }
+    // Items accept any field definition, including nested arrays
+    validateFieldDefinition(`${fieldName}.items`, def.items);
 
-    const properties = items.properties as Record<string, unknown>;
+    validateCountConstraints(fieldName, def, 'minItems', 'maxItems');
 
-    if (Object.keys(properties).length === 0) {
+    if (def.uniqueItems !== undefined && typeof def.uniqueItems !== 'boolean') {
         throw new SchemaValidationError(
-            `Array field '${fieldName}' items must have at least one property`,
+            `Field '${fieldName}' uniqueItems property must be a boolean`,
             ErrorCodes.INVALID_CONSTRAINT,
             fieldName
         );
     }
-
-    // Validate each nested property
-    for (const [propName, propDef] of Object.entries(properties)) {
-        validateFieldName(propName);
-        validateFieldDefinition(`${fieldName}.items.${propName}`, propDef);
-    }
 }
 
 /**
@@ -399,6 +502,23 @@ function validateObjectField(fieldName: string, def: Record<string, unknown>): v
     }
 }
 
+/**
+ * Validates shared definitions (each one a field definition)
+ */
+function validateDefinitions(definitions: unknown): void {
+    if (typeof definitions !== 'object' || definitions === null || Array.isArray(definitions)) {
+        throw new SchemaValidationError(
+            "'definitions' must be an object",
+            ErrorCodes.INVALID_REF
+        );
+    }
+
+    for (const [name, definition] of Object.entries(definitions)) {
+        validateFieldName(name);
+        validateFieldDefinition(`definitions.${name}`, definition);
+    }
+}
+
 /**
  * Validates schema metadata
  */
@@ -0,0 +1,35 @@
+/**
+ * Tests for concurrency helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../concurrency.js';
+
+describe('mapWithConcurrency', () => {
+    it('should return results in input order', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, i) => {
+            await new Promise(resolve => setTimeout(resolve, ms));
+            return i;
+        });
+
+        expect(results).toEqual([0, 1, 2]);
+    });
+
+    it('should never exceed the concurrency limit', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+
+        await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+        });
+
+        expect(maxInFlight).toBe(3);
+    });
+
+    it('should handle empty input', async () => {
+        expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for CLI configuration loading
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+    findConfigFile,
+    loadConfigFile,
+    parseConfig,
+    readEnvConfig,
+    resolveLLMConfig,
+} from '../config.js';
+import { DEFAULT_RETRY_CONFIG } from '../../llm/client.js';
+
+describe('findConfigFile', () => {
+    let root: string;
+
+    beforeAll(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-config-'));
+        await fs.mkdir(path.join(root, 'project', 'src', 'deep'), { recursive: true });
+        await fs.writeFile(path.join(root, 'project', 'ordis.config.json'), '{}');
+    });
+
+    afterAll(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should find the config file in a parent directory', async () => {
+        const found = await findConfigFile(path.join(root, 'project', 'src', 'deep'));
+
+        expect(found).toBe(path.join(root, 'project', 'ordis.config.json'));
+    });
+
+    it('should find the config file in the start directory', async () => {
+        const found = await findConfigFile(path.join(root, 'project'));
+
+        expect(found).toBe(path.join(root, 'project', 'ordis.config.json'));
+    });
+
+    it('should return undefined when no config file exists', async () => {
+        // tmpdir itself is not expected to contain an ordis.config.json
+        const found = await findConfigFile(root);
+
+        expect(found === undefined || !found.startsWith(root)).toBe(true);
+    });
+});
+
+describe('loadConfigFile', () => {
+    let root: string;
+
+    beforeAll(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-config-'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should load a valid config file', async () => {
+        const file = path.join(root, 'valid.json');
+        await fs.writeFile(file, JSON.stringify({
+            baseURL: 'http://localhost:11434/v1',
+            model: 'llama3.1:8b',
+            timeout: 60000,
+            ollamaOptions: { num_ctx: 8192 },
+        }));
+
+        const config = await loadConfigFile(file);
+
+        expect(config).toEqual({
+            baseURL: 'http://localhost:11434/v1',
+            model: 'llama3.1:8b',
+            timeout: 60000,
+            ollamaOptions: { num_ctx: 8192 },
+        });
+    });
+
+    it('should report invalid JSON with the file path', async () => {
+        const file = path.join(root, 'broken.json');
+        await fs.writeFile(file, '{ not json');
+
+        await expect(loadConfigFile(file)).rejects.toThrow(`Failed to load config file ${file}`);
+    });
+});
+
+describe('parseConfig', () => {
+    it('should reject unknown options', () => {
+        expect(() => parseConfig({ modle: 'x' }, 'test')).toThrow('unknown option "modle"');
+    });
+
+    it('should reject values of the wrong type', () => {
+        expect(() => parseConfig({ timeout: '30s' }, 'test')).toThrow('"timeout" must be a non-negative number');
+        expect(() => parseConfig({ jsonMode: 'yes' }, 'test')).toThrow('"jsonMode" must be a boolean');
+        expect(() => parseConfig({ provider: 'azure' }, 'test')).toThrow('"provider" must be one of "openai", "ollama"');
+        expect(() => parseConfig({ ollamaOptions: { num_ctx: 'big' } }, 'test')).toThrow('"ollamaOptions.num_ctx" must be a number');
+        expect(() => parseConfig({ retries: { attempts: 2 } }, 'test')).toThrow('"retries.attempts"');
+        expect(() => parseConfig({ extractionMode: 'function' }, 'test')).toThrow('"extractionMode" must be "prompt" or "tool"');
+    });
+
+    it('should reject non-object config', () => {
+        expect(() => parseConfig([], 'test')).toThrow('expected a JSON object');
+    });
+
+    it('should accept retries as a number or object', () => {
+        expect(parseConfig({ retries: 5 }, 'test')).toEqual({ retries: 5 });
+        expect(parseConfig({ retries: { maxRetries: 1, maxDelay: 500 } }, 'test'))
+            .toEqual({ retries: { maxRetries: 1, maxDelay: 500 } });
+    });
+});
+
+describe('readEnvConfig', () => {
+    it('should map ORDIS_* variables to config keys', () => {
+        const config = readEnvConfig({
+            ORDIS_BASE_URL: 'https://api.openai.com/v1',
+            ORDIS_MODEL: 'gpt-4o-mini',
+            ORDIS_API_KEY: 'sk-test',
+            ORDIS_PROVIDER: 'openai',
+            ORDIS_JSON_MODE: 'true',
+            ORDIS_TIMEOUT: '30000',
+            ORDIS_TEMPERATURE: '0.2',
+            ORDIS_RETRIES: '1',
+            ORDIS_MAX_CONTEXT_TOKENS: '128000',
+        });
+
+        expect(config).toEqual({
+            baseURL: 'https://api.openai.com/v1',
+            model: 'gpt-4o-mini',
+            apiKey: 'sk-test',
+            provider: 'openai',
+            jsonMode: true,
+            timeout: 30000,
+            temperature: 0.2,
+            retries: 1,
+            maxContextTokens: 128000,
+        });
+    });
+
+    it('should ignore unrelated and empty variables', () => {
+        expect(readEnvConfig({ PATH: '/bin', ORDIS_MODEL: '' })).toEqual({});
+    });
+
+    it('should reject invalid values', () => {
+        expect(() => readEnvConfig({ ORDIS_TIMEOUT: 'soon' })).toThrow('ORDIS_TIMEOUT');
+        expect(() => readEnvConfig({ ORDIS_JSON_MODE: 'maybe' })).toThrow('ORDIS_JSON_MODE');
+        expect(() => readEnvConfig({ ORDIS_RETRIES: '1.5' })).toThrow('"retries"');
+    });
+});
+
+describe('resolveLLMConfig', () => {
+    it('should apply precedence CLI > env > file', () => {
+        const file = { baseURL: 'http://file/v1', model: 'file-model', apiKey: 'file-key', timeout: 1000 };
+        const env = { model: 'env-model', apiKey: 'env-key' };
+        const cli = { model: 'cli-model', apiKey: undefined };
+
+        expect(resolveLLMConfig(file, env, cli)).toEqual({
+            baseURL: 'http://file/v1',
+            model: 'cli-model',
+            apiKey: 'env-key',
+            timeout: 1000,
+        });
+    });
+
+    it('should let a higher layer turn jsonMode off', () => {
+        expect(resolveLLMConfig({ jsonMode: true }, { jsonMode: false })).toEqual({ jsonMode: false });
+    });
+
+    it('should merge ollamaOptions field by field', () => {
+        const config = resolveLLMConfig(
+            { ollamaOptions: { num_ctx: 8192, num_gpu: 1 } },
+            { ollamaOptions: { num_ctx: 16384 } }
+        );
+
+        expect(config.ollamaOptions).toEqual({ num_ctx: 16384, num_gpu: 1 });
+    });
+
+    it('should fill retries from defaults', () => {
+        expect(resolveLLMConfig({ retries: { maxDelay: 500 } }, { retries: 0 }).retries).toEqual({
+            ...DEFAULT_RETRY_CONFIG,
+            maxDelay: 500,
+            maxRetries: 0,
+        });
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for input file discovery
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { expandInputPattern, globToRegExp } from '../glob.js';
+
+describe('globToRegExp', () => {
+    it('should match single-segment wildcards', () => {
+        const regex = globToRegExp('*.txt');
+        expect(regex.test('a.txt')).toBe(true);
+        expect(regex.test('dir/a.txt')).toBe(false);
+        expect(regex.test('a.json')).toBe(false);
+    });
+
+    it('should match any depth with **', () => {
+        const regex = globToRegExp('**/*.txt');
+        expect(regex.test('a.txt')).toBe(true);
+        expect(regex.test('x/y/a.txt')).toBe(true);
+    });
+
+    it('should support ?, character classes and alternatives', () => {
+        expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+        expect(globToRegExp('file[0-9].txt').test('file7.txt')).toBe(true);
+        expect(globToRegExp('file[0-9].txt').test('fileA.txt')).toBe(false);
+        expect(globToRegExp('*.{txt,html}').test('page.html')).toBe(true);
+        expect(globToRegExp('*.{txt,html}').test('page.md')).toBe(false);
+    });
+
+    it('should escape regex characters', () => {
+        expect(globToRegExp('a+b.txt').test('a+b.txt')).toBe(true);
+        expect(globToRegExp('a+b.txt').test('aab.txt')).toBe(false);
+    });
+});
+
+describe('expandInputPattern', () => {
+    let root: string;
+
+    beforeAll(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'ordis-glob-'));
+        await fs.mkdir(path.join(root, 'receipts', '2024'), { recursive: true });
+        await fs.writeFile(path.join(root, 'receipts', 'b.txt'), 'b');
+        await fs.writeFile(path.join(root, 'receipts', 'a.txt'), 'a');
+        await fs.writeFile(path.join(root, 'receipts', 'notes.md'), 'n');
+        await fs.writeFile(path.join(root, 'receipts', '.hidden.txt'), 'h');
+        await fs.writeFile(path.join(root, 'receipts', '2024', 'c.txt'), 'c');
+    });
+
+    afterAll(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should list files directly inside a directory', async () => {
+        const files = await expandInputPattern('receipts', root);
+
+        expect(files.map(f => f.relativePath)).toEqual(['a.txt', 'b.txt', 'notes.md']);
+        expect(files[0].path).toBe(path.join(root, 'receipts', 'a.txt'));
+    });
+
+    it('should match a glob in one directory', async () => {
+        const files = await expandInputPattern('receipts/*.txt', root);
+
+        expect(files.map(f => f.relativePath)).toEqual(['a.txt', 'b.txt']);
+    });
+
+    it('should match a recursive glob', async () => {
+        const files = await expandInputPattern('receipts/**/*.txt', root);
+
+        expect(files.map(f => f.relativePath)).toEqual(['2024/c.txt', 'a.txt', 'b.txt']);
+    });
+
+    it('should return a plain file path as-is', async () => {
+        const files = await expandInputPattern('receipts/a.txt', root);
+
+        expect(files).toEqual([{ path: path.join(root, 'receipts', 'a.txt'), relativePath: 'a.txt' }]);
+    });
+
+    it('should return no files when the base directory does not exist', async () => {
+        const files = await expandInputPattern('missing/*.txt', root);
+
+        expect(files).toEqual([]);
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for partial JSON parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePartialJSON } from '../partial-json.js';
+
+describe('parsePartialJSON', () => {
+    it('should parse complete documents', () => {
+        expect(parsePartialJSON('{"a": [1, true, null], "b": "x"}')).toEqual({
+            value: { a: [1, true, null], b: 'x' },
+            complete: true,
+        });
+    });
+
+    it('should keep open strings and report their path', () => {
+        expect(parsePartialJSON('{"data": {"name": "Ad')).toEqual({
+            value: { data: { name: 'Ad' } },
+            complete: false,
+            pending: ['data', 'name'],
+        });
+    });
+
+    it('should leave out numbers and literals that may continue', () => {
+        expect(parsePartialJSON('{"a": 4')).toEqual({ value: {}, complete: false, pending: ['a'] });
+        expect(parsePartialJSON('{"a": tr')).toEqual({ value: {}, complete: false, pending: ['a'] });
+        expect(parsePartialJSON('{"a": 42,')).toEqual({ value: { a: 42 }, complete: false, pending: [] });
+    });
+
+    it('should point at the open container when the last member is complete', () => {
+        expect(parsePartialJSON('{"data": {"tags": ["a", "b"]')).toEqual({
+            value: { data: { tags: ['a', 'b'] } },
+            complete: false,
+            pending: ['data'],
+        });
+    });
+
+    it('should report array indexes and ignore incomplete keys', () => {
+        expect(parsePartialJSON('[{"x": 1}, {"y": "z')).toEqual({
+            value: [{ x: 1 }, { y: 'z' }],
+            complete: false,
+            pending: [1, 'y'],
+        });
+        expect(parsePartialJSON('{"a": 1, "na')).toEqual({ value: { a: 1 }, complete: false, pending: [] });
+    });
+
+    it('should handle escapes, including ones cut off mid-sequence', () => {
+        expect(parsePartialJSON('{"a": "line\\nnext \\u00e9"}')?.value).toEqual({ a: 'line\nnext é' });
+        expect(parsePartialJSON('{"a": "x\\u00')?.value).toEqual({ a: 'x' });
+        expect(parsePartialJSON('{"a": "x\\')?.value).toEqual({ a: 'x' });
+    });
+
+    it('should skip leading text and markdown fences', () => {
+        expect(parsePartialJSON('Here you go:\n```json\n{"a": "b"}\n```')).toEqual({
+            value: { a: 'b' },
+            complete: true,
+        });
+    });
+
+    it('should return undefined without a document or for invalid JSON', () => {
+        expect(parsePartialJSON('')).toBeUndefined();
+        expect(parsePartialJSON('no json yet')).toBeUndefined();
+        expect(parsePartialJSON('{"a": oops}')).toBeUndefined();
+        expect(parsePartialJSON('{a: 1}')).toBeUndefined();
+    });
+});
@@ -0,0 +1,33 @@
+/**
+ * Concurrency helpers
+ */
+
+/**
+ * Maps over items with at most `limit` calls in flight at once
+ *
+ * Results are returned in input order regardless of completion order.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (minimum 1)
+ * @param fn - Async function called for each item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    return results;
+}
@@ -0,0 +1,278 @@
+/**
+ * CLI configuration from ordis.config.json and ORDIS_* environment variables
+ *
+ * Precedence (highest first): command-line flags > environment > config file.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ExtractionMode, LLMConfig, OllamaOptions, ProviderName, RetryConfig } from '../llm/types.js';
+import { DEFAULT_RETRY_CONFIG } from '../llm/client.js';
+import { listProviders } from '../llm/providers/registry.js';
+
+/**
+ * Name of the project config file discovered from the working directory upward
+ */
+export const CONFIG_FILE_NAME = 'ordis.config.json';
+
+/**
+ * LLM settings that can come from flags, environment or config file
+ */
+export interface OrdisConfig {
+    baseURL?: string;
+    model?: string;
+    apiKey?: string;
+    provider?: ProviderName;
+    jsonMode?: boolean;
+    structuredOutput?: boolean;
+    extractionMode?: ExtractionMode;
+    /** Request timeout in milliseconds */
+    timeout?: number;
+    temperature?: number;
+    /** Maximum retries, or a full/partial retry configuration */
+    retries?: number | Partial<RetryConfig>;
+    maxContextTokens?: number;
+    ollamaOptions?: OllamaOptions;
+}
+
+/**
+ * Environment variables mapped to config keys
+ */
+const ENV_VARS = {
+    ORDIS_BASE_URL: 'baseURL',
+    ORDIS_MODEL: 'model',
+    ORDIS_API_KEY: 'apiKey',
+    ORDIS_PROVIDER: 'provider',
+    ORDIS_JSON_MODE: 'jsonMode',
+    ORDIS_STRUCTURED_OUTPUT: 'structuredOutput',
+    ORDIS_EXTRACTION_MODE: 'extractionMode',
+    ORDIS_TIMEOUT: 'timeout',
+    ORDIS_TEMPERATURE: 'temperature',
+    ORDIS_RETRIES: 'retries',
+    ORDIS_MAX_CONTEXT_TOKENS: 'maxContextTokens',
+} as const satisfies Record<string, keyof OrdisConfig>;
+
+const STRING_KEYS = ['baseURL', 'model', 'apiKey'] as const;
+const NUMBER_KEYS = ['timeout', 'temperature', 'maxContextTokens'] as const;
+const BOOLEAN_KEYS = ['jsonMode', 'structuredOutput'] as const;
+const EXTRACTION_MODES: readonly ExtractionMode[] = ['prompt', 'tool'];
+const RETRY_KEYS = ['maxRetries', 'initialDelay', 'maxDelay', 'backoffFactor'] as const;
+const OLLAMA_OPTION_KEYS = ['num_ctx', 'num_keep', 'num_gpu'] as const;
+
+/**
+ * Searches for ordis.config.json from a directory up to the filesystem root
+ *
+ * @param startDir - Directory to start searching from
+ * @returns Absolute path of the nearest config file, or undefined if none exists
+ */
+export async function findConfigFile(startDir: string = process.cwd()): Promise<string | undefined> {
+    let dir = path.resolve(startDir);
+
+    while (true) {
+        const candidate = path.join(dir, CONFIG_FILE_NAME);
+        try {
+            const stat = await fs.stat(candidate);
+            if (stat.isFile()) {
+                return candidate;
+            }
+        } catch {
+            // Not here, keep looking
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * Loads and validates a config file
+ *
+ * @param filePath - Path to the config file
+ * @returns Parsed config
+ * @throws Error if the file cannot be read, is not valid JSON or has invalid values
+ */
+export async function loadConfigFile(filePath: string): Promise<OrdisConfig> {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Failed to load config file ${filePath}: ${(error as Error).message}`);
+    }
+
+    return parseConfig(raw, filePath);
+}
+
+/**
+ * Validates a parsed config object
+ *
+ * @param raw - Parsed JSON value
+ * @param source - Where the config came from (used in error messages)
+ * @returns Validated config
+ * @throws Error on unknown keys or values of the wrong type
+ */
+export function parseConfig(raw: unknown, source: string): OrdisConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`Invalid config in ${source}: expected a JSON object`);
+    }
+
+    const input = raw as Record<string, unknown>;
+    const config: OrdisConfig = {};
+    const fail = (key: string, expected: string): never => {
+        throw new Error(`Invalid config in ${source}: "${key}" must be ${expected}`);
+    };
+
+    for (const [key, value] of Object.entries(input)) {
+        if (value === undefined || value === null) continue;
+
+        if ((STRING_KEYS as readonly string[]).includes(key)) {
+            if (typeof value !== 'string' || value === '') fail(key, 'a non-empty string');
+            config[key as typeof STRING_KEYS[number]] = value as string;
+        } else if ((NUMBER_KEYS as readonly string[]).includes(key)) {
+            if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) fail(key, 'a non-negative number');
+            config[key as typeof NUMBER_KEYS[number]] = value as number;
+        } else if (key === 'provider') {
+            const providers = listProviders();
+            if (typeof value !== 'string' || !providers.includes(value)) {
+                fail(key, `one of ${providers.map(name => `"${name}"`).join(', ')}`);
+            }
+            config.provider = value as ProviderName;
+        } else if (key === 'extractionMode') {
+            if (!EXTRACTION_MODES.includes(value as ExtractionMode)) fail(key, '"prompt" or "tool"');
+            config.extractionMode = value as ExtractionMode;
+        } else if ((BOOLEAN_KEYS as readonly string[]).includes(key)) {
+            if (typeof value !== 'boolean') fail(key, 'a boolean');
+            config[key as typeof BOOLEAN_KEYS[number]] = value as boolean;
+        } else if (key === 'retries') {
+            config.retries = parseNumericObject(value, RETRY_KEYS, key, fail, true) as OrdisConfig['retries'];
+        } else if (key === 'ollamaOptions') {
+            config.ollamaOptions = parseNumericObject(value, OLLAMA_OPTION_KEYS, key, fail, false) as OrdisConfig['ollamaOptions'];
+        } else {
+            throw new Error(`Invalid config in ${source}: unknown option "${key}"`);
+        }
+    }
+
+    return config;
+}
+
+/**
+ * Validates an object whose values are all numbers (or a bare number, if allowed)
+ */
+function parseNumericObject(
+    value: unknown,
+    keys: readonly string[],
+    name: string,
+    fail: (key: string, expected: string) => never,
+    allowNumber: boolean
+): number | Record<string, number> {
+    if (allowNumber && typeof value === 'number') {
+        if (!Number.isInteger(value) || value < 0) fail(name, 'a non-negative integer');
+        return value;
+    }
+
+    const expected = `${allowNumber ? 'a number or ' : ''}an object with numeric ${keys.join('/')}`;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) fail(name, expected);
+
+    const result: Record<string, number> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+        if (!keys.includes(key) || typeof entry !== 'number' || !Number.isFinite(entry)) {
+            fail(`${name}.${key}`, keys.includes(key) ? 'a number' : `one of ${keys.join(', ')}`);
+        }
+        result[key] = entry as number;
+    }
+    return result;
+}
+
+/**
+ * Reads ORDIS_* environment variables
+ *
+ * @param env - Environment to read (defaults to process.env)
+ * @returns Config from the environment
+ * @throws Error if a variable has an invalid value
+ */
+export function readEnvConfig(env: NodeJS.ProcessEnv = process.env): OrdisConfig {
+    const raw: Record<string, unknown> = {};
+
+    for (const [name, key] of Object.entries(ENV_VARS)) {
+        const value = env[name];
+        if (value === undefined || value === '') continue;
+
+        if ((BOOLEAN_KEYS as readonly string[]).includes(key)) {
+            const normalized = value.toLowerCase();
+            if (['1', 'true', 'yes', 'on'].includes(normalized)) {
+                raw[key] = true;
+            } else if (['0', 'false', 'no', 'off'].includes(normalized)) {
+                raw[key] = false;
+            } else {
+                throw new Error(`Invalid environment variable ${name}="${value}": must be true or false`);
+            }
+        } else if (key === 'timeout' || key === 'temperature' || key === 'maxContextTokens' || key === 'retries') {
+            const number = Number(value);
+            if (!Number.isFinite(number)) {
+                throw new Error(`Invalid environment variable ${name}="${value}": must be a number`);
+            }
+            raw[key] = number;
+        } else {
+            raw[key] = value;
+        }
+    }
+
+    return parseConfig(raw, 'environment');
+}
+
+/**
+ * Merges config layers into an LLM config
+ *
+ * Later layers override earlier ones key by key; unset keys never override.
+ * `ollamaOptions` and `retries` objects are merged field by field.
+ *
+ * @param layers - Config layers from lowest to highest precedence
+ * @returns Merged LLM config (baseURL/model may still be missing)
+ */
+export function resolveLLMConfig(...layers: OrdisConfig[]): Partial<LLMConfig> {
+    const merged: OrdisConfig = {};
+
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer) as Array<[keyof OrdisConfig, unknown]>) {
+            if (value === undefined) continue;
+
+            if (key === 'ollamaOptions') {
+                merged.ollamaOptions = { ...merged.ollamaOptions, ...(value as OrdisConfig['ollamaOptions']) };
+            } else if (key === 'retries') {
+                merged.retries = mergeRetries(merged.retries, value as OrdisConfig['retries']);
+            } else {
+                (merged as Record<string, unknown>)[key] = value;
+            }
+        }
+    }
+
+    const { retries, ...rest } = merged;
+    return {
+        ...rest,
+        ...(retries !== undefined && { retries: toRetryConfig(retries) }),
+    };
+}
+
+/**
+ * Merges two retry settings, where a bare number means maxRetries
+ */
+function mergeRetries(
+    base: OrdisConfig['retries'],
+    override: OrdisConfig['retries']
+): OrdisConfig['retries'] {
+    const asObject = (value: OrdisConfig['retries']): Partial<RetryConfig> =>
+        typeof value === 'number' ? { maxRetries: value } : { ...value };
+    return { ...asObject(base), ...asObject(override) };
+}
+
+/**
+ * Fills in a complete retry configuration from defaults
+ */
+function toRetryConfig(retries: number | Partial<RetryConfig>): RetryConfig {
+    return {
+        ...DEFAULT_RETRY_CONFIG,
+        ...(typeof retries === 'number' ? { maxRetries: retries } : retries),
+    };
+}
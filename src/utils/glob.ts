@@ -0,0 +1,155 @@
+/**
+ * Input file discovery for directories and glob patterns
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+/**
+ * A file matched by an input pattern
+ */
+export interface MatchedFile {
+    /** Absolute path to the file */
+    path: string;
+    /** Path relative to the pattern's base directory */
+    relativePath: string;
+}
+
+/**
+ * Checks whether a path segment contains glob syntax
+ */
+function hasGlobSyntax(segment: string): boolean {
+    return /[*?[\]{}]/.test(segment);
+}
+
+/**
+ * Converts a glob pattern (relative, '/'-separated) to a regular expression
+ *
+ * Supports `*` (any characters except '/'), `**` (any number of directories),
+ * `?` (one character), `[abc]` character classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let regex = '';
+    let inGroup = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // '**/' matches zero or more directories
+                if (pattern[i + 2] === '/') {
+                    regex += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    regex += '.*';
+                    i += 1;
+                }
+            } else {
+                regex += '[^/]*';
+            }
+        } else if (char === '?') {
+            regex += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                regex += '\\[';
+            } else {
+                const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                regex += `[${body}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            inGroup = true;
+            regex += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            regex += ')';
+        } else if (char === ',' && inGroup) {
+            regex += '|';
+        } else {
+            regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Recursively lists regular files under a directory (paths relative to root, '/'-separated)
+ */
+async function walk(root: string, recursive: boolean, prefix: string = ''): Promise<string[]> {
+    const entries = await fs.readdir(path.join(root, prefix), { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+        // Skip hidden files and directories
+        if (entry.name.startsWith('.')) continue;
+
+        const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            if (recursive) {
+                files.push(...await walk(root, recursive, relative));
+            }
+        } else if (entry.isFile()) {
+            files.push(relative);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Expands a directory path or glob pattern into a sorted list of files
+ *
+ * - A directory matches every (non-hidden) file directly inside it
+ * - A plain file path matches itself
+ * - A glob pattern is matched relative to its longest non-glob directory prefix
+ *
+ * @param pattern - Directory, file path or glob pattern
+ * @param cwd - Directory relative patterns are resolved against
+ * @returns Matched files sorted by relative path
+ */
+export async function expandInputPattern(pattern: string, cwd: string = process.cwd()): Promise<MatchedFile[]> {
+    const normalized = pattern.split(path.sep).join('/');
+    const segments = normalized.split('/');
+    const globIndex = segments.findIndex(hasGlobSyntax);
+
+    if (globIndex === -1) {
+        const target = path.resolve(cwd, pattern);
+        const stat = await fs.stat(target);
+
+        if (stat.isDirectory()) {
+            const files = await walk(target, false);
+            return files.sort().map(file => ({
+                path: path.join(target, file),
+                relativePath: file,
+            }));
+        }
+
+        return [{ path: target, relativePath: path.basename(target) }];
+    }
+
+    const baseDir = path.resolve(cwd, segments.slice(0, globIndex).join('/') || '.');
+    const rest = segments.slice(globIndex).join('/');
+    const matcher = globToRegExp(rest);
+    const recursive = rest.includes('**') || segments.length - globIndex > 1;
+
+    let files: string[];
+    try {
+        files = await walk(baseDir, recursive);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return [];
+        }
+        throw error;
+    }
+
+    return files
+        .filter(file => matcher.test(file))
+        .sort()
+        .map(file => ({
+            path: path.join(baseDir, file),
+            relativePath: file,
+        }));
+}
@@ -0,0 +1,33 @@
+/**
+ * JSON helpers shared across modules
+ */
+
+/**
+ * Serializes a value to JSON with object keys sorted recursively
+ *
+ * Two values that are structurally equal always produce the same string,
+ * which makes the output usable as a deduplication or hashing key.
+ *
+ * @param value - Value to serialize
+ * @returns Canonical JSON string
+ */
+export function canonicalStringify(value: unknown): string {
+    if (value === undefined) {
+        return 'null';
+    }
+
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value);
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalStringify(item)).join(',')}]`;
+    }
+
+    const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, v]) => `${JSON.stringify(key)}:${canonicalStringify(v)}`);
+
+    return `{${entries.join(',')}}`;
+}
@@ -0,0 +1,276 @@
+/**
+ * Best-effort parsing of incomplete JSON documents
+ *
+ * Used while a response is still streaming: the text received so far is
+ * parsed as if every open string, array and object were closed.
+ */
+
+/**
+ * Result of parsing a possibly incomplete JSON document
+ */
+export interface PartialJSON {
+    /**
+     * Parsed value. Open strings hold the characters received so far; numbers
+     * and literals that may still continue are left out of their container.
+     */
+    value: unknown;
+    /** True if the document was closed */
+    complete: boolean;
+    /**
+     * Path to the innermost value still being received (keys and array
+     * indexes from the root). Every value on this path is incomplete; all
+     * other values are complete. Not set when the document is complete.
+     */
+    pending?: Array<string | number>;
+}
+
+type Path = Array<string | number>;
+
+interface Parsed {
+    value: unknown;
+    complete: boolean;
+}
+
+const ESCAPES: Record<string, string> = {
+    '"': '"',
+    '\\': '\\',
+    '/': '/',
+    b: '\b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t',
+};
+
+const LITERALS: Record<string, unknown> = {
+    true: true,
+    false: false,
+    null: null,
+};
+
+const NUMBER_PATTERN = /-?(?:\d+(?:\.\d*)?)?(?:[eE][+-]?\d*)?/y;
+
+/**
+ * Recursive descent parser that stops cleanly at the end of the input
+ */
+class PartialParser {
+    private pos: number;
+    pending?: Path;
+
+    constructor(private readonly text: string, start: number) {
+        this.pos = start;
+    }
+
+    parseValue(path: Path): Parsed {
+        this.skipWhitespace();
+        if (this.atEnd()) {
+            return this.incomplete(undefined, path);
+        }
+
+        const char = this.text[this.pos];
+        if (char === '{') return this.parseObject(path);
+        if (char === '[') return this.parseArray(path);
+        if (char === '"') return this.parseString(path);
+        if (char === '-' || (char >= '0' && char <= '9')) return this.parseNumber(path);
+        if (char === 't' || char === 'f' || char === 'n') return this.parseLiteral(path);
+
+        throw new SyntaxError(`Unexpected character "${char}" at position ${this.pos}`);
+    }
+
+    private parseObject(path: Path): Parsed {
+        const result: Record<string, unknown> = {};
+        this.pos++;
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.atEnd()) return this.incomplete(result, path);
+
+            if (this.text[this.pos] === '}') {
+                this.pos++;
+                return { value: result, complete: true };
+            }
+            if (this.text[this.pos] !== '"') {
+                throw new SyntaxError(`Expected property name at position ${this.pos}`);
+            }
+
+            const key = this.parseString(path);
+            if (!key.complete) return this.incomplete(result, path);
+
+            this.skipWhitespace();
+            if (this.atEnd()) return this.incomplete(result, path);
+            this.expect(':');
+
+            const name = key.value as string;
+            const member = this.parseValue([...path, name]);
+            if (member.value !== undefined) {
+                result[name] = member.value;
+            }
+            if (!member.complete) return { value: result, complete: false };
+
+            this.skipWhitespace();
+            if (this.atEnd()) return this.incomplete(result, path);
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                continue;
+            }
+            this.expect('}');
+            return { value: result, complete: true };
+        }
+    }
+
+    private parseArray(path: Path): Parsed {
+        const result: unknown[] = [];
+        this.pos++;
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.atEnd()) return this.incomplete(result, path);
+
+            if (this.text[this.pos] === ']') {
+                this.pos++;
+                return { value: result, complete: true };
+            }
+
+            const item = this.parseValue([...path, result.length]);
+            if (item.value !== undefined) {
+                result.push(item.value);
+            }
+            if (!item.complete) return { value: result, complete: false };
+
+            this.skipWhitespace();
+            if (this.atEnd()) return this.incomplete(result, path);
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                continue;
+            }
+            this.expect(']');
+            return { value: result, complete: true };
+        }
+    }
+
+    private parseString(path: Path): Parsed {
+        let result = '';
+        this.pos++;
+
+        while (!this.atEnd()) {
+            const char = this.text[this.pos];
+            if (char === '"') {
+                this.pos++;
+                return { value: result, complete: true };
+            }
+            if (char !== '\\') {
+                result += char;
+                this.pos++;
+                continue;
+            }
+
+            const escape = this.text[this.pos + 1];
+            if (escape === undefined) break;
+
+            if (escape === 'u') {
+                const hex = this.text.slice(this.pos + 2, this.pos + 6);
+                if (hex.length < 4) break;
+                if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                    throw new SyntaxError(`Invalid unicode escape at position ${this.pos}`);
+                }
+                result += String.fromCharCode(parseInt(hex, 16));
+                this.pos += 6;
+                continue;
+            }
+
+            if (!(escape in ESCAPES)) {
+                throw new SyntaxError(`Invalid escape at position ${this.pos}`);
+            }
+            result += ESCAPES[escape];
+            this.pos += 2;
+        }
+
+        return this.incomplete(result, path);
+    }
+
+    private parseNumber(path: Path): Parsed {
+        NUMBER_PATTERN.lastIndex = this.pos;
+        const token = NUMBER_PATTERN.exec(this.text)?.[0] ?? '';
+        this.pos += token.length;
+
+        // A number at the end of the input may still have digits to come
+        if (this.atEnd()) {
+            return this.incomplete(undefined, path);
+        }
+
+        const value = Number(token);
+        if (token === '' || Number.isNaN(value)) {
+            throw new SyntaxError(`Invalid number at position ${this.pos - token.length}`);
+        }
+        return { value, complete: true };
+    }
+
+    private parseLiteral(path: Path): Parsed {
+        const rest = this.text.slice(this.pos, this.pos + 5);
+        for (const [literal, value] of Object.entries(LITERALS)) {
+            if (rest.startsWith(literal)) {
+                this.pos += literal.length;
+                return { value, complete: true };
+            }
+            if (this.pos + rest.length === this.text.length && literal.startsWith(rest)) {
+                this.pos = this.text.length;
+                return this.incomplete(undefined, path);
+            }
+        }
+
+        throw new SyntaxError(`Unexpected token at position ${this.pos}`);
+    }
+
+    /**
+     * Marks an incomplete value; only the innermost one records its path
+     */
+    private incomplete(value: unknown, path: Path): Parsed {
+        this.pending ??= path;
+        return { value, complete: false };
+    }
+
+    private expect(char: string): void {
+        if (this.text[this.pos] !== char) {
+            throw new SyntaxError(`Expected "${char}" at position ${this.pos}`);
+        }
+        this.pos++;
+    }
+
+    private skipWhitespace(): void {
+        while (!this.atEnd() && /\s/.test(this.text[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.text.length;
+    }
+}
+
+/**
+ * Parses a JSON document that may be cut off at any point
+ *
+ * Parsing starts at the first `{` or `[`, so leading prose or a markdown
+ * code fence is skipped; anything after the closed document is ignored.
+ *
+ * @param text - JSON text received so far
+ * @returns The parsed value with completion info, or undefined if the text
+ *   has no JSON document yet or is not valid JSON
+ */
+export function parsePartialJSON(text: string): PartialJSON | undefined {
+    const start = text.search(/[{[]/);
+    if (start === -1) {
+        return undefined;
+    }
+
+    const parser = new PartialParser(text, start);
+    try {
+        const { value, complete } = parser.parseValue([]);
+        return complete ? { value, complete } : { value, complete, pending: parser.pending ?? [] };
+    } catch (error) {
+        if (error instanceof SyntaxError) {
+            return undefined;
+        }
+        throw error;
+    }
+}